@@ -0,0 +1,497 @@
+import { notFound, redirect } from "next/navigation";
+import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { PageHeaderMount } from "@/components/page-header";
+import { StatusBadge } from "@/components/status-badge";
+import { FlowDiagram } from "@/components/flow-diagram";
+import {
+  ApprovalActions,
+  CommentReply,
+  type ActionTarget,
+} from "@/components/approval-actions";
+import {
+  findFlowContext,
+  getCurrentStage,
+  isApprovalClosed,
+  listAvailableTransitions,
+  resolveTransitionTarget,
+} from "@/lib/approvalRuntime";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+import { routeToDelegates } from "@/lib/delegation";
+import { voterOf } from "@/lib/quorum";
+import { isSlaOverdue } from "@/lib/stageSla";
+import { formatFileSize } from "@/lib/attachments";
+import { canViewApprovalAttachments } from "@/lib/permissions";
+import {
+  buildApprovalTimeline,
+  type TimelineEvent,
+} from "@/lib/approvalTimeline";
+import type { ApprovalFlow, FlowTransition } from "@/types";
+
+interface ApprovalDetailPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const dateFormatter = new Intl.DateTimeFormat("en", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const TONE_DOTS: Record<TimelineEvent["tone"], string> = {
+  neutral: "bg-slate-400",
+  positive: "bg-emerald-500",
+  negative: "bg-rose-500",
+  warning: "bg-amber-500",
+};
+
+const KIND_LABELS: Record<TimelineEvent["kind"], string> = {
+  action: "Action",
+  comment: "Comment",
+  attachment: "File",
+  escalation: "SLA",
+  notification: "Notification",
+};
+
+function formatPayloadValue(value: unknown) {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function TimelineItem({
+  event,
+  approvalId,
+  canDownload,
+  isReply = false,
+}: {
+  event: TimelineEvent;
+  approvalId: string;
+  /** Without access, files are listed by name only. */
+  canDownload: boolean;
+  isReply?: boolean;
+}) {
+  return (
+    <div className="flex gap-3">
+      <span
+        className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${TONE_DOTS[event.tone]}`}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-slate-900">
+            {event.title}
+          </span>
+          <span className="rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+            {KIND_LABELS[event.kind]}
+          </span>
+        </div>
+        {event.detail ? (
+          <div className="mt-1 text-xs text-slate-500">{event.detail}</div>
+        ) : null}
+        {event.comment ? (
+          <blockquote className="mt-2 whitespace-pre-wrap border-l-2 border-slate-200 pl-3 text-sm text-slate-700">
+            {event.comment}
+          </blockquote>
+        ) : null}
+        {event.mentions?.length ? (
+          <div className="mt-1 text-xs text-slate-500">
+            Mentioned {event.mentions.join(", ")}
+          </div>
+        ) : null}
+        {event.attachments?.length ? (
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {event.attachments.map((attachment) => (
+              <li key={attachment.id}>
+                {canDownload ? (
+                  <a
+                    href={`/api/approvals/${approvalId}/attachments/${attachment.id}`}
+                    className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-medium text-slate-700 hover:border-emerald-300 hover:text-emerald-700"
+                  >
+                    {attachment.fileName}
+                    <span className="text-slate-400">
+                      {formatFileSize(attachment.size)}
+                    </span>
+                  </a>
+                ) : (
+                  <span className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs font-medium text-slate-500">
+                    {attachment.fileName}
+                    <span className="text-slate-400">
+                      {formatFileSize(attachment.size)}
+                    </span>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        <div className="mt-1 text-xs text-slate-400">
+          {dateFormatter.format(new Date(event.timestamp))}
+        </div>
+        {event.replies?.length ? (
+          <ol className="mt-3 space-y-3 border-l border-slate-100 pl-4">
+            {event.replies.map((reply) => (
+              <li key={reply.id}>
+                <TimelineItem
+                  event={reply}
+                  approvalId={approvalId}
+                  canDownload={canDownload}
+                  isReply
+                />
+              </li>
+            ))}
+          </ol>
+        ) : null}
+        {event.comment && !isReply ? (
+          <CommentReply
+            approvalId={approvalId}
+            commentId={event.id}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+function toTargets(
+  flow: ApprovalFlow,
+  transitions: FlowTransition[],
+): ActionTarget[] {
+  const targets = new Map<string, ActionTarget>();
+  transitions.forEach((transition) => {
+    const target = resolveTransitionTarget(flow.definition, transition);
+    if (target && !targets.has(target.id)) {
+      targets.set(target.id, {
+        stageId: target.id,
+        label: transition.label
+          ? `${transition.label} → ${target.name}`
+          : target.name,
+      });
+    }
+  });
+  return Array.from(targets.values());
+}
+
+export default async function ApprovalDetailPage({
+  params,
+}: ApprovalDetailPageProps) {
+  const { id } = await params;
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  if (!currentUser) {
+    redirect(`/login?next=/dashboard/approvals/${encodeURIComponent(id)}`);
+  }
+  const approval = data.approvals.find((item) => item.id === id);
+  if (!approval) {
+    notFound();
+  }
+
+  const now = new Date();
+  const userName = (userId: string) =>
+    data.users.find((user) => user.id === userId)?.name ?? userId;
+  const context = findFlowContext(data.domains, approval.flowId);
+  const flow = context
+    ? resolveFlowRevision(context.flow, approval.flowVersion)
+    : undefined;
+  const domain = data.domains.find((item) => item.id === approval.domainId);
+  const subdomain = domain?.subdomains.find(
+    (item) => item.id === approval.subdomainId,
+  );
+  const currentStage = flow ? getCurrentStage(approval, flow) : undefined;
+  const isClosed = flow ? isApprovalClosed(approval, flow) : true;
+  const canDownload = canViewApprovalAttachments(currentUser, approval);
+
+  const payload = approval.payload ?? {};
+  const schema = flow?.definition.payloadSchema ?? [];
+  const payloadRows = [
+    ...schema.map((field) => ({
+      name: field.name,
+      label: field.label ?? field.name,
+      value: payload[field.name],
+    })),
+    ...Object.keys(payload)
+      .filter((name) => !schema.some((field) => field.name === name))
+      .map((name) => ({ name, label: name, value: payload[name] })),
+  ];
+
+  const history = approval.history ?? [];
+  const visitedStageIds = Array.from(
+    new Set(
+      history.flatMap((entry) =>
+        [entry.fromStageId, entry.toStageId].filter(
+          (stageId): stageId is string => Boolean(stageId),
+        ),
+      ),
+    ),
+  );
+  const takenEdges = history
+    .filter(
+      (entry) =>
+        entry.fromStageId &&
+        entry.toStageId &&
+        entry.fromStageId !== entry.toStageId,
+    )
+    .map((entry) => `${entry.fromStageId}→${entry.toStageId}`);
+
+  const stageVotes = (approval.votes ?? []).filter(
+    (vote) => vote.stageId === approval.currentStageId,
+  );
+  const pendingAssignees = isClosed
+    ? []
+    : approval.approverIds.map((assigneeId) => ({
+        id: assigneeId,
+        delegateId: routeToDelegates([assigneeId], data.users, now)[0],
+      }));
+  const actorIds = Array.from(
+    new Set(
+      pendingAssignees.flatMap((assignee) => [assignee.id, assignee.delegateId]),
+    ),
+  );
+
+  const timeline = buildApprovalTimeline(approval, {
+    flow,
+    users: data.users,
+    outbox: data.outbox,
+    inbox: data.inbox,
+  });
+
+  return (
+    <>
+      <PageHeaderMount
+        eyebrow="Approval"
+        title={approval.title}
+        description={`#${approval.id} · ${domain?.name ?? "Unknown domain"} / ${subdomain?.name ?? "Unknown subdomain"}${flow ? ` · ${flow.name} v${flow.version}` : ""}`}
+      />
+
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        <div className="border border-slate-200 bg-white px-6 py-5 shadow-sm">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Status
+          </div>
+          <div className="mt-2">
+            <StatusBadge status={approval.status} />
+          </div>
+        </div>
+        <div className="border border-slate-200 bg-white px-6 py-5 shadow-sm">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Current stage
+          </div>
+          <div className="mt-2 text-sm font-medium text-slate-900">
+            {currentStage?.name ?? "Unknown"}
+          </div>
+          {approval.sla ? (
+            isSlaOverdue(approval.sla, now) ? (
+              <div className="mt-2 inline-flex rounded-full border border-rose-200 bg-rose-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-rose-700">
+                Overdue since {dateFormatter.format(new Date(approval.sla.dueAt))}
+              </div>
+            ) : (
+              <div className="mt-1 text-xs text-slate-500">
+                Due {dateFormatter.format(new Date(approval.sla.dueAt))}
+              </div>
+            )
+          ) : null}
+        </div>
+        <div className="border border-slate-200 bg-white px-6 py-5 shadow-sm">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Requester
+          </div>
+          <div className="mt-2 text-sm font-medium text-slate-900">
+            {userName(approval.requesterId)}
+          </div>
+          <div className="mt-1 text-xs text-slate-500">
+            Submitted {dateFormatter.format(new Date(approval.submittedAt))}
+          </div>
+        </div>
+        <div className="border border-slate-200 bg-white px-6 py-5 shadow-sm">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Last update
+          </div>
+          <div className="mt-2 text-sm font-medium text-slate-900">
+            {dateFormatter.format(new Date(approval.lastUpdatedAt))}
+          </div>
+        </div>
+      </section>
+
+      <section className="border border-slate-200 bg-white shadow-sm">
+        <header className="flex flex-col gap-2 border-b border-slate-100 px-6 py-5">
+          <h2 className="text-lg font-semibold text-slate-900">Flow</h2>
+          <p className="text-sm text-slate-500">
+            The highlighted stage is where the request sits now; blue marks the
+            stages and transitions it has already been through.
+          </p>
+        </header>
+        <div className="px-6 py-5">
+          {flow ? (
+            <FlowDiagram
+              stages={flow.definition.stages}
+              currentStageId={approval.currentStageId}
+              visitedStageIds={visitedStageIds}
+              takenEdges={takenEdges}
+            />
+          ) : (
+            <p className="text-sm text-slate-500">
+              {context
+                ? describeMissingRevision(context.flow, approval.flowVersion)
+                : "This approval is not bound to a known flow."}
+            </p>
+          )}
+        </div>
+      </section>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="flex flex-col gap-4 lg:col-span-2">
+          <section className="border border-slate-200 bg-white shadow-sm">
+            <header className="flex flex-col gap-2 border-b border-slate-100 px-6 py-5">
+              <h2 className="text-lg font-semibold text-slate-900">Request</h2>
+              <p className="text-sm text-slate-500">
+                Fields submitted with the request, as declared by the flow.
+              </p>
+            </header>
+            {payloadRows.length > 0 ? (
+              <dl className="divide-y divide-slate-100">
+                {payloadRows.map((row) => (
+                  <div
+                    key={row.name}
+                    className="grid gap-1 px-6 py-3 sm:grid-cols-3"
+                  >
+                    <dt className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {row.label}
+                    </dt>
+                    <dd className="text-sm text-slate-800 sm:col-span-2">
+                      {formatPayloadValue(row.value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <p className="px-6 py-5 text-sm text-slate-500">
+                No request fields were submitted.
+              </p>
+            )}
+          </section>
+
+          <section className="border border-slate-200 bg-white shadow-sm">
+            <header className="flex items-center justify-between gap-3 border-b border-slate-100 px-6 py-5">
+              <h2 className="text-lg font-semibold text-slate-900">Timeline</h2>
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                {timeline.length} event(s)
+              </span>
+            </header>
+            <ol className="divide-y divide-slate-100">
+              {timeline.map((event) => (
+                <li key={event.id} className="px-6 py-4">
+                  <TimelineItem
+                    event={event}
+                    approvalId={approval.id}
+                    canDownload={canDownload}
+                  />
+                </li>
+              ))}
+              {timeline.length === 0 ? (
+                <li className="px-6 py-8 text-sm text-slate-500">
+                  Nothing has happened on this approval yet.
+                </li>
+              ) : null}
+            </ol>
+          </section>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <section className="border border-slate-200 bg-white shadow-sm">
+            <header className="flex flex-col gap-2 border-b border-slate-100 px-6 py-5">
+              <h2 className="text-lg font-semibold text-slate-900">
+                Waiting on
+              </h2>
+              {currentStage?.approvers ? (
+                <p className="text-sm text-slate-500">
+                  {stageVotes.length} sign-off(s) collected on{" "}
+                  {currentStage.name}.
+                </p>
+              ) : null}
+            </header>
+            <ul className="divide-y divide-slate-100">
+              {pendingAssignees.map((assignee) => (
+                <li key={assignee.id} className="px-6 py-3">
+                  <div className="text-sm font-medium text-slate-900">
+                    {userName(assignee.id)}
+                  </div>
+                  {assignee.delegateId !== assignee.id ? (
+                    <div className="mt-1 text-xs text-slate-500">
+                      Covered by {userName(assignee.delegateId)}
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+              {stageVotes.map((vote) => (
+                <li key={`${vote.actorId}-${vote.timestamp}`} className="px-6 py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-slate-700">
+                      {userName(voterOf(vote))}
+                    </span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${
+                        vote.decision === "approve"
+                          ? "border border-emerald-200 bg-emerald-50 text-emerald-700"
+                          : "border border-rose-200 bg-rose-50 text-rose-700"
+                      }`}
+                    >
+                      {vote.decision === "approve" ? "Approved" : "Rejected"}
+                    </span>
+                  </div>
+                </li>
+              ))}
+              {pendingAssignees.length === 0 && stageVotes.length === 0 ? (
+                <li className="px-6 py-5 text-sm text-slate-500">
+                  {isClosed
+                    ? "This approval is closed."
+                    : "Nobody is assigned to the current stage."}
+                </li>
+              ) : null}
+            </ul>
+          </section>
+
+          <section className="border border-slate-200 bg-white shadow-sm">
+            <header className="flex flex-col gap-2 border-b border-slate-100 px-6 py-5">
+              <h2 className="text-lg font-semibold text-slate-900">Actions</h2>
+              <p className="text-sm text-slate-500">
+                Decisions and comments are recorded as {currentUser.name}.
+              </p>
+            </header>
+            <div className="px-6 py-5">
+              <ApprovalActions
+                approvalId={approval.id}
+                currentUser={{ id: currentUser.id, name: currentUser.name }}
+                actorIds={actorIds}
+                requesterId={approval.requesterId}
+                approveTargets={
+                  flow && !isClosed
+                    ? toTargets(
+                        flow,
+                        listAvailableTransitions(approval, flow, "approve"),
+                      )
+                    : []
+                }
+                rejectTargets={
+                  flow && !isClosed
+                    ? toTargets(
+                        flow,
+                        listAvailableTransitions(approval, flow, "reject"),
+                      )
+                    : []
+                }
+                isClosed={isClosed}
+              />
+            </div>
+          </section>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,8 +1,15 @@
+import Link from "next/link";
 import { readData } from "@/lib/dataStore";
 import { StatCard } from "@/components/stat-card";
 import { StatusBadge } from "@/components/status-badge";
 import type { ApprovalStatus } from "@/types";
 import { PageHeaderMount } from "@/components/page-header";
+import { isSlaOverdue } from "@/lib/stageSla";
+import { isSubdomainOpen } from "@/lib/domainStore";
+import {
+  ApprovalSubmissionForm,
+  type SubmittableFlow,
+} from "@/components/approval-submission-form";
 
 const STATUS_ORDER: ApprovalStatus[] = [
   "in_process",
@@ -32,6 +39,7 @@ const dateFormatter = new Intl.DateTimeFormat("en", {
 
 export default async function ApprovalsPage() {
   const data = await readData();
+  const now = new Date();
   const domainMap = Object.fromEntries(
     data.domains.map((domain) => [domain.id, domain.name]),
   );
@@ -44,6 +52,22 @@ export default async function ApprovalsPage() {
     data.users.map((user) => [user.id, user.name]),
   );
 
+  const submittableFlows: SubmittableFlow[] = data.domains.flatMap((domain) =>
+    domain.subdomains.flatMap((subdomain) =>
+      subdomain.flows
+        .filter(
+          (flow) => !flow.archivedAt && isSubdomainOpen(domain, subdomain),
+        )
+        .map((flow) => ({
+          id: flow.id,
+          name: flow.name,
+          domainName: domain.name,
+          subdomainName: subdomain.name,
+          payloadSchema: flow.definition.payloadSchema,
+        })),
+    ),
+  );
+
   const statusTotals = data.approvals.reduce<Record<ApprovalStatus, number>>(
     (acc, approval) => {
       acc[approval.status] += 1;
@@ -100,6 +124,18 @@ export default async function ApprovalsPage() {
         ))}
       </section>
 
+      <section className="border border-slate-200 bg-white shadow-sm">
+        <header className="flex flex-col gap-2 border-b border-slate-100 px-6 py-5">
+          <h2 className="text-lg font-semibold text-slate-900">
+            New request
+          </h2>
+          <p className="text-sm text-slate-500">
+            The form follows the request fields declared by the selected flow.
+          </p>
+        </header>
+        <ApprovalSubmissionForm flows={submittableFlows} />
+      </section>
+
       <section className="border border-slate-200 bg-white shadow-sm">
         <header className="flex flex-col gap-4 border-b border-slate-100 px-6 py-5">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -181,9 +217,12 @@ export default async function ApprovalsPage() {
               {approvals.map((approval) => (
                 <tr key={approval.id} className="hover:bg-slate-50">
                   <td className="px-6 py-4">
-                    <div className="font-medium text-slate-900">
+                    <Link
+                      href={`/dashboard/approvals/${approval.id}`}
+                      className="font-medium text-slate-900 hover:text-emerald-700 hover:underline"
+                    >
                       {approval.title}
-                    </div>
+                    </Link>
                     <div className="text-xs text-slate-500">
                       #{approval.id}
                     </div>
@@ -210,6 +249,18 @@ export default async function ApprovalsPage() {
                   </td>
                   <td className="px-6 py-4">
                     <StatusBadge status={approval.status} />
+                    {approval.sla ? (
+                      isSlaOverdue(approval.sla, now) ? (
+                        <div className="mt-2 inline-flex rounded-full border border-rose-200 bg-rose-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-rose-700">
+                          Overdue since{" "}
+                          {dateFormatter.format(new Date(approval.sla.dueAt))}
+                        </div>
+                      ) : (
+                        <div className="mt-2 text-xs text-slate-500">
+                          Due {dateFormatter.format(new Date(approval.sla.dueAt))}
+                        </div>
+                      )
+                    ) : null}
                   </td>
                   <td className="px-6 py-4 text-sm text-slate-600">
                     {dateFormatter.format(new Date(approval.lastUpdatedAt))}
@@ -286,9 +337,12 @@ export default async function ApprovalsPage() {
             <ul className="divide-y divide-slate-100">
               {approvalsByStatus[status].map((approval) => (
                 <li key={approval.id} className="px-6 py-4">
-                  <div className="font-medium text-slate-900">
+                  <Link
+                    href={`/dashboard/approvals/${approval.id}`}
+                    className="font-medium text-slate-900 hover:text-emerald-700 hover:underline"
+                  >
                     {approval.title}
-                  </div>
+                  </Link>
                   <div className="mt-1 text-xs text-slate-500">
                     Requester: {userMap[approval.requesterId] ?? "Unknown"} ·{" "}
                     Domain: {domainMap[approval.domainId] ?? "Unknown"} ·{" "}
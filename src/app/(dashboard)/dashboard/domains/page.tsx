@@ -1,9 +1,17 @@
 import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import {
+  canEditDomain,
+  canEditSubdomain,
+  canManageDomains,
+  isDomainOwner,
+} from "@/lib/permissions";
 import { StatCard } from "@/components/stat-card";
 import type { ApprovalStatus } from "@/types";
 import { StatusBadge } from "@/components/status-badge";
 import { buildFlowNotifications } from "@/lib/notificationEngine";
 import { PageHeaderMount } from "@/components/page-header";
+import { DomainEditor, DomainRemoval } from "@/components/domain-controls";
 
 const STATUS_ORDER: ApprovalStatus[] = [
   "in_process",
@@ -13,8 +21,12 @@ const STATUS_ORDER: ApprovalStatus[] = [
 ];
 
 export default async function DomainsPage() {
-  const data = await readData();
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
   const users = data.users;
+  const userName = (userId: string) =>
+    users.find((user) => user.id === userId)?.name ?? userId;
+  const ownerChoices = users.map((user) => ({ id: user.id, name: user.name }));
+  const canManage = currentUser ? canManageDomains(currentUser) : false;
 
   const totals = data.domains.map((domain) => {
     const domainApprovals = data.approvals.filter(
@@ -77,7 +89,7 @@ export default async function DomainsPage() {
       <PageHeaderMount
         eyebrow="Domains"
         title="Domains"
-        description="Review governance coverage for every domain, including subdomains, flows, and notification density."
+        description="Curate business domains and their owners, and review governance coverage across subdomains, flows, and notification density."
       />
       <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
         <StatCard
@@ -103,14 +115,24 @@ export default async function DomainsPage() {
       </section>
 
       <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
-        <header className="border-b border-slate-100 px-6 py-5">
-          <h2 className="text-lg font-semibold text-slate-900">
-            Domain overview
-          </h2>
-          <p className="text-sm text-slate-500">
-            Compare governed areas side by side, including flow coverage,
-            notification density, and current approval distribution.
-          </p>
+        <header className="flex flex-wrap items-start justify-between gap-4 border-b border-slate-100 px-6 py-5">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">
+              Domain overview
+            </h2>
+            <p className="text-sm text-slate-500">
+              Compare governed areas side by side, including flow coverage,
+              notification density, and current approval distribution.
+            </p>
+          </div>
+          {canManage ? (
+            <DomainEditor
+              endpoint="/api/domains"
+              mode="create"
+              kind="domain"
+              users={ownerChoices}
+            />
+          ) : null}
         </header>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-slate-100 text-left text-sm">
@@ -130,63 +152,158 @@ export default async function DomainsPage() {
                   approvals,
                   statusCounts,
                   notificationCount,
-                }) => (
-                  <tr key={domain.id} className="hover:bg-slate-50">
-                    <td className="px-6 py-4 align-top">
-                      <div className="font-semibold text-slate-900">
-                        {domain.name}
-                      </div>
-                      <p className="text-xs text-slate-500">
-                        {domain.description}
-                      </p>
-                      <p className="mt-2 text-xs uppercase tracking-wide text-slate-400">
-                        {flows.length} flows · {approvals.length} approvals
-                      </p>
-                    </td>
-                    <td className="px-6 py-4 align-top">
-                      <div className="flex flex-wrap gap-2">
-                        {STATUS_ORDER.map((status) => (
-                          <span
-                            key={`${domain.id}-${status}`}
-                            className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600"
-                          >
-                            <StatusBadge status={status} />
-                            {statusCounts[status]}
+                }) => {
+                  const canEdit = currentUser
+                    ? canEditDomain(currentUser, domain)
+                    : false;
+                  return (
+                    <tr key={domain.id} className="hover:bg-slate-50">
+                      <td className="px-6 py-4 align-top">
+                        <div className="flex items-center gap-2 font-semibold text-slate-900">
+                          {domain.name}
+                          {domain.archivedAt ? (
+                            <span className="inline-flex rounded-full border border-slate-200 bg-slate-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                              Archived
+                            </span>
+                          ) : null}
+                        </div>
+                        <p className="text-xs text-slate-500">
+                          {domain.description}
+                        </p>
+                        <p className="mt-2 text-xs uppercase tracking-wide text-slate-400">
+                          {flows.length} flows · {approvals.length} approvals
+                        </p>
+                        <p className="mt-2 text-xs text-slate-500">
+                          Owners:{" "}
+                          {domain.ownerIds?.length
+                            ? domain.ownerIds.map(userName).join(", ")
+                            : "none yet"}
+                        </p>
+                        {currentUser && isDomainOwner(currentUser, domain) ? (
+                          <span className="mt-2 inline-flex rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-700">
+                            You own this domain
                           </span>
-                        ))}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 align-top">
-                      <ul className="space-y-2 text-xs text-slate-600">
-                        {domain.subdomains.map((subdomain) => (
-                          <li key={subdomain.id}>
-                            <div className="flex items-center justify-between gap-3 rounded border border-slate-200 bg-slate-50 px-3 py-2">
-                              <div>
-                                <p className="font-semibold text-slate-800">
-                                  {subdomain.name}
-                                </p>
-                                <p className="text-[11px] text-slate-500">
-                                  {subdomain.description}
-                                </p>
+                        ) : null}
+                        <div className="mt-3 flex flex-wrap items-start gap-2">
+                          {canEdit ? (
+                            <DomainEditor
+                              endpoint={`/api/domains/${domain.id}`}
+                              mode="edit"
+                              kind="domain"
+                              initial={{
+                                id: domain.id,
+                                name: domain.name,
+                                description: domain.description,
+                                ownerIds: domain.ownerIds ?? [],
+                              }}
+                              users={ownerChoices}
+                            />
+                          ) : null}
+                          {canManage ? (
+                            <DomainRemoval
+                              endpoint={`/api/domains/${domain.id}`}
+                              name={domain.name}
+                              archived={Boolean(domain.archivedAt)}
+                            />
+                          ) : null}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 align-top">
+                        <div className="flex flex-wrap gap-2">
+                          {STATUS_ORDER.map((status) => (
+                            <span
+                              key={`${domain.id}-${status}`}
+                              className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600"
+                            >
+                              <StatusBadge status={status} />
+                              {statusCounts[status]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 align-top">
+                        <ul className="space-y-2 text-xs text-slate-600">
+                          {domain.subdomains.map((subdomain) => (
+                            <li key={subdomain.id}>
+                              <div className="flex items-center justify-between gap-3 rounded border border-slate-200 bg-slate-50 px-3 py-2">
+                                <div>
+                                  <p className="flex items-center gap-2 font-semibold text-slate-800">
+                                    {subdomain.name}
+                                    {subdomain.archivedAt ? (
+                                      <span className="inline-flex rounded-full border border-slate-200 bg-slate-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                                        Archived
+                                      </span>
+                                    ) : null}
+                                  </p>
+                                  <p className="text-[11px] text-slate-500">
+                                    {subdomain.description}
+                                  </p>
+                                  {subdomain.ownerIds?.length ? (
+                                    <p className="text-[11px] text-slate-500">
+                                      Owners:{" "}
+                                      {subdomain.ownerIds
+                                        .map(userName)
+                                        .join(", ")}
+                                    </p>
+                                  ) : null}
+                                </div>
+                                <span className="text-[11px] uppercase tracking-wide text-slate-500">
+                                  {subdomain.flows.length} flow(s)
+                                </span>
                               </div>
-                              <span className="text-[11px] uppercase tracking-wide text-slate-500">
-                                {subdomain.flows.length} flow(s)
-                              </span>
-                            </div>
-                          </li>
-                        ))}
-                      </ul>
-                    </td>
-                    <td className="px-6 py-4 align-top text-sm text-slate-700">
-                      <div className="font-semibold text-slate-900">
-                        {notificationCount} notification(s)
-                      </div>
-                      <p className="text-xs text-slate-500">
-                        Supervisor alerts across every stage
-                      </p>
-                    </td>
-                  </tr>
-                ),
+                              <div className="mt-1 flex flex-wrap items-start gap-2">
+                                {currentUser &&
+                                canEditSubdomain(
+                                  currentUser,
+                                  domain,
+                                  subdomain,
+                                ) ? (
+                                  <DomainEditor
+                                    endpoint={`/api/domains/${domain.id}/subdomains/${subdomain.id}`}
+                                    mode="edit"
+                                    kind="subdomain"
+                                    initial={{
+                                      id: subdomain.id,
+                                      name: subdomain.name,
+                                      description: subdomain.description,
+                                      ownerIds: subdomain.ownerIds ?? [],
+                                    }}
+                                    users={ownerChoices}
+                                  />
+                                ) : null}
+                                {canEdit ? (
+                                  <DomainRemoval
+                                    endpoint={`/api/domains/${domain.id}/subdomains/${subdomain.id}`}
+                                    name={subdomain.name}
+                                    archived={Boolean(subdomain.archivedAt)}
+                                  />
+                                ) : null}
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                        {canEdit && !domain.archivedAt ? (
+                          <div className="mt-3">
+                            <DomainEditor
+                              endpoint={`/api/domains/${domain.id}/subdomains`}
+                              mode="create"
+                              kind="subdomain"
+                              users={ownerChoices}
+                            />
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className="px-6 py-4 align-top text-sm text-slate-700">
+                        <div className="font-semibold text-slate-900">
+                          {notificationCount} notification(s)
+                        </div>
+                        <p className="text-xs text-slate-500">
+                          Supervisor alerts across every stage
+                        </p>
+                      </td>
+                    </tr>
+                  );
+                },
               )}
             </tbody>
           </table>
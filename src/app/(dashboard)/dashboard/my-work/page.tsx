@@ -0,0 +1,43 @@
+import { redirect } from "next/navigation";
+import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { PageHeaderMount } from "@/components/page-header";
+import { WorkQueue, type WorkQueueRow } from "@/components/work-queue";
+import { buildWorkItems } from "@/lib/workQueue";
+
+const dateFormatter = new Intl.DateTimeFormat("en", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default async function MyWorkPage() {
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  if (!currentUser) {
+    redirect("/login?next=/dashboard/my-work");
+  }
+  const rows: WorkQueueRow[] = buildWorkItems(data, currentUser.id, new Date()).map(
+    (item) => ({
+      ...item,
+      dueLabel: item.dueAt
+        ? dateFormatter.format(new Date(item.dueAt))
+        : undefined,
+      updatedLabel: dateFormatter.format(new Date(item.lastUpdatedAt)),
+    }),
+  );
+
+  return (
+    <>
+      <PageHeaderMount
+        eyebrow="Approvals"
+        title="My work"
+        description="Requests whose current stage waits on you or someone you cover for, most urgent first."
+      />
+      <section className="border border-slate-200 bg-white pb-2 shadow-sm">
+        <WorkQueue
+          rows={rows}
+          currentUserName={currentUser.name}
+        />
+      </section>
+    </>
+  );
+}
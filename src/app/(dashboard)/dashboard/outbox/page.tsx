@@ -0,0 +1,166 @@
+import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canOperateNotifications } from "@/lib/permissions";
+import { StatCard } from "@/components/stat-card";
+import { PageHeaderMount } from "@/components/page-header";
+import {
+  DeliverOutboxButton,
+  RetryNotificationButton,
+  SendDigestButton,
+} from "@/components/outbox-controls";
+import { MAX_DELIVERY_ATTEMPTS } from "@/lib/notificationOutbox";
+import type { OutboxMessageStatus } from "@/types";
+
+const dateFormatter = new Intl.DateTimeFormat("en", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const STATUS_ORDER: OutboxMessageStatus[] = [
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+  "held",
+  "batched",
+];
+
+const STATUS_STYLES: Record<OutboxMessageStatus, string> = {
+  pending: "border border-amber-200 bg-amber-50 text-amber-700",
+  sending: "border border-violet-200 bg-violet-50 text-violet-700",
+  sent: "border border-emerald-200 bg-emerald-50 text-emerald-700",
+  failed: "border border-rose-200 bg-rose-50 text-rose-700",
+  held: "border border-sky-200 bg-sky-50 text-sky-700",
+  batched: "border border-slate-200 bg-slate-50 text-slate-600",
+};
+
+const STATUS_DESCRIPTIONS: Record<OutboxMessageStatus, string> = {
+  pending: "Waiting for the delivery worker",
+  sending: "Claimed by a delivery run",
+  sent: "Accepted by the transport",
+  failed: `Gave up after ${MAX_DELIVERY_ATTEMPTS} attempts`,
+  held: "Waiting for the daily digest",
+  batched: "Folded into a digest",
+};
+
+export default async function OutboxPage() {
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  const canOperate = currentUser ? canOperateNotifications(currentUser) : false;
+  const approvalTitles = Object.fromEntries(
+    data.approvals.map((approval) => [approval.id, approval.title]),
+  );
+  const messages = data.outbox
+    .slice()
+    .sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+    );
+  const totals = STATUS_ORDER.reduce<Record<OutboxMessageStatus, number>>(
+    (acc, status) => {
+      acc[status] = messages.filter((message) => message.status === status)
+        .length;
+      return acc;
+    },
+    { pending: 0, sending: 0, sent: 0, failed: 0, held: 0, batched: 0 },
+  );
+
+  return (
+    <>
+      <PageHeaderMount
+        eyebrow="Outbox"
+        title="Notification outbox"
+        description="Every stage notification queued by approval transitions, with its delivery state."
+        actions={
+          canOperate ? (
+            <>
+              <SendDigestButton />
+              <DeliverOutboxButton />
+            </>
+          ) : undefined
+        }
+      />
+      <section className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
+        {STATUS_ORDER.map((status) => (
+          <StatCard
+            key={status}
+            title={STATUS_DESCRIPTIONS[status]}
+            value={totals[status]}
+            subtitle={`Status: ${status.toUpperCase()}`}
+          />
+        ))}
+      </section>
+      <section className="rounded-xl border border-slate-200 bg-white shadow-sm">
+        <div className="divide-y divide-slate-100">
+          {messages.map((message) => (
+            <article
+              key={message.id}
+              className="flex flex-col gap-3 px-6 py-4 sm:flex-row sm:items-start sm:justify-between"
+            >
+              <div className="flex flex-col gap-2">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span
+                    className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${STATUS_STYLES[message.status]}`}
+                  >
+                    {message.status}
+                  </span>
+                  {message.channel === "webhook" ? (
+                    <span className="inline-flex items-center rounded-full bg-sky-100 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-sky-700">
+                      Webhook
+                    </span>
+                  ) : null}
+                  <span className="text-sm font-medium text-slate-700">
+                    {message.subject}
+                  </span>
+                </div>
+                <div className="text-xs text-slate-500">
+                  {approvalTitles[message.approvalId] ?? message.approvalId} ·{" "}
+                  {message.channel === "webhook"
+                    ? `POST ${message.url}`
+                    : `To ${message.to.join(", ")}`}
+                  {message.cc.length > 0 ? ` · Cc ${message.cc.join(", ")}` : ""}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {message.attempts} attempt{message.attempts === 1 ? "" : "s"}
+                  {message.transport ? ` via ${message.transport}` : ""}
+                  {message.digestId ? ` · In digest ${message.digestId}` : ""}
+                  {message.sentAt
+                    ? ` · Sent ${dateFormatter.format(new Date(message.sentAt))}`
+                    : ""}
+                  {message.status === "pending" && message.nextAttemptAt
+                    ? ` · Next attempt ${dateFormatter.format(new Date(message.nextAttemptAt))}`
+                    : ""}
+                </div>
+                {message.lastError && message.status !== "sent" ? (
+                  <div className="text-xs text-rose-600">
+                    {message.lastError}
+                  </div>
+                ) : null}
+                <details className="group">
+                  <summary className="cursor-pointer text-xs text-slate-500 underline decoration-dotted underline-offset-4">
+                    View message
+                  </summary>
+                  <pre className="mt-2 overflow-x-auto whitespace-pre-wrap rounded-lg bg-slate-950/90 px-4 py-3 text-xs text-slate-100">
+                    {message.body}
+                  </pre>
+                </details>
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <time className="text-sm text-slate-500">
+                  {dateFormatter.format(new Date(message.createdAt))}
+                </time>
+                {canOperate && message.status === "failed" ? (
+                  <RetryNotificationButton messageId={message.id} />
+                ) : null}
+              </div>
+            </article>
+          ))}
+          {messages.length === 0 ? (
+            <div className="px-6 py-10 text-center text-sm text-slate-500">
+              No notifications queued yet. Submitting or advancing an approval
+              queues one for the stage it enters.
+            </div>
+          ) : null}
+        </div>
+      </section>
+    </>
+  );
+}
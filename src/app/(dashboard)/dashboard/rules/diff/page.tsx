@@ -0,0 +1,160 @@
+import Link from "next/link";
+import { readData } from "@/lib/dataStore";
+import { PageHeaderMount } from "@/components/page-header";
+import { FlowDiffSummary } from "@/components/flow-diff-summary";
+import { findFlowContext } from "@/lib/approvalRuntime";
+import { diffFlowDefinitions } from "@/lib/flowDiff";
+import { listFlowRevisions } from "@/lib/flowVersioning";
+import type { ApprovalFlow, ApprovalFlowDefinition } from "@/types";
+
+const DRAFT_KEY = "draft";
+
+interface FlowDiffPageProps {
+  searchParams: Promise<{
+    flowId?: string;
+    base?: string;
+    target?: string;
+  }>;
+}
+
+function listRevisionOptions(flow: ApprovalFlow) {
+  const published = listFlowRevisions(flow).map((revision) => ({
+    key: revision.version,
+    label: `v${revision.version}`,
+    definition: revision.definition,
+  }));
+  return flow.draft
+    ? [
+        {
+          key: DRAFT_KEY,
+          label: `Draft (based on v${flow.draft.baseVersion})`,
+          definition: flow.draft.definition,
+        },
+        ...published,
+      ]
+    : published;
+}
+
+function collectStageNames(...definitions: ApprovalFlowDefinition[]) {
+  return Object.fromEntries(
+    definitions.flatMap((definition) =>
+      definition.stages.map((stage) => [stage.id, stage.name]),
+    ),
+  );
+}
+
+export default async function FlowDiffPage({ searchParams }: FlowDiffPageProps) {
+  const params = await searchParams;
+  const data = await readData();
+  const flowEntries = data.domains.flatMap((domain) =>
+    domain.subdomains.flatMap((subdomain) => subdomain.flows),
+  );
+  const flowContext =
+    findFlowContext(data.domains, params.flowId) ??
+    findFlowContext(data.domains, flowEntries[0]?.id);
+
+  const options = flowContext ? listRevisionOptions(flowContext.flow) : [];
+  const target =
+    options.find((option) => option.key === params.target) ?? options[0];
+  const base =
+    options.find((option) => option.key === params.base) ??
+    options.find((option) => option !== target) ??
+    target;
+  const diff =
+    base && target
+      ? diffFlowDefinitions(base.definition, target.definition)
+      : null;
+
+  return (
+    <>
+      <PageHeaderMount
+        eyebrow="Rules Diff"
+        title="Compare flow revisions"
+        description="Review stage, actor, notification, and transition changes between two revisions of a flow."
+        actions={
+          <Link
+            href="/dashboard/rules"
+            className="inline-flex items-center rounded-full border border-slate-200 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 shadow-sm transition hover:bg-slate-100"
+          >
+            ← Back to catalog
+          </Link>
+        }
+      />
+      <section className="rounded-xl border border-slate-200 bg-white shadow-sm">
+        <form
+          method="get"
+          className="grid gap-3 border-b border-slate-100 px-6 py-5 md:grid-cols-4 md:items-end"
+        >
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Flow
+            <select
+              name="flowId"
+              defaultValue={flowContext?.flow.id}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800"
+            >
+              {flowEntries.map((flow) => (
+                <option key={flow.id} value={flow.id}>
+                  {flow.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Base revision
+            <select
+              name="base"
+              defaultValue={base?.key}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800"
+            >
+              {options.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Compared revision
+            <select
+              name="target"
+              defaultValue={target?.key}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800"
+            >
+              {options.map((option) => (
+                <option key={option.key} value={option.key}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="submit"
+              className="inline-flex items-center rounded-full border border-slate-900 bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700"
+            >
+              Compare
+            </button>
+            {flowContext ? (
+              <Link
+                href={`/dashboard/rules/new?flowId=${flowContext.flow.id}`}
+                className="inline-flex items-center rounded-full border border-slate-200 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+              >
+                Open on canvas
+              </Link>
+            ) : null}
+          </div>
+        </form>
+        {diff && base && target ? (
+          <FlowDiffSummary
+            diff={diff}
+            stageNames={collectStageNames(base.definition, target.definition)}
+          />
+        ) : (
+          <p className="px-6 py-8 text-center text-sm text-slate-500">
+            No flows available to compare.
+          </p>
+        )}
+      </section>
+    </>
+  );
+}
@@ -1,38 +1,35 @@
 import Link from "next/link";
 import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageRules, getFlowAdminRoles } from "@/lib/permissions";
 import { PageHeaderMount } from "@/components/page-header";
 import { RuleBuilder } from "@/components/rule-builder";
-import type { ApprovalFlow, Domain } from "@/types";
+import { findFlowContext } from "@/lib/approvalRuntime";
+import { isSubdomainOpen } from "@/lib/domainStore";
 
 interface NewRulePageProps {
-  searchParams: {
+  searchParams: Promise<{
     flowId?: string;
-  };
-}
-
-function findFlowContext(domains: Domain[], flowId: string | undefined) {
-  if (!flowId) {
-    return null;
-  }
-  for (const domain of domains) {
-    for (const subdomain of domain.subdomains) {
-      const flow = subdomain.flows.find((item) => item.id === flowId);
-      if (flow) {
-        return { flow, domain, subdomain } as {
-          flow: ApprovalFlow;
-          domain: Domain;
-          subdomain: Domain["subdomains"][number];
-        };
-      }
-    }
-  }
-  return null;
+  }>;
 }
 
 export default async function NewRulePage({ searchParams }: NewRulePageProps) {
-  const data = await readData();
-  const flowContext = findFlowContext(data.domains, searchParams.flowId);
+  const { flowId } = await searchParams;
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  const canManage = currentUser ? canManageRules(currentUser) : false;
+  const flowContext = findFlowContext(data.domains, flowId);
   const isEditing = Boolean(flowContext);
+  // New flows only go into open subdomains; a flow being edited keeps its own.
+  const domains = data.domains
+    .map((domain) => ({
+      ...domain,
+      subdomains: domain.subdomains.filter(
+        (subdomain) =>
+          isSubdomainOpen(domain, subdomain) ||
+          subdomain.id === flowContext?.subdomain.id,
+      ),
+    }))
+    .filter((domain) => domain.subdomains.length > 0);
 
   return (
     <>
@@ -41,8 +38,8 @@ export default async function NewRulePage({ searchParams }: NewRulePageProps) {
         title={isEditing ? "Edit approval flow" : "Compose an approval flow"}
         description={
           isEditing
-            ? "Update an existing blueprint, adjust actors, and reshare the JSON definition."
-            : "Drag stages across the canvas, zoom to inspect, and export JSON for downstream automation."
+            ? "Update an existing blueprint, adjust actors, and save the revised definition."
+            : "Drag stages across the canvas, zoom to inspect, and save the flow into its subdomain."
         }
         actions={
           <Link
@@ -53,12 +50,20 @@ export default async function NewRulePage({ searchParams }: NewRulePageProps) {
           </Link>
         }
       />
-      <RuleBuilder
-        key={flowContext?.flow.id ?? "create"}
-        users={data.users}
-        domains={data.domains}
-        initialFlowContext={flowContext ?? undefined}
-      />
+      {canManage ? (
+        <RuleBuilder
+          key={flowContext?.flow.id ?? "create"}
+          users={data.users}
+          domains={domains}
+          initialFlowContext={flowContext ?? undefined}
+        />
+      ) : (
+        <section className="border border-slate-200 bg-white px-6 py-8 text-sm text-slate-500 shadow-sm">
+          Only flow admins can create or edit rules. Ask someone with the{" "}
+          {getFlowAdminRoles().join(" or ")} role to make the change, or try
+          flows in the sandbox.
+        </section>
+      )}
     </>
   );
 }
@@ -1,7 +1,10 @@
 import Link from "next/link";
 import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageRules } from "@/lib/permissions";
 import { StatCard } from "@/components/stat-card";
 import { buildFlowNotifications } from "@/lib/notificationEngine";
+import { listFlowRevisions } from "@/lib/flowVersioning";
 import { PageHeaderMount } from "@/components/page-header";
 import { RuleCatalogTable, type RuleCatalogEntry } from "@/components/rule-catalog-table";
 
@@ -11,7 +14,8 @@ const dateFormatter = new Intl.DateTimeFormat("en", {
 });
 
 export default async function RulesPage() {
-  const data = await readData();
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  const canManage = currentUser ? canManageRules(currentUser) : false;
 
   const flowEntries = data.domains.flatMap((domain) =>
     domain.subdomains.flatMap((subdomain) =>
@@ -64,6 +68,9 @@ export default async function RulesPage() {
         stageCount: flow.definition.stages.length,
         notificationCount: notifications.length,
         updatedAt: dateFormatter.format(new Date(flow.updatedAt)),
+        archived: Boolean(flow.archivedAt),
+        hasDraft: Boolean(flow.draft),
+        revision: flow.revision ?? 0,
       };
     },
   );
@@ -110,25 +117,27 @@ export default async function RulesPage() {
             </p>
           </div>
           <div className="flex flex-wrap items-center gap-3">
-            <Link
-              href="/dashboard/rules/new"
-              className="inline-flex items-center gap-2 rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-emerald-600"
-            >
-              <svg
-                className="h-4 w-4"
-                viewBox="0 0 20 20"
-                fill="none"
-                aria-hidden="true"
+            {canManage ? (
+              <Link
+                href="/dashboard/rules/new"
+                className="inline-flex items-center gap-2 rounded-full border border-emerald-500 bg-emerald-500 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white shadow-sm transition hover:bg-emerald-600"
               >
-                <path
-                  d="M10 4.167v11.666M4.167 10h11.666"
-                  stroke="currentColor"
-                  strokeWidth="1.5"
-                  strokeLinecap="round"
-                />
-              </svg>
-              Create new rule
-            </Link>
+                <svg
+                  className="h-4 w-4"
+                  viewBox="0 0 20 20"
+                  fill="none"
+                  aria-hidden="true"
+                >
+                  <path
+                    d="M10 4.167v11.666M4.167 10h11.666"
+                    stroke="currentColor"
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                  />
+                </svg>
+                Create new rule
+              </Link>
+            ) : null}
             <Link
               href="/dashboard/rules/sandbox"
               className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 shadow-sm transition hover:bg-slate-100"
@@ -157,7 +166,77 @@ export default async function RulesPage() {
             </Link>
           </div>
         </header>
-        <RuleCatalogTable entries={tableEntries} />
+        <RuleCatalogTable entries={tableEntries} canManage={canManage} />
+      </section>
+
+      <section className="rounded-xl border border-slate-200 bg-white shadow-sm">
+        <header className="border-b border-slate-100 px-6 py-5">
+          <h2 className="text-lg font-semibold text-slate-900">
+            Revision history
+          </h2>
+          <p className="text-sm text-slate-500">
+            Published revisions are immutable. Approvals stay pinned to the
+            version they were submitted against.
+          </p>
+        </header>
+        <ul className="divide-y divide-slate-100">
+          {flowEntries.map(({ domain, subdomain, flow }) => {
+            const revisions = listFlowRevisions(flow);
+            return (
+              <li key={flow.id} className="px-6 py-4">
+                <details className="group">
+                  <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-3">
+                    <span className="font-medium text-slate-900">
+                      {flow.name}
+                      <span className="ml-2 text-xs font-normal text-slate-500">
+                        {domain.name} · {subdomain.name}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-3 text-xs font-semibold uppercase tracking-wide text-slate-400">
+                      {revisions.length} revision(s)
+                      {flow.draft ? " · draft pending" : ""}
+                      <Link
+                        href={`/dashboard/rules/diff?flowId=${flow.id}`}
+                        className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] text-slate-600 transition hover:bg-slate-100"
+                      >
+                        Compare
+                      </Link>
+                    </span>
+                  </summary>
+                  <ol className="mt-3 space-y-2 text-sm text-slate-700">
+                    {revisions.map((revision, index) => {
+                      const pinnedCount = data.approvals.filter(
+                        (approval) =>
+                          approval.flowId === flow.id &&
+                          approval.flowVersion === revision.version,
+                      ).length;
+                      return (
+                        <li
+                          key={revision.version}
+                          className="flex flex-wrap items-center justify-between gap-3 rounded border border-slate-200 bg-slate-50 px-3 py-2"
+                        >
+                          <span className="font-semibold text-slate-800">
+                            v{revision.version}
+                            {index === 0 ? (
+                              <span className="ml-2 rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-emerald-700">
+                                Current
+                              </span>
+                            ) : null}
+                          </span>
+                          <span className="text-xs text-slate-500">
+                            {revision.definition.stages.length} stage(s) ·{" "}
+                            {pinnedCount} approval(s) pinned · published{" "}
+                            {dateFormatter.format(new Date(revision.publishedAt))}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </details>
+              </li>
+            );
+          })}
+        </ul>
       </section>
     </>
   );
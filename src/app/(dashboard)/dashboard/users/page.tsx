@@ -1,8 +1,14 @@
 import { readData } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageUser } from "@/lib/permissions";
 import { StatCard } from "@/components/stat-card";
 import type { ApprovalStatus, User } from "@/types";
 import { StatusBadge } from "@/components/status-badge";
 import { PageHeaderMount } from "@/components/page-header";
+import { DelegationControl } from "@/components/delegation-control";
+import { NotificationPreferencesControl } from "@/components/notification-preferences-control";
+import { getDelegationStatus, resolveDelegate } from "@/lib/delegation";
+import { getNotificationPreferences } from "@/lib/notificationPreferences";
 
 const STATUS_ORDER: ApprovalStatus[] = [
   "in_process",
@@ -25,11 +31,14 @@ const DEFAULT_ROLE_STYLE =
   "bg-slate-200 text-slate-700 border-slate-200";
 
 export default async function UsersPage() {
-  const data = await readData();
+  const [data, currentUser] = await Promise.all([readData(), getSessionUser()]);
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
   const usersById = Object.fromEntries(data.users.map((user) => [user.id, user]));
   const domainMap = Object.fromEntries(
     data.domains.map((domain) => [domain.id, domain.name]),
   );
+  const domainOptions = data.domains.map(({ id, name }) => ({ id, name }));
   const subdomainMap = Object.fromEntries(
     data.domains.flatMap((domain) =>
       domain.subdomains.map((subdomain) => [
@@ -59,6 +68,16 @@ export default async function UsersPage() {
     const approvalsToReview = data.approvals.filter((approval) =>
       approval.approverIds.includes(user.id),
     );
+    const approvalsCovered = data.approvals.filter((approval) =>
+      approval.approverIds.some(
+        (approverId) =>
+          approverId !== user.id &&
+          resolveDelegate(approverId, data.users, now) === user.id,
+      ),
+    );
+    const delegationStatus = user.delegation
+      ? getDelegationStatus(user.delegation, now)
+      : undefined;
 
     const domainCoverage = new Set(
       approvalsToReview.map(
@@ -76,6 +95,8 @@ export default async function UsersPage() {
       requested,
       approvalsByStatus,
       approvalsToReview,
+      approvalsCovered,
+      delegationStatus,
       domainCoverage,
       supervisor,
     };
@@ -132,6 +153,8 @@ export default async function UsersPage() {
                 <th className="px-6 py-3 font-semibold">Requests submitted</th>
                 <th className="px-6 py-3 font-semibold">Approvals to review</th>
                 <th className="px-6 py-3 font-semibold">Domain coverage</th>
+                <th className="px-6 py-3 font-semibold">Delegation</th>
+                <th className="px-6 py-3 font-semibold">Notifications</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
@@ -152,6 +175,18 @@ export default async function UsersPage() {
                     >
                       {user.role}
                     </span>
+                    {user.groups && user.groups.length > 0 ? (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {user.groups.map((group) => (
+                          <span
+                            key={`${user.id}-group-${group}`}
+                            className="inline-flex rounded-full border border-slate-200 bg-slate-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-600"
+                          >
+                            {group}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
                   </td>
                   <td className="px-6 py-4">
                     <div className="flex flex-col gap-2">
@@ -198,6 +233,41 @@ export default async function UsersPage() {
                       </span>
                     )}
                   </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    <DelegationControl
+                      userId={user.id}
+                      delegation={user.delegation}
+                      delegateName={
+                        user.delegation
+                          ? usersById[user.delegation.delegateId]?.name
+                          : undefined
+                      }
+                      status={user.delegationStatus}
+                      candidates={data.users
+                        .filter((candidate) => candidate.id !== user.id)
+                        .map(({ id, name }) => ({ id, name }))}
+                      today={today}
+                      canEdit={
+                        currentUser ? canManageUser(currentUser, user) : false
+                      }
+                    />
+                    {user.approvalsCovered.length > 0 ? (
+                      <div className="mt-2 text-xs text-slate-500">
+                        Covering {user.approvalsCovered.length} approval
+                        {user.approvalsCovered.length === 1 ? "" : "s"}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-slate-700">
+                    <NotificationPreferencesControl
+                      userId={user.id}
+                      preferences={getNotificationPreferences(user)}
+                      domains={domainOptions}
+                      canEdit={
+                        currentUser ? canManageUser(currentUser, user) : false
+                      }
+                    />
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -3,6 +3,8 @@
 import { useState } from "react";
 import type { ReactNode } from "react";
 import Link from "next/link";
+import { InboxMenu } from "@/components/inbox-menu";
+import { SessionMenu } from "@/components/session-menu";
 import {
   MobileNav,
   SidebarNav,
@@ -15,6 +17,11 @@ import {
 } from "@/components/page-header";
 
 const NAV_ITEMS: NavItem[] = [
+  {
+    href: "/dashboard/my-work",
+    label: "My work",
+    description: "Requests waiting on your decision.",
+  },
   {
     href: "/dashboard/approvals",
     label: "Approvals",
@@ -35,6 +42,11 @@ const NAV_ITEMS: NavItem[] = [
     label: "Users",
     description: "Assign roles and responsibilities.",
   },
+  {
+    href: "/dashboard/outbox",
+    label: "Outbox",
+    description: "Follow notification delivery.",
+  },
   {
     href: "/dashboard/logs",
     label: "Logs",
@@ -99,18 +111,9 @@ export default function DashboardLayout({
                   </div>
                   <PageHeaderActions className="flex flex-wrap items-center gap-3" />
                 </div>
-                <div className="flex items-center gap-4 rounded-full border border-slate-200 bg-white px-4 py-2 shadow-sm">
-                  <div className="flex flex-col text-right">
-                    <span className="text-sm font-semibold text-slate-900">
-                      Morgan Crisp
-                    </span>
-                    <span className="text-xs text-slate-500">
-                      Product Operations · Viewer
-                    </span>
-                  </div>
-                  <span className="flex h-9 w-9 items-center justify-center rounded-full bg-[#f97316] text-sm font-semibold text-white">
-                    MC
-                  </span>
+                <div className="flex items-center gap-3">
+                  <InboxMenu />
+                  <SessionMenu />
                 </div>
               </div>
               <MobileNav items={NAV_ITEMS} className="lg:hidden" />
@@ -0,0 +1,158 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import {
+  applyApprovalAction,
+  isApprovalAction,
+  type ApprovalActionResult,
+} from "@/lib/approvalRuntime";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+import {
+  dispatchMentionNotifications,
+  dispatchStageNotifications,
+} from "@/lib/notificationOutbox";
+import type { ApprovalAction } from "@/types";
+
+interface ApprovalActionRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ACTION_VERBS: Record<ApprovalAction, string> = {
+  approve: "approved",
+  reject: "rejected",
+  withdraw: "withdrawn",
+  comment: "commented on",
+};
+
+export async function POST(
+  request: Request,
+  { params }: ApprovalActionRouteContext,
+) {
+  const actor = await getSessionUser();
+  if (!actor) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  const { action, targetStageId, comment, replyToId, attachmentIds } =
+    body ?? {};
+
+  if (!isApprovalAction(action)) {
+    return NextResponse.json(
+      { error: "Action must be one of approve, reject, withdraw, comment" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const flowContext = approval.flowId
+    ? await repository.flows.find(approval.flowId)
+    : null;
+  if (!flowContext) {
+    return NextResponse.json(
+      { error: `Approval ${approval.id} is not bound to a known flow` },
+      { status: 409 },
+    );
+  }
+
+  const users = await repository.users.list();
+  // Re-read and apply inside one atomic update so a concurrent vote or click
+  // can't be lost or applied against a stale stage.
+  const mutation = await repository.approvals.update(id, (current) => {
+    const pinnedFlow = resolveFlowRevision(
+      flowContext.flow,
+      current.flowVersion,
+    );
+    const outcome: ApprovalActionResult = pinnedFlow
+      ? applyApprovalAction(current, pinnedFlow, {
+          action,
+          actorId: actor.id,
+          targetStageId:
+            typeof targetStageId === "string" ? targetStageId : undefined,
+          comment: typeof comment === "string" ? comment : undefined,
+          replyToId: typeof replyToId === "string" ? replyToId : undefined,
+          attachmentIds: Array.isArray(attachmentIds)
+            ? attachmentIds.filter(
+                (item): item is string => typeof item === "string",
+              )
+            : undefined,
+          users,
+        })
+      : {
+          ok: false,
+          issues: [
+            describeMissingRevision(flowContext.flow, current.flowVersion),
+          ],
+        };
+    return {
+      approval: outcome.ok ? outcome.approval : undefined,
+      result: { previous: current, outcome },
+    };
+  });
+  if (!mutation) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const { previous, outcome: result } = mutation.result;
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Action could not be applied", issues: result.issues },
+      { status: 409 },
+    );
+  }
+
+  const quorumNote =
+    result.quorum?.outcome === "pending"
+      ? ` (${result.quorum.approvals} of ${result.quorum.required} sign-offs, waiting on quorum)`
+      : "";
+
+  const entry = result.approval.history?.at(-1);
+  const onBehalfOfId = entry?.onBehalfOfId;
+  const principal = onBehalfOfId
+    ? await repository.users.get(onBehalfOfId)
+    : undefined;
+  const delegationNote = principal ? ` on behalf of ${principal.name}` : "";
+
+  await repository.logs.append(
+    createLogEntry(
+      action === "reject" ? "warning" : "info",
+      `Approval ${approval.id} ${ACTION_VERBS[action]} by ${actor.name}${delegationNote}${quorumNote}`,
+      {
+        approvalId: approval.id,
+        userId: actor.id,
+        action,
+        onBehalfOfId,
+        fromStageId: previous.currentStageId,
+        toStageId: result.approval.currentStageId,
+        mentionIds: entry?.mentionIds,
+      },
+    ),
+  );
+
+  await dispatchStageNotifications(
+    repository,
+    flowContext,
+    result.approval,
+    previous,
+  );
+  if (entry) {
+    await dispatchMentionNotifications(repository, result.approval, entry);
+  }
+
+  return NextResponse.json(result.approval);
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { createBlobStore } from "@/lib/blobStore";
+import {
+  canViewApprovalAttachments,
+  PERMISSION_ERRORS,
+} from "@/lib/permissions";
+
+interface AttachmentRouteContext {
+  params: Promise<{ id: string; attachmentId: string }>;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: AttachmentRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id, attachmentId } = await params;
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canViewApprovalAttachments(user, approval)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.viewAttachments },
+      { status: 403 },
+    );
+  }
+
+  const attachment = approval.attachments?.find(
+    (item) => item.id === attachmentId,
+  );
+  if (!attachment) {
+    return NextResponse.json(
+      { error: `Attachment "${attachmentId}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const content = await createBlobStore().get(attachment.blobKey);
+  if (!content) {
+    return NextResponse.json(
+      { error: `Content for attachment "${attachmentId}" is missing` },
+      { status: 410 },
+    );
+  }
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      "Content-Type": attachment.contentType,
+      "Content-Length": String(content.length),
+      "Content-Disposition": `attachment; filename="${attachment.fileName.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    },
+  });
+}
@@ -0,0 +1,174 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { createBlobStore } from "@/lib/blobStore";
+import {
+  createAttachment,
+  formatFileSize,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENT_REQUEST_BYTES,
+  validateAttachmentUpload,
+} from "@/lib/attachments";
+import { isApprovalClosed } from "@/lib/approvalRuntime";
+import { resolveFlowRevision } from "@/lib/flowVersioning";
+import {
+  canAttachToApproval,
+  canViewApprovalAttachments,
+  PERMISSION_ERRORS,
+} from "@/lib/permissions";
+import type { Approval } from "@/types";
+
+interface AttachmentsRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: AttachmentsRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canViewApprovalAttachments(user, approval)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.viewAttachments },
+      { status: 403 },
+    );
+  }
+  return NextResponse.json(approval.attachments ?? []);
+}
+
+/**
+ * Takes a multipart form with a `file`, attached by the signed-in user.
+ * Reference the returned id from an action's `attachmentIds`
+ * to show the file with a comment or decision. Only participants can
+ * attach, and only while the approval is open.
+ */
+export async function POST(request: Request, { params }: AttachmentsRouteContext) {
+  const uploader = await getSessionUser();
+  if (!uploader) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  // Refuse oversized bodies before buffering them.
+  const contentLength = Number(request.headers.get("content-length"));
+  if (!contentLength) {
+    return NextResponse.json(
+      { error: "Content-Length is required" },
+      { status: 411 },
+    );
+  }
+  if (contentLength > MAX_ATTACHMENT_REQUEST_BYTES) {
+    return NextResponse.json(
+      {
+        error: `Uploads are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)}`,
+      },
+      { status: 413 },
+    );
+  }
+
+  const { id } = await params;
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canAttachToApproval(uploader, approval)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.attachToApproval },
+      { status: 403 },
+    );
+  }
+
+  const flowContext = approval.flowId
+    ? await repository.flows.find(approval.flowId)
+    : null;
+  const isOpen = (current: Approval) => {
+    const flow = flowContext
+      ? resolveFlowRevision(flowContext.flow, current.flowVersion)
+      : undefined;
+    return Boolean(flow && !isApprovalClosed(current, flow));
+  };
+  if (!isOpen(approval)) {
+    return NextResponse.json(
+      { error: `Approval ${approval.id} is closed` },
+      { status: 409 },
+    );
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: "A multipart `file` field is required" },
+      { status: 400 },
+    );
+  }
+
+  const issues = validateAttachmentUpload(file);
+  if (issues.length > 0) {
+    return NextResponse.json(
+      { error: issues.join(" "), issues },
+      { status: 400 },
+    );
+  }
+
+  const attachment = createAttachment(approval, file, uploader.id);
+  const blobStore = createBlobStore();
+  await blobStore.put(
+    attachment.blobKey,
+    new Uint8Array(await file.arrayBuffer()),
+  );
+  // Append to the stored approval, not the copy read above, so a concurrent
+  // action or upload isn't overwritten.
+  const mutation = await repository.approvals.update(id, (current) =>
+    isOpen(current)
+      ? {
+          approval: {
+            ...current,
+            attachments: [...(current.attachments ?? []), attachment],
+          },
+          result: true,
+        }
+      : { result: false },
+  );
+  if (!mutation?.result) {
+    await blobStore.delete(attachment.blobKey);
+    return mutation
+      ? NextResponse.json(
+          { error: `Approval ${approval.id} is closed` },
+          { status: 409 },
+        )
+      : NextResponse.json(
+          { error: `Approval "${id}" not found` },
+          { status: 404 },
+        );
+  }
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `${uploader.name} attached ${attachment.fileName} (${formatFileSize(attachment.size)}) to approval ${approval.id}`,
+      {
+        approvalId: approval.id,
+        userId: uploader.id,
+        attachmentId: attachment.id,
+      },
+    ),
+  );
+
+  return NextResponse.json(attachment, { status: 201 });
+}
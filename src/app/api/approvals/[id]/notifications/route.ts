@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { buildApprovalNotifications } from "@/lib/approvalNotifications";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+
+interface ApprovalNotificationsRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(
+  _request: Request,
+  { params }: ApprovalNotificationsRouteContext,
+) {
+  const { id } = await params;
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const stored = approval.flowId
+    ? await repository.flows.find(approval.flowId)
+    : null;
+  if (!stored) {
+    return NextResponse.json(
+      { error: `Approval ${approval.id} is not bound to a known flow` },
+      { status: 409 },
+    );
+  }
+  const flow = resolveFlowRevision(stored.flow, approval.flowVersion);
+  if (!flow) {
+    return NextResponse.json(
+      { error: describeMissingRevision(stored.flow, approval.flowVersion) },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    approvalId: approval.id,
+    currentStageId: approval.currentStageId ?? null,
+    stages: buildApprovalNotifications(approval, {
+      flow,
+      domain: stored.domain,
+      subdomain: stored.subdomain,
+      users: await repository.users.list(),
+    }),
+  });
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canOperateNotifications, PERMISSION_ERRORS } from "@/lib/permissions";
+import {
+  buildApprovalNotifications,
+  buildTestMessage,
+} from "@/lib/approvalNotifications";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+import { createTestMailTransport } from "@/lib/mailTransport";
+
+interface NotificationTestRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Sends the rendered email for the current stage, or for `stageId` when it
+ * is one of the next stages, through the local test transport.
+ */
+export async function POST(
+  request: Request,
+  { params }: NotificationTestRouteContext,
+) {
+  const actor = await getSessionUser();
+  if (!actor) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canOperateNotifications(actor)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.operateNotifications },
+      { status: 403 },
+    );
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+
+  const repository = await getRepository();
+  const approval = await repository.approvals.get(id);
+  if (!approval) {
+    return NextResponse.json(
+      { error: `Approval "${id}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const stored = approval.flowId
+    ? await repository.flows.find(approval.flowId)
+    : null;
+  if (!stored) {
+    return NextResponse.json(
+      { error: `Approval ${approval.id} is not bound to a known flow` },
+      { status: 409 },
+    );
+  }
+  const flow = resolveFlowRevision(stored.flow, approval.flowVersion);
+  if (!flow) {
+    return NextResponse.json(
+      { error: describeMissingRevision(stored.flow, approval.flowVersion) },
+      { status: 409 },
+    );
+  }
+
+  const stageId =
+    typeof body?.stageId === "string" ? body.stageId : approval.currentStageId;
+  const preview = buildApprovalNotifications(approval, {
+    flow,
+    domain: stored.domain,
+    subdomain: stored.subdomain,
+    users: await repository.users.list(),
+  }).find((stage) => stage.stageId === stageId);
+  if (!preview) {
+    return NextResponse.json(
+      { error: `Stage "${stageId}" is neither the current nor a next stage of approval ${approval.id}` },
+      { status: 400 },
+    );
+  }
+
+  const message = buildTestMessage(approval, preview);
+  if (!message) {
+    return NextResponse.json(
+      { error: `Stage "${preview.stageName}" sends no email for approval ${approval.id}` },
+      { status: 409 },
+    );
+  }
+
+  const transport = createTestMailTransport();
+  try {
+    await transport.send(message);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Test notification for approval ${approval.id} (${preview.stageName}) sent to ${message.to.join(", ")} via ${transport.name} by ${actor.name}`,
+      {
+        messageId: message.id,
+        approvalId: approval.id,
+        stageId: preview.stageId,
+        actorId: actor.id,
+      },
+    ),
+  );
+
+  return NextResponse.json({
+    messageId: message.id,
+    transport: transport.name,
+    to: message.to,
+    cc: message.cc,
+    subject: message.subject,
+  });
+}
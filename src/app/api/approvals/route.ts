@@ -1,7 +1,114 @@
 import { NextResponse } from "next/server";
-import { readData } from "@/lib/dataStore";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { startApproval } from "@/lib/approvalRuntime";
+import { validatePayload } from "@/lib/payloadSchema";
+import { dispatchStageNotifications } from "@/lib/notificationOutbox";
+import { isSubdomainOpen } from "@/lib/domainStore";
 
 export async function GET() {
-  const { approvals } = await readData();
-  return NextResponse.json(approvals);
+  const repository = await getRepository();
+  return NextResponse.json(await repository.approvals.list());
+}
+
+/** Submits a request on behalf of the signed-in user. */
+export async function POST(request: Request) {
+  const requester = await getSessionUser();
+  if (!requester) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { title, domainId, subdomainId, flowId, payload } = body ?? {};
+
+  if (typeof title !== "string" || !title.trim()) {
+    return NextResponse.json(
+      { error: "Title is required" },
+      { status: 400 },
+    );
+  }
+
+  if (
+    payload !== undefined &&
+    (!payload || typeof payload !== "object" || Array.isArray(payload))
+  ) {
+    return NextResponse.json(
+      { error: "Payload must be an object of request fields" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const flowContext =
+    typeof flowId === "string" ? await repository.flows.find(flowId) : null;
+  if (!flowContext) {
+    return NextResponse.json(
+      { error: `Flow "${flowId}" not found` },
+      { status: 404 },
+    );
+  }
+
+  if (flowContext.flow.archivedAt) {
+    return NextResponse.json(
+      { error: `Flow "${flowContext.flow.name}" is archived` },
+      { status: 409 },
+    );
+  }
+
+  if (!isSubdomainOpen(flowContext.domain, flowContext.subdomain)) {
+    return NextResponse.json(
+      {
+        error: `Subdomain "${flowContext.subdomain.name}" is archived and takes no new requests`,
+      },
+      { status: 409 },
+    );
+  }
+
+  if (
+    (domainId && domainId !== flowContext.domain.id) ||
+    (subdomainId && subdomainId !== flowContext.subdomain.id)
+  ) {
+    return NextResponse.json(
+      { error: "Flow does not belong to the requested domain/subdomain" },
+      { status: 400 },
+    );
+  }
+
+  const validation = validatePayload(
+    flowContext.flow.definition.payloadSchema,
+    payload ?? {},
+  );
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: validation.issues.join(" "), issues: validation.issues },
+      { status: 400 },
+    );
+  }
+
+  const approval = startApproval(flowContext.flow, {
+    title: title.trim(),
+    domainId: flowContext.domain.id,
+    subdomainId: flowContext.subdomain.id,
+    requesterId: requester.id,
+    payload: validation.payload,
+    users: await repository.users.list(),
+  });
+
+  await repository.approvals.save(approval);
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Approval ${approval.id} submitted by ${requester.name}`,
+      {
+        approvalId: approval.id,
+        userId: requester.id,
+        flowId: flowContext.flow.id,
+        stageId: approval.currentStageId,
+      },
+    ),
+  );
+
+  await dispatchStageNotifications(repository, flowContext, approval);
+
+  return NextResponse.json(approval, { status: 201 });
 }
@@ -0,0 +1,93 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { findIdentityProvider } from "@/lib/identityProviders";
+import {
+  OIDC_STATE_COOKIE,
+  SESSION_COOKIE,
+  callbackUrl,
+  createSession,
+  getSessionSecret,
+  safeNextPath,
+  sessionCookieOptions,
+  signValue,
+  verifySignedValue,
+  type RedirectState,
+} from "@/lib/session";
+
+function failSignIn(requestUrl: URL, message: string) {
+  const loginUrl = new URL("/login", requestUrl);
+  loginUrl.searchParams.set("error", message);
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(OIDC_STATE_COOKIE);
+  return response;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> },
+) {
+  const { provider: providerId } = await params;
+  const requestUrl = new URL(request.url);
+  const provider = findIdentityProvider(providerId);
+  if (!provider || provider.kind !== "redirect") {
+    return failSignIn(requestUrl, `Identity provider "${providerId}" not found.`);
+  }
+
+  const providerError = requestUrl.searchParams.get("error");
+  if (providerError) {
+    return failSignIn(
+      requestUrl,
+      `${provider.label} declined the sign-in: ${providerError}.`,
+    );
+  }
+
+  const saved = verifySignedValue<RedirectState>(
+    request.cookies.get(OIDC_STATE_COOKIE)?.value,
+    getSessionSecret(),
+  );
+  const code = requestUrl.searchParams.get("code");
+  if (
+    !saved ||
+    saved.provider !== provider.id ||
+    saved.state !== requestUrl.searchParams.get("state") ||
+    new Date(saved.expiresAt).getTime() <= Date.now() ||
+    !code
+  ) {
+    return failSignIn(requestUrl, "The sign-in request expired. Try again.");
+  }
+
+  const repository = await getRepository();
+  const result = await provider.completeSignIn(repository, {
+    code,
+    redirectUri: callbackUrl(requestUrl, provider.id),
+    nonce: saved.nonce,
+  });
+  if (!result.ok) {
+    await repository.logs.append(
+      createLogEntry("warning", `Failed sign-in with ${provider.label}`, {
+        provider: provider.id,
+        issues: result.issues,
+      }),
+    );
+    return failSignIn(requestUrl, result.issues.join(" "));
+  }
+
+  const session = createSession(result.user, provider.id);
+  await repository.logs.append(
+    createLogEntry("info", `${result.user.name} signed in with ${provider.label}`, {
+      userId: result.user.id,
+      provider: provider.id,
+    }),
+  );
+
+  const response = NextResponse.redirect(
+    new URL(safeNextPath(saved.next), requestUrl),
+  );
+  response.cookies.delete(OIDC_STATE_COOKIE);
+  response.cookies.set(
+    SESSION_COOKIE,
+    signValue(session, getSessionSecret()),
+    sessionCookieOptions(session.expiresAt),
+  );
+  return response;
+}
@@ -0,0 +1,62 @@
+import { randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { findIdentityProvider } from "@/lib/identityProviders";
+import {
+  OIDC_STATE_COOKIE,
+  callbackUrl,
+  getSessionSecret,
+  safeNextPath,
+  signValue,
+  type RedirectState,
+} from "@/lib/session";
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ provider: string }> },
+) {
+  const { provider: providerId } = await params;
+  const provider = findIdentityProvider(providerId);
+  if (!provider || provider.kind !== "redirect") {
+    return NextResponse.json(
+      { error: `Identity provider "${providerId}" not found` },
+      { status: 404 },
+    );
+  }
+
+  const requestUrl = new URL(request.url);
+  const state: RedirectState = {
+    provider: provider.id,
+    state: randomBytes(16).toString("base64url"),
+    nonce: randomBytes(16).toString("base64url"),
+    next: safeNextPath(requestUrl.searchParams.get("next")),
+    expiresAt: new Date(Date.now() + STATE_TTL_MS).toISOString(),
+  };
+
+  let location: string;
+  try {
+    location = await provider.authorizationUrl({
+      redirectUri: callbackUrl(requestUrl, provider.id),
+      state: state.state,
+      nonce: state.nonce,
+    });
+  } catch (error) {
+    const loginUrl = new URL("/login", requestUrl);
+    loginUrl.searchParams.set(
+      "error",
+      `${provider.label} is unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const response = NextResponse.redirect(location);
+  response.cookies.set(OIDC_STATE_COOKIE, signValue(state, getSessionSecret()), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(state.expiresAt),
+  });
+  return response;
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { findIdentityProvider } from "@/lib/identityProviders";
+import {
+  SESSION_COOKIE,
+  createSession,
+  getSessionSecret,
+  sessionCookieOptions,
+  signValue,
+} from "@/lib/session";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { provider: providerId = "local", username, password } = body ?? {};
+
+  const provider =
+    typeof providerId === "string" ? findIdentityProvider(providerId) : undefined;
+  if (!provider || provider.kind !== "password") {
+    return NextResponse.json(
+      { error: `Provider "${providerId}" does not accept passwords` },
+      { status: 400 },
+    );
+  }
+  if (typeof username !== "string" || typeof password !== "string") {
+    return NextResponse.json(
+      { error: "Username and password are required" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const result = await provider.signIn(repository, username, password);
+  if (!result.ok) {
+    await repository.logs.append(
+      createLogEntry("warning", `Failed sign-in for "${username}"`, {
+        provider: provider.id,
+      }),
+    );
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: 401 },
+    );
+  }
+
+  const session = createSession(result.user, provider.id);
+  await repository.logs.append(
+    createLogEntry("info", `${result.user.name} signed in with ${provider.label}`, {
+      userId: result.user.id,
+      provider: provider.id,
+    }),
+  );
+
+  const response = NextResponse.json({
+    user: result.user,
+    provider: provider.id,
+    expiresAt: session.expiresAt,
+  });
+  response.cookies.set(
+    SESSION_COOKIE,
+    signValue(session, getSessionSecret()),
+    sessionCookieOptions(session.expiresAt),
+  );
+  return response;
+}
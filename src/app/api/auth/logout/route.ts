@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/session";
+
+export async function POST() {
+  const user = await getSessionUser();
+  if (user) {
+    const repository = await getRepository();
+    // Sign-out ends every session, not just this browser's cookie.
+    await repository.users.revokeSessions(user.id);
+    await repository.logs.append(
+      createLogEntry("info", `${user.name} signed out`, { userId: user.id }),
+    );
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSession, getSessionUser } from "@/lib/auth";
+import {
+  MIN_PASSWORD_LENGTH,
+  createLocalCredential,
+  verifyPassword,
+} from "@/lib/localIdentity";
+import {
+  SESSION_COOKIE,
+  createSession,
+  getSessionSecret,
+  sessionCookieOptions,
+  signValue,
+} from "@/lib/session";
+
+/**
+ * Changes the signed-in user's local password. Users without a local
+ * credential yet pick a username on the first call. Every other session is
+ * signed out; this one gets a fresh cookie.
+ */
+export async function PUT(request: Request) {
+  const session = await getSession();
+  const user = await getSessionUser();
+  if (!session || !user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { username, currentPassword, newPassword } = body ?? {};
+  if (typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const existing = await repository.credentials.findByUser(user.id);
+
+  if (existing) {
+    if (
+      typeof currentPassword !== "string" ||
+      !(await verifyPassword(currentPassword, existing.passwordHash))
+    ) {
+      return NextResponse.json(
+        { error: "Current password is wrong" },
+        { status: 403 },
+      );
+    }
+  } else {
+    if (typeof username !== "string" || !/^[\w.@-]{3,}$/.test(username.trim())) {
+      return NextResponse.json(
+        { error: "Choose a username of at least 3 letters, digits or . @ _ -" },
+        { status: 400 },
+      );
+    }
+    const taken = await repository.credentials.find(username.trim());
+    if (taken) {
+      return NextResponse.json(
+        { error: `Username "${username.trim().toLowerCase()}" is taken` },
+        { status: 409 },
+      );
+    }
+  }
+
+  await repository.credentials.save(
+    await createLocalCredential(
+      user.id,
+      existing?.username ?? (username as string),
+      newPassword,
+    ),
+  );
+  const sessionVersion = await repository.users.revokeSessions(user.id);
+  await repository.logs.append(
+    createLogEntry("info", `${user.name} changed their password`, {
+      userId: user.id,
+    }),
+  );
+
+  const renewed = createSession(
+    { id: user.id, sessionVersion },
+    session.provider,
+  );
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(
+    SESSION_COOKIE,
+    signValue(renewed, getSessionSecret()),
+    sessionCookieOptions(renewed.expiresAt),
+  );
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getSession, getSessionUser } from "@/lib/auth";
+
+export async function GET() {
+  const session = await getSession();
+  const user = session ? await getSessionUser() : null;
+  if (!session || !user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  return NextResponse.json({
+    user,
+    provider: session.provider,
+    expiresAt: session.expiresAt,
+  });
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import {
+  canEditDomain,
+  canManageDomains,
+  PERMISSION_ERRORS,
+} from "@/lib/permissions";
+import {
+  parseDomainInput,
+  removeDomain,
+  updateDomain,
+} from "@/lib/domainStore";
+
+interface DomainRouteContext {
+  params: Promise<{ domainId: string }>;
+}
+
+export async function PUT(request: Request, { params }: DomainRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { domainId } = await params;
+  const repository = await getRepository();
+  const domain = await repository.domains.get(domainId);
+  if (!domain) {
+    return NextResponse.json({ error: "Domain not found" }, { status: 404 });
+  }
+  if (!canEditDomain(user, domain)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.editDomain },
+      { status: 403 },
+    );
+  }
+
+  const parsed = parseDomainInput(
+    await request.json().catch(() => null),
+    await repository.users.list(),
+    "domain",
+  );
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateDomain(repository, domain, parsed.input);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Domain "${result.domain.name}" updated by ${user.name}`,
+      { userId: user.id, domainId, ownerIds: result.domain.ownerIds },
+    ),
+  );
+
+  return NextResponse.json(result.domain);
+}
+
+export async function DELETE(request: Request, { params }: DomainRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageDomains(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageDomains },
+      { status: 403 },
+    );
+  }
+
+  const { domainId } = await params;
+  const { searchParams } = new URL(request.url);
+  const archive = searchParams.get("mode") === "archive";
+
+  const repository = await getRepository();
+  const domain = await repository.domains.get(domainId);
+  if (!domain) {
+    return NextResponse.json({ error: "Domain not found" }, { status: 404 });
+  }
+
+  const result = await removeDomain(repository, domain, { archive });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  await repository.logs.append(
+    createLogEntry(
+      "warning",
+      archive
+        ? `Domain "${domain.name}" archived by ${user.name}`
+        : `Domain "${domain.name}" deleted by ${user.name}`,
+      { userId: user.id, domainId },
+    ),
+  );
+
+  return NextResponse.json({ ...result.domain, archived: archive });
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import {
+  canEditDomain,
+  canEditSubdomain,
+  PERMISSION_ERRORS,
+} from "@/lib/permissions";
+import {
+  parseDomainInput,
+  removeSubdomain,
+  updateSubdomain,
+} from "@/lib/domainStore";
+
+interface SubdomainRouteContext {
+  params: Promise<{ domainId: string; subdomainId: string }>;
+}
+
+async function findSubdomain(domainId: string, subdomainId: string) {
+  const repository = await getRepository();
+  const domain = await repository.domains.get(domainId);
+  const subdomain = domain?.subdomains.find((item) => item.id === subdomainId);
+  return { repository, domain, subdomain };
+}
+
+export async function PUT(request: Request, { params }: SubdomainRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { domainId, subdomainId } = await params;
+  const { repository, domain, subdomain } = await findSubdomain(
+    domainId,
+    subdomainId,
+  );
+  if (!domain || !subdomain) {
+    return NextResponse.json({ error: "Subdomain not found" }, { status: 404 });
+  }
+  if (!canEditSubdomain(user, domain, subdomain)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.editSubdomain },
+      { status: 403 },
+    );
+  }
+
+  const parsed = parseDomainInput(
+    await request.json().catch(() => null),
+    await repository.users.list(),
+    "subdomain",
+  );
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const result = await updateSubdomain(
+    repository,
+    domain,
+    subdomainId,
+    parsed.input,
+  );
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Subdomain "${parsed.input.name}" updated by ${user.name}`,
+      {
+        userId: user.id,
+        domainId,
+        subdomainId,
+        ownerIds: parsed.input.ownerIds,
+      },
+    ),
+  );
+
+  return NextResponse.json(result.subdomain);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: SubdomainRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { domainId, subdomainId } = await params;
+  const { repository, domain, subdomain } = await findSubdomain(
+    domainId,
+    subdomainId,
+  );
+  if (!domain || !subdomain) {
+    return NextResponse.json({ error: "Subdomain not found" }, { status: 404 });
+  }
+  // Subdomain owners may edit but not remove; that stays with the domain.
+  if (!canEditDomain(user, domain)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.editDomain },
+      { status: 403 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const archive = searchParams.get("mode") === "archive";
+  const result = await removeSubdomain(repository, domain, subdomainId, {
+    archive,
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  await repository.logs.append(
+    createLogEntry(
+      "warning",
+      archive
+        ? `Subdomain "${subdomain.name}" archived by ${user.name}`
+        : `Subdomain "${subdomain.name}" deleted by ${user.name}`,
+      { userId: user.id, domainId, subdomainId },
+    ),
+  );
+
+  return NextResponse.json({ ...result.subdomain, archived: archive });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canEditDomain, PERMISSION_ERRORS } from "@/lib/permissions";
+import { createSubdomain, parseDomainInput } from "@/lib/domainStore";
+
+interface SubdomainsRouteContext {
+  params: Promise<{ domainId: string }>;
+}
+
+export async function POST(
+  request: Request,
+  { params }: SubdomainsRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { domainId } = await params;
+  const repository = await getRepository();
+  const domain = await repository.domains.get(domainId);
+  if (!domain) {
+    return NextResponse.json({ error: "Domain not found" }, { status: 404 });
+  }
+  if (!canEditDomain(user, domain)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.editDomain },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parseDomainInput(
+    body,
+    await repository.users.list(),
+    "subdomain",
+  );
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const result = await createSubdomain(
+    repository,
+    domain,
+    body?.id,
+    parsed.input,
+  );
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Subdomain "${parsed.input.name}" added to "${domain.name}" by ${user.name}`,
+      { userId: user.id, domainId, subdomainId: body.id },
+    ),
+  );
+
+  return NextResponse.json(result.subdomain, { status: 201 });
+}
@@ -1,7 +1,55 @@
 import { NextResponse } from "next/server";
-import { readData } from "@/lib/dataStore";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageDomains, PERMISSION_ERRORS } from "@/lib/permissions";
+import { createDomain, parseDomainInput } from "@/lib/domainStore";
 
 export async function GET() {
-  const { domains } = await readData();
-  return NextResponse.json(domains);
+  const repository = await getRepository();
+  return NextResponse.json(await repository.domains.list());
+}
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageDomains(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageDomains },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const repository = await getRepository();
+  const parsed = parseDomainInput(
+    body,
+    await repository.users.list(),
+    "domain",
+  );
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const result = await createDomain(repository, body?.id, parsed.input);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  const { domain } = result;
+  await repository.logs.append(
+    createLogEntry("info", `Domain "${domain.name}" created by ${user.name}`, {
+      userId: user.id,
+      domainId: domain.id,
+    }),
+  );
+
+  return NextResponse.json(domain, { status: 201 });
 }
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+
+interface InboxReadRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  _request: Request,
+  { params }: InboxReadRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const repository = await getRepository();
+  const notification = await repository.inbox.get(id);
+  // Other users' notifications are reported as missing rather than forbidden.
+  if (!notification || notification.userId !== user.id) {
+    return NextResponse.json(
+      { error: `Notification "${id}" not found` },
+      { status: 404 },
+    );
+  }
+
+  if (notification.readAt) {
+    return NextResponse.json(notification);
+  }
+  const read = { ...notification, readAt: new Date().toISOString() };
+  await repository.inbox.save(read);
+  return NextResponse.json(read);
+}
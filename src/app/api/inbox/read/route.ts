@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+
+/** Marks every unread notification of the signed-in user as read. */
+export async function POST() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const repository = await getRepository();
+  const unread = await repository.inbox.list({
+    userId: user.id,
+    unread: true,
+  });
+  const readAt = new Date().toISOString();
+  for (const notification of unread) {
+    await repository.inbox.save({ ...notification, readAt });
+  }
+  return NextResponse.json({ updated: unread.length });
+}
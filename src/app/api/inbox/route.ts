@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+
+/** The signed-in user's in-app notifications, newest first. */
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const repository = await getRepository();
+  const notifications = (await repository.inbox.list({ userId: user.id })).sort(
+    (left, right) => right.createdAt.localeCompare(left.createdAt),
+  );
+  return NextResponse.json({
+    unread: notifications.filter((notification) => !notification.readAt)
+      .length,
+    notifications,
+  });
+}
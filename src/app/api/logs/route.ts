@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
-import { readData } from "@/lib/dataStore";
+import { getRepository } from "@/lib/dataStore";
 
 export async function GET() {
-  const { logs } = await readData();
-  return NextResponse.json(logs);
+  const repository = await getRepository();
+  return NextResponse.json(await repository.logs.list());
 }
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canOperateNotifications, PERMISSION_ERRORS } from "@/lib/permissions";
+import { requeueOutboxMessage } from "@/lib/notificationOutbox";
+
+interface OutboxRetryRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  _request: Request,
+  { params }: OutboxRetryRouteContext,
+) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canOperateNotifications(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.operateNotifications },
+      { status: 403 },
+    );
+  }
+
+  const { id } = await params;
+  const repository = await getRepository();
+  const message = await repository.outbox.get(id);
+  if (!message) {
+    return NextResponse.json(
+      { error: `Notification "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (message.status !== "failed") {
+    return NextResponse.json(
+      { error: `Notification "${id}" is ${message.status}, only failed notifications can be retried` },
+      { status: 409 },
+    );
+  }
+
+  const requeued = requeueOutboxMessage(message);
+  await repository.outbox.save(requeued);
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Notification for approval ${message.approvalId} queued for another delivery attempt by ${user.name}`,
+      { messageId: message.id, approvalId: message.approvalId, userId: user.id },
+    ),
+  );
+
+  return NextResponse.json(requeued);
+}
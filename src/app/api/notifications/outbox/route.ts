@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import type { OutboxMessageStatus } from "@/types";
+
+const OUTBOX_STATUSES: OutboxMessageStatus[] = [
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+  "held",
+  "batched",
+];
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const approvalId = searchParams.get("approvalId") ?? undefined;
+  const status = searchParams.get("status");
+
+  if (status && !OUTBOX_STATUSES.includes(status as OutboxMessageStatus)) {
+    return NextResponse.json(
+      { error: `Status must be one of ${OUTBOX_STATUSES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  return NextResponse.json(
+    await repository.outbox.list({
+      approvalId,
+      status: (status as OutboxMessageStatus | null) ?? undefined,
+    }),
+  );
+}
@@ -1,11 +1,15 @@
 import { NextResponse } from "next/server";
-import { readData } from "@/lib/dataStore";
+import { getRepository } from "@/lib/dataStore";
 import { buildStageNotification } from "@/lib/notificationEngine";
 
 export async function GET() {
-  const data = await readData();
+  const repository = await getRepository();
+  const [domains, users] = await Promise.all([
+    repository.domains.list(),
+    repository.users.list(),
+  ]);
 
-  const notifications = data.domains.flatMap((domain) =>
+  const notifications = domains.flatMap((domain) =>
     domain.subdomains.flatMap((subdomain) =>
       subdomain.flows.flatMap((flow) =>
         flow.definition.stages.map((stage) => {
@@ -13,7 +17,7 @@ export async function GET() {
             flow,
             domain,
             subdomain,
-            users: data.users,
+            users,
           });
           if (!preview) {
             return null;
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+
+/**
+ * Local webhook receiver for trying out the webhook channel. Each payload is
+ * recorded in the activity log; `?status=503` answers with that status so
+ * retries can be exercised. Not served in production builds.
+ */
+export async function POST(request: Request) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const status = Number(searchParams.get("status") ?? 200);
+  const payload = await request.json().catch(() => null);
+  if (!payload || typeof payload !== "object") {
+    return NextResponse.json(
+      { error: "Webhook body must be a JSON object" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Webhook stub received "${typeof payload.text === "string" ? payload.text : "(no text)"}"`,
+      {
+        messageId: request.headers.get("x-approval-message-id"),
+        approvalId: payload.approvalId,
+        stageId: payload.stageId,
+        recipients: payload.recipients,
+      },
+    ),
+  );
+
+  if (Number.isInteger(status) && status >= 400 && status < 600) {
+    return NextResponse.json({ error: "Simulated failure" }, { status });
+  }
+  return NextResponse.json({ received: true });
+}
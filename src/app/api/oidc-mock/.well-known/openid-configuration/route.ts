@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import {
+  isMockIdpEnabled,
+  mockDiscoveryDocument,
+  mockIssuer,
+} from "@/lib/mockIdentityProvider";
+
+export async function GET(request: Request) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(mockDiscoveryDocument(mockIssuer(request)));
+}
@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { getRepository } from "@/lib/dataStore";
+import { isMockIdpEnabled, issueMockCode } from "@/lib/mockIdentityProvider";
+
+const AUTHORIZE_PARAMS = [
+  "client_id",
+  "redirect_uri",
+  "state",
+  "nonce",
+] as const;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Renders an account picker listing every directory user. */
+export async function GET(request: Request) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  if (
+    searchParams.get("response_type") !== "code" ||
+    !searchParams.get("client_id") ||
+    !searchParams.get("redirect_uri")
+  ) {
+    return NextResponse.json(
+      { error: "response_type=code, client_id and redirect_uri are required" },
+      { status: 400 },
+    );
+  }
+
+  const users = await (await getRepository()).users.list();
+  const accounts = [
+    ...users.map((user) => ({ email: user.email, name: user.name })),
+    { email: "visitor@unknown.example", name: "Unregistered visitor" },
+  ];
+  const hidden = AUTHORIZE_PARAMS.map(
+    (name) =>
+      `<input type="hidden" name="${name}" value="${escapeHtml(searchParams.get(name) ?? "")}">`,
+  ).join("");
+  const buttons = accounts
+    .map(
+      (account) =>
+        `<button name="account" value="${escapeHtml(`${account.email}|${account.name}`)}">` +
+        `<strong>${escapeHtml(account.name)}</strong><span>${escapeHtml(account.email)}</span></button>`,
+    )
+    .join("");
+
+  const html = `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><title>Mock identity provider</title>
+<style>
+body{font-family:system-ui,sans-serif;background:#f1f5f9;color:#0f172a;display:flex;justify-content:center;padding:48px}
+form{background:#fff;border:1px solid #e2e8f0;padding:24px;width:360px}
+h1{font-size:16px;margin:0 0 4px}p{font-size:13px;color:#64748b;margin:0 0 16px}
+button{display:flex;flex-direction:column;align-items:flex-start;width:100%;padding:10px 12px;margin-bottom:8px;border:1px solid #e2e8f0;background:#fff;cursor:pointer;text-align:left}
+button:hover{border-color:#6366f1}span{font-size:12px;color:#64748b}
+</style></head>
+<body><form method="post">${hidden}
+<h1>Mock identity provider</h1><p>Pick the account to sign in as.</p>${buttons}
+<button name="account" value="" formnovalidate><strong>Cancel</strong><span>Return with access_denied</span></button>
+</form></body></html>`;
+  return new NextResponse(html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+/** Issues a code for the picked account and sends the browser back. */
+export async function POST(request: Request) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const field = (name: string) => {
+    const value = form?.get(name);
+    return typeof value === "string" ? value : "";
+  };
+  const redirectUri = field("redirect_uri");
+  let target: URL;
+  try {
+    target = new URL(redirectUri);
+  } catch {
+    return NextResponse.json(
+      { error: "redirect_uri must be an absolute URL" },
+      { status: 400 },
+    );
+  }
+
+  const [email, name] = field("account").split("|");
+  if (email) {
+    target.searchParams.set(
+      "code",
+      issueMockCode({
+        clientId: field("client_id"),
+        redirectUri,
+        nonce: field("nonce") || undefined,
+        email,
+        name: name ?? email,
+      }),
+    );
+  } else {
+    target.searchParams.set("error", "access_denied");
+  }
+  target.searchParams.set("state", field("state"));
+  return NextResponse.redirect(target, 303);
+}
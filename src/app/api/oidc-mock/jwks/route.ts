@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { isMockIdpEnabled, mockJwks } from "@/lib/mockIdentityProvider";
+
+export async function GET() {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return NextResponse.json(mockJwks());
+}
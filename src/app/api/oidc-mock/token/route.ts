@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import {
+  isMockIdpEnabled,
+  mockIssuer,
+  redeemMockCode,
+} from "@/lib/mockIdentityProvider";
+
+export async function POST(request: Request) {
+  if (!isMockIdpEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const field = (name: string) => {
+    const value = form?.get(name);
+    return typeof value === "string" ? value : "";
+  };
+  if (field("grant_type") !== "authorization_code") {
+    return NextResponse.json(
+      { error: "unsupported_grant_type" },
+      { status: 400 },
+    );
+  }
+  if (!field("client_secret")) {
+    return NextResponse.json({ error: "invalid_client" }, { status: 401 });
+  }
+
+  const result = redeemMockCode(mockIssuer(request), {
+    code: field("code"),
+    clientId: field("client_id"),
+    redirectUri: field("redirect_uri"),
+  });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+  return NextResponse.json({
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: result.idToken,
+  });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageRules, PERMISSION_ERRORS } from "@/lib/permissions";
+import {
+  parseExpectedRevision,
+  publishFlow,
+  toFlowCatalogEntry,
+} from "@/lib/flowStore";
+import { isVersionBump } from "@/lib/flowVersioning";
+
+interface PublishRouteContext {
+  params: Promise<{ flowId: string }>;
+}
+
+export async function POST(request: Request, { params }: PublishRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageRules(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageRules },
+      { status: 403 },
+    );
+  }
+
+  const { flowId } = await params;
+  const body = await request.json().catch(() => null);
+  const { bump, revision } = body ?? {};
+
+  if (!isVersionBump(bump)) {
+    return NextResponse.json(
+      { error: "Bump must be one of major, minor, patch" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const result = await publishFlow(repository, flowId, bump, {
+    expectedRevision: parseExpectedRevision(revision),
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  const { flow, domain, subdomain } = result.context;
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `Flow "${flow.name}" published as ${flow.version} by ${user.name}`,
+      {
+        userId: user.id,
+        flowId: flow.id,
+        domainId: domain.id,
+        subdomainId: subdomain.id,
+        version: flow.version,
+        previousVersion: flow.revisions?.[0]?.version,
+      },
+    ),
+  );
+
+  return NextResponse.json(toFlowCatalogEntry(result.context));
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageRules, PERMISSION_ERRORS } from "@/lib/permissions";
+import {
+  parseExpectedRevision,
+  parseFlowInput,
+  removeFlow,
+  toFlowCatalogEntry,
+  updateFlow,
+} from "@/lib/flowStore";
+
+interface FlowRouteContext {
+  params: Promise<{ flowId: string }>;
+}
+
+export async function PUT(request: Request, { params }: FlowRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageRules(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageRules },
+      { status: 403 },
+    );
+  }
+
+  const { flowId } = await params;
+  const body = await request.json().catch(() => null);
+  const parsed = parseFlowInput(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const result = await updateFlow(repository, flowId, parsed.input, {
+    expectedRevision: parseExpectedRevision(body?.revision),
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  const { flow, domain, subdomain } = result.context;
+  await repository.logs.append(
+    createLogEntry("info", `Flow "${flow.name}" draft saved by ${user.name}`, {
+      userId: user.id,
+      flowId: flow.id,
+      domainId: domain.id,
+      subdomainId: subdomain.id,
+      baseVersion: flow.version,
+    }),
+  );
+
+  return NextResponse.json(toFlowCatalogEntry(result.context));
+}
+
+export async function DELETE(request: Request, { params }: FlowRouteContext) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageRules(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageRules },
+      { status: 403 },
+    );
+  }
+
+  const { flowId } = await params;
+  const { searchParams } = new URL(request.url);
+  const archive = searchParams.get("mode") === "archive";
+  const expectedRevision = parseExpectedRevision(searchParams.get("revision"));
+
+  const repository = await getRepository();
+  const result = await removeFlow(repository, flowId, {
+    archive,
+    expectedRevision,
+  });
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  const { flow, domain, subdomain } = result.context;
+  await repository.logs.append(
+    createLogEntry(
+      "warning",
+      archive
+        ? `Flow "${flow.name}" archived by ${user.name}`
+        : `Flow "${flow.name}" deleted by ${user.name}`,
+      {
+        userId: user.id,
+        flowId: flow.id,
+        domainId: domain.id,
+        subdomainId: subdomain.id,
+        version: flow.version,
+      },
+    ),
+  );
+
+  return NextResponse.json({
+    ...toFlowCatalogEntry(result.context),
+    archived: archive,
+  });
+}
@@ -5,7 +5,7 @@ import {
 } from "@/lib/ruleEngine";
 
 export async function POST(request: Request) {
-  const body = await request.json();
+  const body = await request.json().catch(() => null);
   const { definition, path } = body ?? {};
 
   if (!validateFlowDefinition(definition)) {
@@ -1,20 +1,70 @@
 import { NextResponse } from "next/server";
-import { readData } from "@/lib/dataStore";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canManageRules, PERMISSION_ERRORS } from "@/lib/permissions";
+import {
+  insertFlow,
+  parseFlowInput,
+  toFlowCatalogEntry,
+} from "@/lib/flowStore";
 
 export async function GET() {
-  const { domains } = await readData();
+  const repository = await getRepository();
+  const domains = await repository.domains.list();
 
   const flows = domains.flatMap((domain) =>
     domain.subdomains.flatMap((subdomain) =>
-      subdomain.flows.map((flow) => ({
-        domainId: domain.id,
-        domainName: domain.name,
-        subdomainId: subdomain.id,
-        subdomainName: subdomain.name,
-        flow,
-      })),
+      subdomain.flows.map((flow) =>
+        toFlowCatalogEntry({ domain, subdomain, flow }),
+      ),
     ),
   );
 
   return NextResponse.json(flows);
 }
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canManageRules(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageRules },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = parseFlowInput(body);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: parsed.issues.join(" "), issues: parsed.issues },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  const result = await insertFlow(repository, parsed.input);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.issues.join(" "), issues: result.issues },
+      { status: result.status },
+    );
+  }
+
+  const { flow, domain, subdomain } = result.context;
+  await repository.logs.append(
+    createLogEntry("info", `Flow "${flow.name}" created by ${user.name}`, {
+      userId: user.id,
+      flowId: flow.id,
+      domainId: domain.id,
+      subdomainId: subdomain.id,
+      version: flow.version,
+    }),
+  );
+
+  return NextResponse.json(toFlowCatalogEntry(result.context), {
+    status: 201,
+  });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { getSessionUser } from "@/lib/auth";
+import { canOperateNotifications, PERMISSION_ERRORS } from "@/lib/permissions";
+import { runSlaSweep } from "@/lib/slaScheduler";
+
+export async function POST(request: Request) {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  if (!canOperateNotifications(user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.operateNotifications },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  // Replaying time moves deadlines for everyone, so only dev and test builds allow it.
+  if (body?.now !== undefined && process.env.NODE_ENV === "production") {
+    return NextResponse.json(
+      { error: "`now` can only be set outside production" },
+      { status: 400 },
+    );
+  }
+  const now =
+    typeof body?.now === "string" ? new Date(body.now) : new Date();
+
+  if (Number.isNaN(now.getTime())) {
+    return NextResponse.json(
+      { error: "`now` must be an ISO timestamp" },
+      { status: 400 },
+    );
+  }
+
+  const repository = await getRepository();
+  await repository.logs.append(
+    createLogEntry("info", `SLA sweep run triggered by ${user.name}`, {
+      userId: user.id,
+      now: now.toISOString(),
+    }),
+  );
+  const result = await runSlaSweep(repository, now);
+  return NextResponse.json(result);
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { byline, getSessionUser } from "@/lib/auth";
+import { canManageUser, PERMISSION_ERRORS } from "@/lib/permissions";
+import { validateDelegation } from "@/lib/delegation";
+
+interface DelegationRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: DelegationRouteContext) {
+  const actor = await getSessionUser();
+  if (!actor) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+
+  const repository = await getRepository();
+  const users = await repository.users.list();
+  const user = users.find((item) => item.id === id);
+  if (!user) {
+    return NextResponse.json(
+      { error: `User "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canManageUser(actor, user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageUser },
+      { status: 403 },
+    );
+  }
+
+  const validation = validateDelegation(user, body, users);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: validation.issues.join(" "), issues: validation.issues },
+      { status: 400 },
+    );
+  }
+
+  const { delegation } = validation;
+  const delegate = users.find((item) => item.id === delegation.delegateId);
+  const updated = { ...user, delegation };
+  await repository.users.save(updated);
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `${user.name} delegated approvals to ${delegate?.name ?? delegation.delegateId} from ${delegation.startsOn} to ${delegation.endsOn}${byline(actor, user)}`,
+      { userId: user.id, actorId: actor.id, ...delegation },
+    ),
+  );
+
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: DelegationRouteContext,
+) {
+  const actor = await getSessionUser();
+  if (!actor) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const repository = await getRepository();
+  const user = await repository.users.get(id);
+  if (!user) {
+    return NextResponse.json(
+      { error: `User "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canManageUser(actor, user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageUser },
+      { status: 403 },
+    );
+  }
+  if (!user.delegation) {
+    return NextResponse.json(
+      { error: `${user.name} has no delegation to revoke` },
+      { status: 409 },
+    );
+  }
+
+  const { delegation, ...rest } = user;
+  await repository.users.save(rest);
+  await repository.logs.append(
+    createLogEntry("info", `${user.name} revoked their delegation${byline(actor, user)}`, {
+      userId: user.id,
+      actorId: actor.id,
+      delegateId: delegation.delegateId,
+    }),
+  );
+
+  return NextResponse.json(rest);
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { createLogEntry, getRepository } from "@/lib/dataStore";
+import { byline, getSessionUser } from "@/lib/auth";
+import { canManageUser, PERMISSION_ERRORS } from "@/lib/permissions";
+import {
+  describeNotificationPreferences,
+  validateNotificationPreferences,
+} from "@/lib/notificationPreferences";
+
+interface PreferencesRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: PreferencesRouteContext) {
+  const actor = await getSessionUser();
+  if (!actor) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+
+  const repository = await getRepository();
+  const user = await repository.users.get(id);
+  if (!user) {
+    return NextResponse.json(
+      { error: `User "${id}" not found` },
+      { status: 404 },
+    );
+  }
+  if (!canManageUser(actor, user)) {
+    return NextResponse.json(
+      { error: PERMISSION_ERRORS.manageUser },
+      { status: 403 },
+    );
+  }
+
+  const validation = validateNotificationPreferences(
+    body,
+    await repository.domains.list(),
+  );
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: validation.issues.join(" "), issues: validation.issues },
+      { status: 400 },
+    );
+  }
+
+  const updated = { ...user, notificationPreferences: validation.preferences };
+  await repository.users.save(updated);
+  await repository.logs.append(
+    createLogEntry(
+      "info",
+      `${user.name} set notification preferences to ${describeNotificationPreferences(validation.preferences)}${byline(actor, user)}`,
+      { userId: user.id, actorId: actor.id, ...validation.preferences },
+    ),
+  );
+
+  return NextResponse.json(updated);
+}
@@ -0,0 +1,42 @@
+import { redirect } from "next/navigation";
+import { getSessionUser } from "@/lib/auth";
+import { getIdentityProviders } from "@/lib/identityProviders";
+import { safeNextPath } from "@/lib/session";
+import { LoginForm } from "@/components/login-form";
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+  const nextPath = safeNextPath(next);
+  if (await getSessionUser()) {
+    redirect(nextPath);
+  }
+
+  const providers = getIdentityProviders().map((provider) => ({
+    id: provider.id,
+    kind: provider.kind,
+    label: provider.label,
+  }));
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-[#f4f7fb] via-white to-[#ecf2ff] px-4">
+      <div className="w-full max-w-sm border border-slate-200 bg-white shadow-sm">
+        <header className="flex items-center gap-3 border-b border-slate-100 px-6 py-5">
+          <span className="flex h-10 w-10 items-center justify-center rounded-full border border-slate-200 bg-white text-lg font-semibold tracking-tight text-[#0d1d3b] shadow-sm">
+            AA
+          </span>
+          <div className="leading-tight">
+            <p className="text-[11px] uppercase tracking-[0.35em] text-slate-400">
+              Agnostic
+            </p>
+            <p className="text-lg font-semibold text-[#0d1d3b]">Approval Hub</p>
+          </div>
+        </header>
+        <LoginForm providers={providers} nextPath={nextPath} error={error} />
+      </div>
+    </div>
+  );
+}
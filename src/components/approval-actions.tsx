@@ -0,0 +1,326 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { ApprovalAction } from "@/types";
+
+export interface ActionTarget {
+  stageId: string;
+  label: string;
+}
+
+interface ApprovalActionsProps {
+  approvalId: string;
+  /** The signed-in user; the server attributes the action to them. */
+  currentUser: { id: string; name: string };
+  /** Pending assignees plus anyone currently covering for them. */
+  actorIds: string[];
+  requesterId: string;
+  approveTargets: ActionTarget[];
+  rejectTargets: ActionTarget[];
+  isClosed: boolean;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+type SubmitResult = { ok: true } | { ok: false; issues: string[] };
+
+async function readIssues(response: Response) {
+  const result = await response.json().catch(() => null);
+  return (result?.issues ?? [result?.error ?? "Request failed."]) as string[];
+}
+
+/**
+ * Uploads `files` first, then records the action with the new attachment
+ * ids. Files that uploaded before a later step failed stay on the approval.
+ */
+async function submitAction(
+  approvalId: string,
+  body: {
+    action: ApprovalAction;
+    comment?: string;
+    targetStageId?: string;
+    replyToId?: string;
+  },
+  files: File[] = [],
+): Promise<SubmitResult> {
+  try {
+    const attachmentIds: string[] = [];
+    for (const file of files) {
+      const form = new FormData();
+      form.set("file", file);
+      const response = await fetch(`/api/approvals/${approvalId}/attachments`, {
+        method: "POST",
+        body: form,
+      });
+      if (!response.ok) {
+        return { ok: false, issues: await readIssues(response) };
+      }
+      attachmentIds.push((await response.json()).id);
+    }
+
+    const response = await fetch(`/api/approvals/${approvalId}/actions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, attachmentIds }),
+    });
+    return response.ok
+      ? { ok: true }
+      : { ok: false, issues: await readIssues(response) };
+  } catch {
+    return { ok: false, issues: ["Unable to reach the server."] };
+  }
+}
+
+export function ApprovalActions({
+  approvalId,
+  currentUser,
+  actorIds,
+  requesterId,
+  approveTargets,
+  rejectTargets,
+  isClosed,
+}: ApprovalActionsProps) {
+  const router = useRouter();
+  const [comment, setComment] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [approveTarget, setApproveTarget] = useState("");
+  const [rejectTarget, setRejectTarget] = useState("");
+  const [pendingAction, setPendingAction] = useState<ApprovalAction | null>(
+    null,
+  );
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const isAssigned = actorIds.includes(currentUser.id);
+  const isRequester = currentUser.id === requesterId;
+
+  const run = async (action: ApprovalAction, targetStageId?: string) => {
+    setPendingAction(action);
+    setIssues([]);
+    const result = await submitAction(
+      approvalId,
+      {
+        action,
+        comment,
+        targetStageId: targetStageId || undefined,
+      },
+      files,
+    );
+    setPendingAction(null);
+    if (!result.ok) {
+      setIssues(result.issues);
+      router.refresh();
+      return;
+    }
+    setComment("");
+    setFiles([]);
+    setFileInputKey((key) => key + 1);
+    router.refresh();
+  };
+
+  const targetSelect = (
+    label: string,
+    targets: ActionTarget[],
+    value: string,
+    onChange: (value: string) => void,
+  ) =>
+    targets.length > 1 ? (
+      <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {label}
+        <select
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">First transition whose conditions hold</option>
+          {targets.map((target) => (
+            <option key={target.stageId} value={target.stageId}>
+              {target.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    ) : null;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+        Comment
+        <textarea
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          rows={3}
+          placeholder="Add context for the requester and the next reviewer. Tag people with @name"
+          className={INPUT_CLASS}
+        />
+      </label>
+      {!isClosed ? (
+        <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Attachments
+          <input
+            key={fileInputKey}
+            type="file"
+            multiple
+            onChange={(event) => setFiles(Array.from(event.target.files ?? []))}
+            className="mt-1 block w-full text-sm font-normal normal-case tracking-normal text-slate-600 file:mr-3 file:rounded-full file:border-0 file:bg-slate-100 file:px-3 file:py-1 file:text-xs file:font-semibold file:uppercase file:tracking-wide file:text-slate-700 hover:file:bg-slate-200"
+          />
+        </label>
+      ) : null}
+      {isClosed ? (
+        <p className="text-sm text-slate-500">
+          This approval is closed. Comments are still recorded, but files can
+          no longer be attached.
+        </p>
+      ) : (
+        <>
+          {targetSelect("Approve to", approveTargets, approveTarget, setApproveTarget)}
+          {targetSelect("Reject to", rejectTargets, rejectTarget, setRejectTarget)}
+          {!isAssigned ? (
+            <p className="text-xs text-amber-700">
+              You are not assigned to the current stage.
+            </p>
+          ) : !comment.trim() && rejectTargets.length > 0 ? (
+            <p className="text-xs text-slate-500">
+              Rejecting needs a comment explaining why.
+            </p>
+          ) : null}
+        </>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {!isClosed ? (
+          <>
+            <button
+              type="button"
+              disabled={!isAssigned || approveTargets.length === 0 || pendingAction !== null}
+              onClick={() => void run("approve", approveTarget)}
+              className="inline-flex items-center rounded-full bg-emerald-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {pendingAction === "approve" ? "Approving…" : "Approve"}
+            </button>
+            <button
+              type="button"
+              disabled={
+                !isAssigned ||
+                !comment.trim() ||
+                rejectTargets.length === 0 ||
+                pendingAction !== null
+              }
+              onClick={() => void run("reject", rejectTarget)}
+              className="inline-flex items-center rounded-full bg-rose-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-rose-500 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {pendingAction === "reject" ? "Rejecting…" : "Reject"}
+            </button>
+          </>
+        ) : null}
+        <button
+          type="button"
+          disabled={
+            (!comment.trim() && files.length === 0) || pendingAction !== null
+          }
+          onClick={() => void run("comment")}
+          className="inline-flex items-center rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {pendingAction === "comment" ? "Posting…" : "Comment"}
+        </button>
+        {!isClosed && isRequester ? (
+          <button
+            type="button"
+            disabled={pendingAction !== null}
+            onClick={() => void run("withdraw")}
+            className="inline-flex items-center rounded-full border border-rose-200 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {pendingAction === "withdraw" ? "Withdrawing…" : "Withdraw"}
+          </button>
+        ) : null}
+      </div>
+      {issues.length > 0 ? (
+        <ul className="space-y-1 text-xs text-rose-600">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+interface CommentReplyProps {
+  approvalId: string;
+  commentId: string;
+}
+
+export function CommentReply({ approvalId, commentId }: CommentReplyProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [isPending, setIsPending] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const reply = async () => {
+    setIsPending(true);
+    setIssues([]);
+    const result = await submitAction(approvalId, {
+      action: "comment",
+      comment: text,
+      replyToId: commentId,
+    });
+    setIsPending(false);
+    if (!result.ok) {
+      setIssues(result.issues);
+      return;
+    }
+    setText("");
+    setIsOpen(false);
+    router.refresh();
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="mt-2 text-xs font-semibold uppercase tracking-wide text-slate-500 hover:text-emerald-700"
+      >
+        Reply
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      <textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        rows={2}
+        placeholder="Write a reply"
+        className={INPUT_CLASS}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          disabled={!text.trim() || isPending}
+          onClick={() => void reply()}
+          className="inline-flex items-center rounded-full bg-slate-900 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isPending ? "Posting…" : "Post reply"}
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 hover:text-slate-700"
+        >
+          Cancel
+        </button>
+      </div>
+      {issues.length > 0 ? (
+        <ul className="space-y-1 text-xs text-rose-600">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
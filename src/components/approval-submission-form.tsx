@@ -0,0 +1,237 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMemo, useState, type FormEvent } from "react";
+import type { PayloadField } from "@/types";
+
+export interface SubmittableFlow {
+  id: string;
+  name: string;
+  domainName: string;
+  subdomainName: string;
+  payloadSchema?: PayloadField[];
+}
+
+interface ApprovalSubmissionFormProps {
+  flows: SubmittableFlow[];
+}
+
+type SubmitState =
+  | { status: "idle" | "submitting" }
+  | { status: "submitted"; approvalId: string }
+  | { status: "error"; issues: string[] };
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+function toPayloadValue(field: PayloadField, raw: string | boolean) {
+  if (field.type === "boolean") {
+    return raw === true;
+  }
+  if (raw === "") {
+    return undefined;
+  }
+  return field.type === "number" ? Number(raw) : raw;
+}
+
+function PayloadFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: PayloadField;
+  value: string | boolean | undefined;
+  onChange: (value: string | boolean) => void;
+}) {
+  const label = field.label || field.name;
+
+  if (field.type === "boolean") {
+    return (
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(event) => onChange(event.target.checked)}
+          className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+        />
+        {label}
+        {field.required ? <span className="text-rose-500">*</span> : null}
+      </label>
+    );
+  }
+
+  return (
+    <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+      {label}
+      {field.required ? <span className="ml-1 text-rose-500">*</span> : null}
+      {field.enum ? (
+        <select
+          value={typeof value === "string" ? value : ""}
+          onChange={(event) => onChange(event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Select…</option>
+          {field.enum.map((option) => (
+            <option key={String(option)} value={String(option)}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={
+            field.type === "number"
+              ? "number"
+              : field.type === "date"
+                ? "date"
+                : "text"
+          }
+          value={typeof value === "string" ? value : ""}
+          onChange={(event) => onChange(event.target.value)}
+          className={INPUT_CLASS}
+        />
+      )}
+      {field.description ? (
+        <span className="mt-1 block text-[11px] font-normal normal-case tracking-normal text-slate-400">
+          {field.description}
+        </span>
+      ) : null}
+    </label>
+  );
+}
+
+export function ApprovalSubmissionForm({
+  flows,
+}: ApprovalSubmissionFormProps) {
+  const router = useRouter();
+  const [flowId, setFlowId] = useState(flows[0]?.id ?? "");
+  const [title, setTitle] = useState("");
+  const [values, setValues] = useState<Record<string, string | boolean>>({});
+  const [submitState, setSubmitState] = useState<SubmitState>({
+    status: "idle",
+  });
+
+  const selectedFlow = useMemo(
+    () => flows.find((flow) => flow.id === flowId),
+    [flowId, flows],
+  );
+  const fields = selectedFlow?.payloadSchema ?? [];
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitState({ status: "submitting" });
+
+    const payload = Object.fromEntries(
+      fields
+        .map((field) => [
+          field.name,
+          toPayloadValue(field, values[field.name] ?? ""),
+        ])
+        .filter(([, value]) => value !== undefined),
+    );
+
+    try {
+      const response = await fetch("/api/approvals", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, flowId, payload }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        setSubmitState({
+          status: "error",
+          issues: result?.issues ?? [result?.error ?? "Unable to submit."],
+        });
+        return;
+      }
+      setSubmitState({ status: "submitted", approvalId: result.id });
+      setTitle("");
+      setValues({});
+      router.refresh();
+    } catch {
+      setSubmitState({
+        status: "error",
+        issues: ["Unable to reach the server."],
+      });
+    }
+  };
+
+  if (flows.length === 0) {
+    return (
+      <p className="px-6 py-8 text-center text-sm text-slate-500">
+        No published flows accept submissions yet.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4 px-6 py-5">
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Flow
+          <select
+            value={flowId}
+            onChange={(event) => {
+              setFlowId(event.target.value);
+              setValues({});
+            }}
+            className={INPUT_CLASS}
+          >
+            {flows.map((flow) => (
+              <option key={flow.id} value={flow.id}>
+                {flow.name} · {flow.domainName} / {flow.subdomainName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Title
+          <input
+            type="text"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            required
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      {fields.length > 0 ? (
+        <div className="grid gap-3 rounded-xl border border-slate-100 bg-slate-50 p-4 md:grid-cols-2 xl:grid-cols-3">
+          {fields.map((field) => (
+            <PayloadFieldInput
+              key={field.name}
+              field={field}
+              value={values[field.name]}
+              onChange={(value) =>
+                setValues((prev) => ({ ...prev, [field.name]: value }))
+              }
+            />
+          ))}
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="submit"
+          disabled={submitState.status === "submitting"}
+          className="inline-flex items-center rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {submitState.status === "submitting" ? "Submitting…" : "Submit request"}
+        </button>
+        {submitState.status === "submitted" ? (
+          <span className="inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-700">
+            Submitted #{submitState.approvalId}
+          </span>
+        ) : null}
+      </div>
+      {submitState.status === "error" ? (
+        <ul className="space-y-1 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+          {submitState.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </form>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, type FormEvent } from "react";
+import type { DelegationStatus } from "@/lib/delegation";
+import type { UserDelegation } from "@/types";
+
+interface DelegationControlProps {
+  userId: string;
+  delegation?: UserDelegation;
+  delegateName?: string;
+  status?: DelegationStatus;
+  candidates: { id: string; name: string }[];
+  today: string;
+  /** False when the signed-in user may only look. */
+  canEdit: boolean;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+const STATUS_STYLES: Record<DelegationStatus, string> = {
+  active: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  scheduled: "border-sky-200 bg-sky-50 text-sky-700",
+  expired: "border-slate-200 bg-slate-100 text-slate-500",
+};
+
+export function DelegationControl({
+  userId,
+  delegation,
+  delegateName,
+  status,
+  candidates,
+  today,
+  canEdit,
+}: DelegationControlProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [delegateId, setDelegateId] = useState(candidates[0]?.id ?? "");
+  const [startsOn, setStartsOn] = useState(today);
+  const [endsOn, setEndsOn] = useState(today);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const send = async (init: RequestInit) => {
+    setIsSaving(true);
+    setIssues([]);
+    try {
+      const response = await fetch(`/api/users/${userId}/delegation`, init);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setIssues(result?.issues ?? [result?.error ?? "Request failed."]);
+        return;
+      }
+      setIsEditing(false);
+      router.refresh();
+    } catch {
+      setIssues(["Unable to reach the server."]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const save = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void send({
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ delegateId, startsOn, endsOn, note }),
+    });
+  };
+
+  const issueList =
+    issues.length > 0 ? (
+      <ul className="mt-2 space-y-1 text-[11px] text-rose-600">
+        {issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    ) : null;
+
+  if (delegation && !isEditing) {
+    return (
+      <div className="space-y-1 text-xs text-slate-600">
+        {status ? (
+          <span
+            className={`inline-flex rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${STATUS_STYLES[status]}`}
+          >
+            {status}
+          </span>
+        ) : null}
+        <div>
+          Covered by{" "}
+          <span className="font-semibold text-slate-800">
+            {delegateName ?? delegation.delegateId}
+          </span>
+        </div>
+        <div className="text-slate-500">
+          {delegation.startsOn} → {delegation.endsOn}
+        </div>
+        {delegation.note ? (
+          <div className="text-slate-400">{delegation.note}</div>
+        ) : null}
+        {canEdit ? (
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => void send({ method: "DELETE" })}
+            className="rounded-full border border-rose-200 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50 disabled:opacity-60"
+          >
+            {isSaving ? "Revoking…" : "Revoke"}
+          </button>
+        ) : null}
+        {issueList}
+      </div>
+    );
+  }
+
+  if (!canEdit) {
+    return <span className="text-xs text-slate-400">No delegate</span>;
+  }
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsEditing(true)}
+        className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+      >
+        Set delegate
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={save} className="w-56 space-y-2 text-[11px] font-semibold uppercase tracking-wide text-slate-500">
+      <label className="block">
+        Delegate
+        <select
+          value={delegateId}
+          onChange={(event) => setDelegateId(event.target.value)}
+          className={INPUT_CLASS}
+        >
+          {candidates.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          From
+          <input
+            type="date"
+            value={startsOn}
+            onChange={(event) => setStartsOn(event.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block">
+          Until
+          <input
+            type="date"
+            value={endsOn}
+            onChange={(event) => setEndsOn(event.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+      <label className="block">
+        Note
+        <input
+          type="text"
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Out of office"
+          className={INPUT_CLASS}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:opacity-60"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsEditing(false);
+            setIssues([]);
+          }}
+          className="rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+      {issueList}
+    </form>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, type FormEvent } from "react";
+
+interface DomainFields {
+  id: string;
+  name: string;
+  description: string;
+  ownerIds: string[];
+}
+
+interface DomainEditorProps {
+  /** Collection URL to POST to when creating, item URL to PUT to when editing. */
+  endpoint: string;
+  mode: "create" | "edit";
+  kind: "domain" | "subdomain";
+  initial?: DomainFields;
+  users: { id: string; name: string }[];
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+const EMPTY_FIELDS: DomainFields = {
+  id: "",
+  name: "",
+  description: "",
+  ownerIds: [],
+};
+
+function IssueList({ issues }: { issues: string[] }) {
+  if (issues.length === 0) {
+    return null;
+  }
+  return (
+    <ul className="mt-2 space-y-1 text-[11px] normal-case tracking-normal text-rose-600">
+      {issues.map((issue) => (
+        <li key={issue}>{issue}</li>
+      ))}
+    </ul>
+  );
+}
+
+/** Shared request handling: surfaces issues, refreshes the page on success. */
+function useDomainRequest() {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const send = async (url: string, init: RequestInit) => {
+    setIsSaving(true);
+    setIssues([]);
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setIssues(result?.issues ?? [result?.error ?? "Request failed."]);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch {
+      setIssues(["Unable to reach the server."]);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { isSaving, issues, setIssues, send };
+}
+
+/** Inline create/edit form for a domain or subdomain and its owners. */
+export function DomainEditor({
+  endpoint,
+  mode,
+  kind,
+  initial = EMPTY_FIELDS,
+  users,
+}: DomainEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [fields, setFields] = useState<DomainFields>(initial);
+  const { isSaving, issues, setIssues, send } = useDomainRequest();
+
+  const toggleOwner = (userId: string) =>
+    setFields((current) => ({
+      ...current,
+      ownerIds: current.ownerIds.includes(userId)
+        ? current.ownerIds.filter((ownerId) => ownerId !== userId)
+        : [...current.ownerIds, userId],
+    }));
+
+  const save = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const saved = await send(endpoint, {
+      method: mode === "create" ? "POST" : "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fields),
+    });
+    if (saved) {
+      setIsEditing(false);
+      if (mode === "create") {
+        setFields(EMPTY_FIELDS);
+      }
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setFields(initial);
+          setIsEditing(true);
+        }}
+        className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+      >
+        {mode === "create" ? `Add ${kind}` : "Edit"}
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => void save(event)}
+      className="w-64 space-y-2 rounded-xl border border-slate-200 bg-white p-3 text-left text-[11px] font-semibold uppercase tracking-wide text-slate-500 shadow-sm"
+    >
+      {mode === "create" ? (
+        <label className="block">
+          Id
+          <input
+            type="text"
+            required
+            value={fields.id}
+            onChange={(event) =>
+              setFields({ ...fields, id: event.target.value.trim() })
+            }
+            placeholder={kind === "domain" ? "billpayment" : "billpayment-refunds"}
+            className={INPUT_CLASS}
+          />
+        </label>
+      ) : null}
+      <label className="block">
+        Name
+        <input
+          type="text"
+          required
+          value={fields.name}
+          onChange={(event) => setFields({ ...fields, name: event.target.value })}
+          className={INPUT_CLASS}
+        />
+      </label>
+      <label className="block">
+        Description
+        <textarea
+          rows={2}
+          value={fields.description}
+          onChange={(event) =>
+            setFields({ ...fields, description: event.target.value })
+          }
+          className={INPUT_CLASS}
+        />
+      </label>
+      <fieldset>
+        <legend>Owners</legend>
+        <div className="mt-1 max-h-32 space-y-1 overflow-y-auto rounded-lg border border-slate-200 px-2 py-1.5 text-xs normal-case tracking-normal text-slate-700">
+          {users.map((user) => (
+            <label key={user.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={fields.ownerIds.includes(user.id)}
+                onChange={() => toggleOwner(user.id)}
+              />
+              {user.name}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:opacity-60"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsEditing(false);
+            setIssues([]);
+          }}
+          className="rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+      <IssueList issues={issues} />
+    </form>
+  );
+}
+
+interface DomainRemovalProps {
+  /** Item URL of the domain or subdomain. */
+  endpoint: string;
+  name: string;
+  archived: boolean;
+}
+
+/**
+ * Archive and delete buttons with an inline confirmation. The server refuses
+ * deletes that would orphan flows or approvals and says why.
+ */
+export function DomainRemoval({ endpoint, name, archived }: DomainRemovalProps) {
+  const [pending, setPending] = useState<"archive" | "delete" | null>(null);
+  const { isSaving, issues, setIssues, send } = useDomainRequest();
+
+  const confirm = async () => {
+    const done = await send(
+      pending === "archive" ? `${endpoint}?mode=archive` : endpoint,
+      { method: "DELETE" },
+    );
+    if (done) {
+      setPending(null);
+    }
+  };
+
+  if (pending) {
+    return (
+      <div className="space-y-2 text-xs text-slate-600">
+        <p>
+          {pending === "archive"
+            ? `Archive "${name}"? It stays readable but takes no new work.`
+            : `Delete "${name}" for good?`}
+        </p>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={() => void confirm()}
+            className="rounded-full border border-rose-200 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50 disabled:opacity-60"
+          >
+            {isSaving
+              ? "Working…"
+              : pending === "archive"
+                ? "Archive"
+                : "Delete"}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setPending(null);
+              setIssues([]);
+            }}
+            className="rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+          >
+            Cancel
+          </button>
+        </div>
+        <IssueList issues={issues} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      {archived ? null : (
+        <button
+          type="button"
+          onClick={() => setPending("archive")}
+          className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+        >
+          Archive
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => setPending("delete")}
+        className="rounded-full border border-rose-200 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
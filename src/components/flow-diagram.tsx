@@ -0,0 +1,187 @@
+import type { ApprovalFlowStage } from "@/types";
+
+interface FlowDiagramProps {
+  stages: ApprovalFlowStage[];
+  currentStageId?: string;
+  /** Stages the approval has already been through. */
+  visitedStageIds?: string[];
+  /** Transitions taken so far, as `from→to` stage id pairs. */
+  takenEdges?: string[];
+}
+
+const CARD_WIDTH = 176;
+const CARD_HEIGHT = 64;
+const GAP_X = 72;
+const GAP_Y = 28;
+const LOOP_DEPTH = 44;
+
+function transitionTargetId(
+  stages: ApprovalFlowStage[],
+  transition: ApprovalFlowStage["transitions"][number],
+) {
+  return (
+    transition.targetStageId ??
+    stages.find((stage) => stage.status === transition.to)?.id
+  );
+}
+
+/**
+ * Columns follow the shortest path from the first stage; stages that cannot
+ * be reached from it go in a trailing column.
+ */
+function layoutStages(stages: ApprovalFlowStage[]) {
+  const depth = new Map<string, number>();
+  const queue = stages.length > 0 ? [stages[0].id] : [];
+  if (queue.length > 0) {
+    depth.set(queue[0], 0);
+  }
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    const stage = stages.find((item) => item.id === id);
+    stage?.transitions.forEach((transition) => {
+      const targetId = transitionTargetId(stages, transition);
+      if (targetId && !depth.has(targetId)) {
+        depth.set(targetId, (depth.get(id) ?? 0) + 1);
+        queue.push(targetId);
+      }
+    });
+  }
+
+  const lastColumn = Math.max(-1, ...depth.values()) + 1;
+  const rows = new Map<number, number>();
+  const positions = new Map<string, { x: number; y: number }>();
+  stages.forEach((stage) => {
+    const column = depth.get(stage.id) ?? lastColumn;
+    const row = rows.get(column) ?? 0;
+    rows.set(column, row + 1);
+    positions.set(stage.id, {
+      x: column * (CARD_WIDTH + GAP_X),
+      y: row * (CARD_HEIGHT + GAP_Y),
+    });
+  });
+
+  const columns = Math.max(0, ...rows.keys()) + 1;
+  const maxRows = Math.max(1, ...rows.values());
+  return {
+    positions,
+    width: columns * (CARD_WIDTH + GAP_X) - GAP_X,
+    height: maxRows * (CARD_HEIGHT + GAP_Y) - GAP_Y + LOOP_DEPTH,
+  };
+}
+
+export function FlowDiagram({
+  stages,
+  currentStageId,
+  visitedStageIds = [],
+  takenEdges = [],
+}: FlowDiagramProps) {
+  const { positions, width, height } = layoutStages(stages);
+
+  const edges = stages.flatMap((stage) =>
+    stage.transitions.flatMap((transition, index) => {
+      const targetId = transitionTargetId(stages, transition);
+      const from = positions.get(stage.id);
+      const to = targetId ? positions.get(targetId) : undefined;
+      if (!targetId || !from || !to || targetId === stage.id) {
+        return [];
+      }
+      // Forward edges join the facing card sides; anything else loops underneath.
+      const path =
+        to.x > from.x
+          ? `M ${from.x + CARD_WIDTH} ${from.y + CARD_HEIGHT / 2} C ${from.x + CARD_WIDTH + GAP_X / 2} ${from.y + CARD_HEIGHT / 2}, ${to.x - GAP_X / 2} ${to.y + CARD_HEIGHT / 2}, ${to.x} ${to.y + CARD_HEIGHT / 2}`
+          : `M ${from.x + CARD_WIDTH / 2} ${from.y + CARD_HEIGHT} C ${from.x + CARD_WIDTH / 2} ${from.y + CARD_HEIGHT + LOOP_DEPTH}, ${to.x + CARD_WIDTH / 2} ${to.y + CARD_HEIGHT + LOOP_DEPTH}, ${to.x + CARD_WIDTH / 2 + 8} ${to.y + CARD_HEIGHT}`;
+      return [
+        {
+          key: `${stage.id}-${targetId}-${index}`,
+          path,
+          taken: takenEdges.includes(`${stage.id}→${targetId}`),
+        },
+      ];
+    }),
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="relative" style={{ width, height }}>
+        <svg
+          className="absolute inset-0"
+          width={width}
+          height={height}
+          aria-hidden="true"
+        >
+          <defs>
+            <marker
+              id="flow-arrow"
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+            </marker>
+            <marker
+              id="flow-arrow-taken"
+              viewBox="0 0 10 10"
+              refX="9"
+              refY="5"
+              markerWidth="6"
+              markerHeight="6"
+              orient="auto-start-reverse"
+            >
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#0284c7" />
+            </marker>
+          </defs>
+          {edges.map((edge) => (
+            <path
+              key={edge.key}
+              d={edge.path}
+              fill="none"
+              stroke={edge.taken ? "#0284c7" : "#cbd5e1"}
+              strokeWidth={edge.taken ? 2 : 1.5}
+              markerEnd={`url(#${edge.taken ? "flow-arrow-taken" : "flow-arrow"})`}
+            />
+          ))}
+        </svg>
+        {stages.map((stage) => {
+          const position = positions.get(stage.id);
+          if (!position) {
+            return null;
+          }
+          const isCurrent = stage.id === currentStageId;
+          const isVisited = visitedStageIds.includes(stage.id);
+          return (
+            <div
+              key={stage.id}
+              className={`absolute flex flex-col justify-center rounded-xl border px-3 py-2 shadow-sm ${
+                isCurrent
+                  ? "border-emerald-400 bg-emerald-50 ring-2 ring-emerald-200"
+                  : isVisited
+                    ? "border-sky-200 bg-sky-50"
+                    : "border-slate-200 bg-white"
+              }`}
+              style={{
+                left: position.x,
+                top: position.y,
+                width: CARD_WIDTH,
+                height: CARD_HEIGHT,
+              }}
+            >
+              <span className="truncate text-sm font-semibold text-slate-900">
+                {stage.name}
+              </span>
+              <span
+                className={`text-[10px] font-semibold uppercase tracking-wide ${
+                  isCurrent ? "text-emerald-700" : "text-slate-400"
+                }`}
+              >
+                {isCurrent ? "Current stage" : stage.actor}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import type {
+  FlowDefinitionDiff,
+  StageChangeKind,
+  TransitionEdge,
+} from "@/lib/flowDiff";
+
+const KIND_STYLES: Record<StageChangeKind, string> = {
+  added: "border border-emerald-200 bg-emerald-50 text-emerald-700",
+  removed: "border border-rose-200 bg-rose-50 text-rose-700",
+  changed: "border border-amber-200 bg-amber-50 text-amber-700",
+  unchanged: "border border-slate-200 bg-slate-100 text-slate-500",
+};
+
+interface FlowDiffSummaryProps {
+  diff: FlowDefinitionDiff;
+  stageNames: Record<string, string>;
+}
+
+function EdgeList({
+  title,
+  edges,
+  stageNames,
+  tone,
+}: {
+  title: string;
+  edges: TransitionEdge[];
+  stageNames: Record<string, string>;
+  tone: "added" | "removed";
+}) {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+        {title}
+      </h4>
+      {edges.length === 0 ? (
+        <p className="mt-2 text-sm text-slate-500">None.</p>
+      ) : (
+        <ul className="mt-2 space-y-2 text-sm">
+          {edges.map((edge) => (
+            <li
+              key={edge.key}
+              className={`rounded px-3 py-2 ${KIND_STYLES[tone]}`}
+            >
+              {stageNames[edge.fromStageId] ?? edge.fromStageId} →{" "}
+              {stageNames[edge.toStageId] ?? edge.toStageId}
+              {edge.label ? (
+                <span className="ml-2 text-xs opacity-80">“{edge.label}”</span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function FlowDiffSummary({ diff, stageNames }: FlowDiffSummaryProps) {
+  if (!diff.hasChanges) {
+    return (
+      <p className="px-6 py-8 text-center text-sm text-slate-500">
+        The selected revisions are identical.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 p-6 lg:grid-cols-[2fr_1fr]">
+      <ul className="space-y-3">
+        {diff.stages.map((stage) => (
+          <li
+            key={`${stage.kind}-${stage.stageId}`}
+            className="rounded-xl border border-slate-200 bg-white px-4 py-3"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-semibold text-slate-900">
+                {stage.stageName}
+                <span className="ml-2 text-xs font-normal text-slate-400">
+                  {stage.stageId}
+                </span>
+              </span>
+              <span
+                className={`inline-flex rounded-full px-3 py-1 text-[11px] font-semibold uppercase tracking-wide ${KIND_STYLES[stage.kind]}`}
+              >
+                {stage.kind}
+              </span>
+            </div>
+            {stage.kind === "changed" ? (
+              <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-slate-600">
+                {stage.changes.map((change) => (
+                  <li key={change}>{change}</li>
+                ))}
+              </ul>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+      <div className="space-y-4">
+        <EdgeList
+          title="Added transitions"
+          edges={diff.addedTransitions}
+          stageNames={stageNames}
+          tone="added"
+        />
+        <EdgeList
+          title="Removed transitions"
+          edges={diff.removedTransitions}
+          stageNames={stageNames}
+          tone="removed"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { InAppNotification } from "@/types";
+
+interface InboxState {
+  unread: number;
+  notifications: InAppNotification[];
+}
+
+const POLL_INTERVAL_MS = 30_000;
+const EMPTY_INBOX: InboxState = { unread: 0, notifications: [] };
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** Bell with the unread count for the signed-in user's in-app notifications. */
+export function InboxMenu() {
+  const [inbox, setInbox] = useState<InboxState>(EMPTY_INBOX);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      fetch("/api/inbox")
+        .then((response) => (response.ok ? response.json() : null))
+        .then((result: InboxState | null) => {
+          if (!cancelled && result) {
+            setInbox(result);
+          }
+        })
+        .catch(() => undefined);
+
+    void load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [refreshKey]);
+
+  const markRead = async (url: string) => {
+    setError(null);
+    try {
+      const response = await fetch(url, { method: "POST" });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setError(result?.error ?? "Request failed.");
+        return;
+      }
+      setRefreshKey((key) => key + 1);
+    } catch {
+      setError("Unable to reach the server.");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-label={`Notifications, ${inbox.unread} unread`}
+        aria-expanded={isOpen}
+        className="relative flex h-11 w-11 items-center justify-center rounded-full border border-slate-200 bg-white text-slate-600 shadow-sm transition hover:bg-slate-100"
+      >
+        <svg
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.8}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="h-5 w-5"
+          aria-hidden="true"
+        >
+          <path d="M6 8a6 6 0 1 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+          <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+        </svg>
+        {inbox.unread > 0 ? (
+          <span className="absolute -right-1 -top-1 flex min-w-5 items-center justify-center rounded-full bg-rose-500 px-1.5 text-[10px] font-semibold text-white">
+            {inbox.unread > 99 ? "99+" : inbox.unread}
+          </span>
+        ) : null}
+      </button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-50 mt-2 flex w-80 flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm font-semibold text-slate-900">
+              Notifications
+            </p>
+            <button
+              type="button"
+              disabled={inbox.unread === 0}
+              onClick={() => void markRead("/api/inbox/read")}
+              className="text-xs font-semibold uppercase tracking-wide text-sky-700 transition hover:text-sky-900 disabled:cursor-not-allowed disabled:text-slate-300"
+            >
+              Mark all read
+            </button>
+          </div>
+          {error ? <p className="text-xs text-rose-600">{error}</p> : null}
+          {inbox.notifications.length === 0 ? (
+            <p className="rounded-xl border border-dashed border-slate-200 px-3 py-6 text-center text-xs text-slate-500">
+              No notifications yet.
+            </p>
+          ) : (
+            <ul className="flex max-h-96 flex-col gap-2 overflow-y-auto">
+              {inbox.notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`rounded-xl border px-3 py-2 ${
+                    notification.readAt
+                      ? "border-slate-100 bg-white"
+                      : "border-sky-100 bg-sky-50/60"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <p
+                      className={`text-sm ${
+                        notification.readAt
+                          ? "text-slate-600"
+                          : "font-semibold text-slate-900"
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    {notification.readAt ? null : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          void markRead(`/api/inbox/${notification.id}/read`)
+                        }
+                        className="shrink-0 text-[11px] font-semibold uppercase tracking-wide text-sky-700 transition hover:text-sky-900"
+                      >
+                        Mark read
+                      </button>
+                    )}
+                  </div>
+                  {notification.body ? (
+                    <p className="mt-1 whitespace-pre-line text-xs text-slate-600">
+                      {notification.body}
+                    </p>
+                  ) : null}
+                  <p className="mt-1 text-[11px] text-slate-400">
+                    {formatTimestamp(notification.createdAt)} ·{" "}
+                    {notification.approvalId}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
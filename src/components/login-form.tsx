@@ -0,0 +1,132 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import type { IdentityProviderId } from "@/types";
+
+interface ProviderOption {
+  id: IdentityProviderId;
+  kind: "password" | "redirect";
+  label: string;
+}
+
+interface LoginFormProps {
+  providers: ProviderOption[];
+  nextPath: string;
+  /** Set when a redirect provider sent the browser back with a failure. */
+  error?: string;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+export function LoginForm({ providers, nextPath, error }: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isPending, setIsPending] = useState(false);
+  const [issues, setIssues] = useState<string[]>(error ? [error] : []);
+
+  const passwordProvider = providers.find(
+    (provider) => provider.kind === "password",
+  );
+  const redirectProviders = providers.filter(
+    (provider) => provider.kind === "redirect",
+  );
+
+  const submit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!passwordProvider) {
+      return;
+    }
+    setIsPending(true);
+    setIssues([]);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider: passwordProvider.id,
+          username,
+          password,
+        }),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setIssues(result?.issues ?? [result?.error ?? "Sign-in failed."]);
+        setIsPending(false);
+        return;
+      }
+      window.location.assign(nextPath);
+    } catch {
+      setIssues(["Unable to reach the server."]);
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5 px-6 py-5">
+      <div>
+        <h1 className="text-lg font-semibold text-slate-900">Sign in</h1>
+        <p className="text-sm text-slate-500">
+          Decisions and changes are recorded under your name.
+        </p>
+      </div>
+      {passwordProvider ? (
+        <form onSubmit={submit} className="flex flex-col gap-4">
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Username
+            <input
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              required
+              autoFocus
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+            Password
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              required
+              className={INPUT_CLASS}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isPending}
+            className="inline-flex items-center justify-center rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isPending ? "Signing in…" : "Sign in"}
+          </button>
+        </form>
+      ) : null}
+      {passwordProvider && redirectProviders.length > 0 ? (
+        <div className="flex items-center gap-3 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+          <span className="h-px flex-1 bg-slate-200" />
+          or
+          <span className="h-px flex-1 bg-slate-200" />
+        </div>
+      ) : null}
+      {redirectProviders.map((provider) => (
+        <a
+          key={provider.id}
+          href={`/api/auth/${provider.id}/start?next=${encodeURIComponent(nextPath)}`}
+          className="inline-flex items-center justify-center rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+        >
+          Continue with {provider.label}
+        </a>
+      ))}
+      {issues.length > 0 ? (
+        <ul className="space-y-1 text-xs text-rose-600">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
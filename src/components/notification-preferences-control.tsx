@@ -0,0 +1,202 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, type FormEvent } from "react";
+import {
+  describeNotificationPreferences,
+  PERSONAL_NOTIFICATION_CHANNELS,
+} from "@/lib/notificationPreferences";
+import type {
+  NotificationFrequency,
+  NotificationPreferences,
+  PersonalNotificationChannel,
+} from "@/types";
+
+interface NotificationPreferencesControlProps {
+  userId: string;
+  preferences: NotificationPreferences;
+  domains: { id: string; name: string }[];
+  /** False when the signed-in user may only look. */
+  canEdit: boolean;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+const CHECKBOX_CLASS =
+  "h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500";
+
+const CHANNEL_LABELS: Record<PersonalNotificationChannel, string> = {
+  email: "Email",
+  inApp: "In-app",
+};
+
+function toggle<T>(list: T[], value: T, checked: boolean) {
+  return checked
+    ? [...list.filter((item) => item !== value), value]
+    : list.filter((item) => item !== value);
+}
+
+export function NotificationPreferencesControl({
+  userId,
+  preferences,
+  domains,
+  canEdit,
+}: NotificationPreferencesControlProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(preferences);
+  const [isSaving, setIsSaving] = useState(false);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const save = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setIssues([]);
+    try {
+      const response = await fetch(`/api/users/${userId}/preferences`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setIssues(result?.issues ?? [result?.error ?? "Request failed."]);
+        return;
+      }
+      setIsEditing(false);
+      router.refresh();
+    } catch {
+      setIssues(["Unable to reach the server."]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    const muted = domains.filter((domain) =>
+      preferences.mutedDomainIds.includes(domain.id),
+    );
+    return (
+      <div className="space-y-1 text-xs text-slate-600">
+        <div>{describeNotificationPreferences(preferences)}</div>
+        {muted.length > 0 ? (
+          <div className="text-slate-400">
+            Muted: {muted.map((domain) => domain.name).join(", ")}
+          </div>
+        ) : null}
+        {canEdit ? (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(preferences);
+              setIsEditing(true);
+            }}
+            className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+          >
+            Edit
+          </button>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => void save(event)}
+      className="w-56 space-y-2 text-[11px] font-semibold uppercase tracking-wide text-slate-500"
+    >
+      <div className="space-y-1">
+        Channels
+        {PERSONAL_NOTIFICATION_CHANNELS.map((channel) => (
+          <label
+            key={channel}
+            className="flex items-center gap-2 font-normal normal-case tracking-normal text-slate-600"
+          >
+            <input
+              type="checkbox"
+              checked={draft.channels.includes(channel)}
+              onChange={(event) =>
+                setDraft({
+                  ...draft,
+                  channels: toggle(draft.channels, channel, event.target.checked),
+                })
+              }
+              className={CHECKBOX_CLASS}
+            />
+            {CHANNEL_LABELS[channel]}
+          </label>
+        ))}
+      </div>
+      <label className="block">
+        Email frequency
+        <select
+          value={draft.frequency}
+          disabled={!draft.channels.includes("email")}
+          onChange={(event) =>
+            setDraft({
+              ...draft,
+              frequency: event.target.value as NotificationFrequency,
+            })
+          }
+          className={INPUT_CLASS}
+        >
+          <option value="immediate">Immediate</option>
+          <option value="digest">Daily digest</option>
+        </select>
+      </label>
+      <div className="space-y-1">
+        Muted domains
+        {domains.map((domain) => (
+          <label
+            key={domain.id}
+            className="flex items-center gap-2 font-normal normal-case tracking-normal text-slate-600"
+          >
+            <input
+              type="checkbox"
+              checked={draft.mutedDomainIds.includes(domain.id)}
+              onChange={(event) =>
+                setDraft({
+                  ...draft,
+                  mutedDomainIds: toggle(
+                    draft.mutedDomainIds,
+                    domain.id,
+                    event.target.checked,
+                  ),
+                })
+              }
+              className={CHECKBOX_CLASS}
+            />
+            {domain.name}
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:opacity-60"
+        >
+          {isSaving ? "Saving…" : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setIsEditing(false);
+            setIssues([]);
+          }}
+          className="rounded-full border border-slate-300 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+      </div>
+      {issues.length > 0 ? (
+        <ul className="mt-2 space-y-1 text-[11px] font-normal normal-case tracking-normal text-rose-600">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </form>
+  );
+}
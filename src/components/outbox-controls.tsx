@@ -0,0 +1,86 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+function useOutboxRequest() {
+  const router = useRouter();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (url: string) => {
+    setIsPending(true);
+    setError(null);
+    try {
+      const response = await fetch(url, { method: "POST" });
+      if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        setError(result?.error ?? "Request failed.");
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError("Unable to reach the server.");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return { isPending, error, run };
+}
+
+export function DeliverOutboxButton() {
+  const { isPending, error, run } = useOutboxRequest();
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        disabled={isPending}
+        onClick={() => void run("/api/notifications/deliver")}
+        className="inline-flex items-center rounded-full bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isPending ? "Delivering…" : "Deliver now"}
+      </button>
+      {error ? <span className="text-xs text-rose-600">{error}</span> : null}
+    </div>
+  );
+}
+
+export function SendDigestButton() {
+  const { isPending, error, run } = useOutboxRequest();
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        disabled={isPending}
+        onClick={() => void run("/api/notifications/digest")}
+        className="inline-flex items-center rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isPending ? "Batching…" : "Send digests"}
+      </button>
+      {error ? <span className="text-xs text-rose-600">{error}</span> : null}
+    </div>
+  );
+}
+
+export function RetryNotificationButton({ messageId }: { messageId: string }) {
+  const { isPending, error, run } = useOutboxRequest();
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        type="button"
+        disabled={isPending}
+        onClick={() =>
+          void run(`/api/notifications/outbox/${messageId}/retry`)
+        }
+        className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100 disabled:opacity-60"
+      >
+        {isPending ? "Queuing…" : "Retry"}
+      </button>
+      {error ? <span className="text-[11px] text-rose-600">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  PAYLOAD_FIELD_TYPES,
+  validatePayloadSchema,
+} from "@/lib/payloadSchema";
+import type { PayloadField, PayloadFieldType } from "@/types";
+
+export interface PayloadFieldDraft {
+  id: string;
+  name: string;
+  label: string;
+  type: PayloadFieldType;
+  required: boolean;
+  enumText: string;
+}
+
+interface PayloadSchemaEditorProps {
+  fields: PayloadFieldDraft[];
+  onChange: (fields: PayloadFieldDraft[]) => void;
+}
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200";
+
+function createFieldId() {
+  return `field-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function toPayloadFieldDrafts(
+  schema: PayloadField[] | undefined,
+): PayloadFieldDraft[] {
+  return (schema ?? []).map((field) => ({
+    id: createFieldId(),
+    name: field.name,
+    label: field.label ?? "",
+    type: field.type,
+    required: Boolean(field.required),
+    enumText: (field.enum ?? []).join(", "),
+  }));
+}
+
+export function toPayloadSchema(drafts: PayloadFieldDraft[]): PayloadField[] {
+  return drafts.map((draft) => {
+    const values = draft.enumText
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+    return {
+      name: draft.name.trim(),
+      label: draft.label.trim() || undefined,
+      type: draft.type,
+      required: draft.required || undefined,
+      enum:
+        values.length > 0
+          ? values.map((value) =>
+              draft.type === "number" ? Number(value) : value,
+            )
+          : undefined,
+    };
+  });
+}
+
+export function PayloadSchemaEditor({
+  fields,
+  onChange,
+}: PayloadSchemaEditorProps) {
+  const issues = useMemo(
+    () => validatePayloadSchema(toPayloadSchema(fields)),
+    [fields],
+  );
+
+  const updateField = (id: string, patch: Partial<PayloadFieldDraft>) => {
+    onChange(
+      fields.map((field) => (field.id === id ? { ...field, ...patch } : field)),
+    );
+  };
+
+  const addField = () => {
+    onChange([
+      ...fields,
+      {
+        id: createFieldId(),
+        name: "",
+        label: "",
+        type: "string",
+        required: false,
+        enumText: "",
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          Submitters fill these in. Reference a field as{" "}
+          <code className="font-mono">amount</code> in conditions and{" "}
+          <code className="font-mono">{"{{payload.amount}}"}</code> in
+          notification templates.
+        </p>
+        <button
+          type="button"
+          onClick={addField}
+          className="inline-flex items-center rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+        >
+          Add field
+        </button>
+      </div>
+      {fields.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-slate-200 px-3 py-4 text-center text-xs text-slate-500">
+          No request fields. Submissions only carry a title.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {fields.map((field) => (
+            <li
+              key={field.id}
+              className="grid gap-2 rounded-xl border border-slate-200 bg-white p-3 md:grid-cols-[1fr_1fr_8rem_1.5fr_auto_auto] md:items-center"
+            >
+              <input
+                type="text"
+                value={field.name}
+                onChange={(event) =>
+                  updateField(field.id, { name: event.target.value })
+                }
+                placeholder="fieldName"
+                aria-label="Field name"
+                className={`${INPUT_CLASS} font-mono`}
+              />
+              <input
+                type="text"
+                value={field.label}
+                onChange={(event) =>
+                  updateField(field.id, { label: event.target.value })
+                }
+                placeholder="Label"
+                aria-label="Field label"
+                className={INPUT_CLASS}
+              />
+              <select
+                value={field.type}
+                onChange={(event) => {
+                  const type = event.target.value as PayloadFieldType;
+                  updateField(field.id, {
+                    type,
+                    enumText: type === "boolean" ? "" : field.enumText,
+                  });
+                }}
+                aria-label="Field type"
+                className={INPUT_CLASS}
+              >
+                {PAYLOAD_FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={field.enumText}
+                onChange={(event) =>
+                  updateField(field.id, { enumText: event.target.value })
+                }
+                placeholder="Allowed values, comma separated"
+                aria-label="Allowed values"
+                disabled={field.type === "boolean"}
+                className={`${INPUT_CLASS} disabled:bg-slate-100`}
+              />
+              <label className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-wide text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={(event) =>
+                    updateField(field.id, { required: event.target.checked })
+                  }
+                  className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() =>
+                  onChange(fields.filter((item) => item.id !== field.id))
+                }
+                className="rounded-full border border-rose-200 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {issues.length > 0 ? (
+        <ul className="space-y-1 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-700">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
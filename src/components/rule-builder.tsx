@@ -8,7 +8,60 @@ import {
   useState,
   type PointerEvent as ReactPointerEvent,
 } from "react";
-import type { ApprovalFlow, ApprovalStatus, Domain, User } from "@/types";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  listConditionFields,
+  parseCondition,
+} from "@/lib/conditionExpression";
+import { diffFlowDefinitions, type StageChangeKind } from "@/lib/flowDiff";
+import {
+  describeSla,
+  ESCALATION_ACTIONS,
+  validateStageSla,
+} from "@/lib/stageSla";
+import {
+  ASSIGNMENT_KINDS,
+  describeAssignment,
+  listUserGroups,
+  listUserRoles,
+  validateStageAssignment,
+  type StageAssignmentKind,
+} from "@/lib/assignmentResolver";
+import {
+  describeQuorum,
+  QUORUM_POLICIES,
+  validateStageApprovers,
+} from "@/lib/quorum";
+import {
+  lintNotificationTemplate,
+  NOTIFICATION_AUDIENCES,
+  notificationTemplateVariables,
+} from "@/lib/notificationEngine";
+import { TEMPLATE_FILTERS } from "@/lib/templateLanguage";
+import {
+  PayloadSchemaEditor,
+  toPayloadFieldDrafts,
+  toPayloadSchema,
+  type PayloadFieldDraft,
+} from "@/components/payload-schema-editor";
+import type {
+  ApprovalFlow,
+  ApprovalStatus,
+  Domain,
+  EscalationAction,
+  EscalationStep,
+  QuorumPolicy,
+  StageApprovers,
+  InAppChannelTemplate,
+  NotificationAudience,
+  StageAssignment,
+  StageNotificationTemplate,
+  StageSla,
+  User,
+  VersionBump,
+  WebhookChannelTemplate,
+} from "@/types";
 
 const STATUS_OPTIONS: {
   value: ApprovalStatus;
@@ -42,8 +95,16 @@ interface StageDraft {
   status: ApprovalStatus;
   description: string;
   actorUserId: string;
+  assignment?: StageAssignment;
+  approvers?: StageApprovers;
+  sla?: StageSla;
   notifySupervisor: boolean;
   ccActor: boolean;
+  /** Custom subject and bodies; the builder writes a default one otherwise. */
+  template?: Pick<
+    StageNotificationTemplate,
+    "subject" | "body" | "html" | "email" | "webhook" | "inApp"
+  >;
   isFinal?: boolean;
   transitions: StageTransitionDraft[];
   position: {
@@ -75,10 +136,28 @@ interface BuilderPreset {
   flowName: string;
   flowVersion: string;
   stages: StageDraft[];
+  payloadFields: PayloadFieldDraft[];
   domainId?: string;
   subdomainId?: string;
 }
 
+type SaveState =
+  | { status: "idle" | "saving" | "saved" }
+  | { status: "published"; version: string }
+  | { status: "error"; message: string }
+  | { status: "conflict"; message: string };
+
+const VERSION_BUMP_OPTIONS: { value: VersionBump; label: string }[] = [
+  { value: "patch", label: "Patch" },
+  { value: "minor", label: "Minor" },
+  { value: "major", label: "Major" },
+];
+
+const DIFF_CARD_STYLES: Partial<Record<StageChangeKind, string>> = {
+  added: "ring-2 ring-sky-400",
+  changed: "ring-2 ring-amber-300",
+};
+
 interface RuleBuilderProps {
   users: User[];
   domains: Domain[];
@@ -164,7 +243,7 @@ function createInitialPreset(users: User[]): BuilderPreset {
           targetStageId: stageIds.ops,
           targetStageName: "Operations validation",
           label: "Submit for triage",
-          conditions: "Business case attached\nBudget validated",
+          conditions: "businessCaseAttached == true\nbudgetValidated == true",
         },
       ],
     },
@@ -184,7 +263,7 @@ function createInitialPreset(users: User[]): BuilderPreset {
           targetStageId: stageIds.final,
           targetStageName: "Final approval",
           label: "Approve hand-off",
-          conditions: "Vendor SLA confirmed\nSettlement runbook updated",
+          conditions: "vendorSlaVerified == true\nsettlementConfirmed == true",
         },
         {
           id: createStageId(),
@@ -192,7 +271,7 @@ function createInitialPreset(users: User[]): BuilderPreset {
           targetStageName: "Rejected",
           targetStageStatus: "reject",
           label: "Reject for rework",
-          conditions: "Critical documentation missing",
+          conditions: "",
         },
       ],
     },
@@ -244,6 +323,30 @@ function createInitialPreset(users: User[]): BuilderPreset {
     flowName: "New Approval Flow",
     flowVersion: "1.0.0",
     stages,
+    payloadFields: toPayloadFieldDrafts([
+      {
+        name: "businessCaseAttached",
+        label: "Business case attached",
+        type: "boolean",
+        required: true,
+      },
+      { name: "budgetValidated", label: "Budget validated", type: "boolean" },
+      {
+        name: "vendorSlaVerified",
+        label: "Vendor SLA verified",
+        type: "boolean",
+      },
+      {
+        name: "settlementConfirmed",
+        label: "Settlement confirmed",
+        type: "boolean",
+      },
+      {
+        name: "documentationComplete",
+        label: "Documentation complete",
+        type: "boolean",
+      },
+    ]),
   };
 }
 
@@ -256,14 +359,15 @@ function buildPresetFromFlow(
   users: User[],
 ): BuilderPreset {
   const fallbackActorId = users[0]?.id ?? "";
+  const definition = context.flow.draft?.definition ?? context.flow.definition;
   const statusToStageId = new Map<ApprovalStatus, string>();
   const stageMetaMap = new Map(
-    context.flow.definition.stages.map((stage) => [stage.id, stage]),
+    definition.stages.map((stage) => [stage.id, stage]),
   );
-  context.flow.definition.stages.forEach((stage) => {
+  definition.stages.forEach((stage) => {
     statusToStageId.set(stage.status, stage.id);
   });
-  const stageDrafts: StageDraft[] = context.flow.definition.stages.map(
+  const stageDrafts: StageDraft[] = definition.stages.map(
     (stage, index) => {
       return {
         id: stage.id || createStageId(),
@@ -271,8 +375,21 @@ function buildPresetFromFlow(
         status: stage.status,
         description: stage.description,
         actorUserId: stage.actorUserId ?? fallbackActorId,
+        assignment: stage.assignment,
+        approvers: stage.approvers,
+        sla: stage.sla,
         notifySupervisor: stage.notification?.sendToActorSupervisor ?? false,
         ccActor: stage.notification?.ccActor ?? false,
+        template: stage.notification
+          ? {
+              subject: stage.notification.subject,
+              body: stage.notification.body,
+              html: stage.notification.html,
+              email: stage.notification.email,
+              webhook: stage.notification.webhook,
+              inApp: stage.notification.inApp,
+            }
+          : undefined,
         isFinal: isLockedFinalStatus(stage.status),
         transitions: (stage.transitions ?? []).map((transition) => {
           const resolvedTargetId =
@@ -301,6 +418,7 @@ function buildPresetFromFlow(
     flowName: context.flow.name,
     flowVersion: context.flow.version,
     stages: stageDrafts,
+    payloadFields: toPayloadFieldDrafts(definition.payloadSchema),
     domainId: context.domain.id,
     subdomainId: context.subdomain.id,
   };
@@ -313,6 +431,18 @@ function conditionsToArray(value: string) {
     .filter(Boolean);
 }
 
+function listConditionErrors(value: string, knownFields: Set<string> | null) {
+  return conditionsToArray(value).flatMap((condition, index) => {
+    const parsed = parseCondition(condition);
+    const issues = parsed.ok
+      ? listConditionFields(parsed.expression)
+          .filter((field) => knownFields && !knownFields.has(field))
+          .map((field) => `Unknown request field "${field}".`)
+      : parsed.issues;
+    return issues.map((issue) => `Line ${index + 1}: ${issue}`);
+  });
+}
+
 function sortStagesForFlow(stages: StageDraft[]) {
   return stages
     .slice()
@@ -324,6 +454,125 @@ function sortStagesForFlow(stages: StageDraft[]) {
     );
 }
 
+const TEMPLATE_VARIABLE_NAMES = Object.keys(notificationTemplateVariables());
+
+function defaultStageTemplate(flowName: string, stageName: string) {
+  return {
+    subject: `${flowName} · ${stageName}`,
+    body: `{{actorName}} progressed ${flowName} into the ${stageName} stage for {{domainName}} · {{subdomainName}}.`,
+  };
+}
+
+function defaultWebhookTemplate(): WebhookChannelTemplate {
+  return {
+    url: "",
+    text: "{{approvalTitle}} is waiting on {{actorName}} in {{stageName}}.",
+    audience: ["assignees"],
+  };
+}
+
+function defaultInAppTemplate(): InAppChannelTemplate {
+  return {
+    audience: ["assignees"],
+    title: "{{approvalTitle}} needs your review",
+    body: "{{flowName}} · {{stageName}}",
+  };
+}
+
+const AUDIENCE_LABELS: Record<NotificationAudience, string> = {
+  assignees: "Assignees",
+  supervisors: "Supervisors",
+  requester: "Requester",
+};
+
+function toggleAudience(
+  audience: NotificationAudience[] | undefined,
+  group: NotificationAudience,
+  checked: boolean,
+) {
+  const current = audience ?? [];
+  return checked
+    ? [...current.filter((item) => item !== group), group]
+    : current.filter((item) => item !== group);
+}
+
+function createAssignment(
+  kind: StageAssignmentKind,
+  actor: User | undefined,
+  users: User[],
+  payloadFields: PayloadFieldDraft[],
+): StageAssignment {
+  switch (kind) {
+    case "role":
+      return { kind, role: actor?.role ?? listUserRoles(users)[0] ?? "" };
+    case "group":
+      return {
+        kind,
+        group: actor?.groups?.[0] ?? listUserGroups(users)[0] ?? "",
+      };
+    case "requester-supervisor":
+      return { kind };
+    case "payload-field":
+      return {
+        kind,
+        field:
+          payloadFields.find((field) => field.type === "string")?.name ?? "",
+      };
+  }
+}
+
+function initials(name: string | undefined) {
+  return (name ?? "?")
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+}
+
+/**
+ * Canvas glyph for a parallel stage: the flow forks to every sign-off and
+ * joins again once the quorum is met.
+ */
+function SignOffJoin({
+  approvers,
+  userMap,
+}: {
+  approvers: StageApprovers;
+  userMap: Record<string, User>;
+}) {
+  const visible = approvers.userIds.slice(0, 4);
+  const hidden = approvers.userIds.length - visible.length;
+
+  return (
+    <div
+      className="flex items-center gap-1 text-[10px] text-slate-300"
+      title={approvers.userIds
+        .map((id) => userMap[id]?.name ?? id)
+        .join(", ")}
+    >
+      <span className="h-2 w-2 rotate-45 bg-emerald-300" aria-hidden />
+      <span className="flex items-center gap-0.5 rounded-md border-x-2 border-emerald-300/70 px-1">
+        {visible.map((id) => (
+          <span
+            key={id}
+            className="rounded-full bg-white/15 px-1.5 py-0.5 text-[9px] font-semibold text-slate-100"
+          >
+            {initials(userMap[id]?.name)}
+          </span>
+        ))}
+        {hidden > 0 ? (
+          <span className="text-[9px] text-slate-300">+{hidden}</span>
+        ) : null}
+      </span>
+      <span className="h-2 w-2 rotate-45 bg-emerald-300" aria-hidden />
+      <span className="ml-1 font-semibold uppercase tracking-wide text-emerald-200">
+        {describeQuorum(approvers)}
+      </span>
+    </div>
+  );
+}
+
 export function RuleBuilder({
   users,
   domains,
@@ -339,10 +588,14 @@ export function RuleBuilder({
   );
   const currentPreset = editPreset ?? defaultPreset;
   const isEditing = Boolean(initialFlowContext);
+  const router = useRouter();
 
   const [flowName, setFlowName] = useState(currentPreset.flowName);
   const [flowVersion, setFlowVersion] = useState(currentPreset.flowVersion);
   const [stages, setStages] = useState<StageDraft[]>(currentPreset.stages);
+  const [payloadFields, setPayloadFields] = useState<PayloadFieldDraft[]>(
+    currentPreset.payloadFields,
+  );
   const [selectedStageId, setSelectedStageId] = useState(
     currentPreset.stages[0]?.id ?? "",
   );
@@ -358,6 +611,12 @@ export function RuleBuilder({
   );
   const [zoom, setZoom] = useState(1);
   const [copied, setCopied] = useState(false);
+  const [saveState, setSaveState] = useState<SaveState>({ status: "idle" });
+  const [flowRevision, setFlowRevision] = useState(
+    initialFlowContext?.flow.revision ?? 0,
+  );
+  const [versionBump, setVersionBump] = useState<VersionBump>("minor");
+  const [showDiff, setShowDiff] = useState(false);
   const [isStageModalOpen, setIsStageModalOpen] = useState(false);
   const [isJsonModalOpen, setIsJsonModalOpen] = useState(false);
   const [linkSourceStageId, setLinkSourceStageId] = useState<string | null>(
@@ -417,6 +676,7 @@ export function RuleBuilder({
       setFlowName(presetToApply.flowName);
       setFlowVersion(presetToApply.flowVersion);
       setStages(presetToApply.stages);
+      setPayloadFields(presetToApply.payloadFields);
       setSelectedStageId(presetToApply.stages[0]?.id ?? "");
       const fallbackDomainId = presetToApply.domainId ?? domains[0]?.id ?? "";
       setSelectedDomainId(fallbackDomainId);
@@ -576,6 +836,22 @@ export function RuleBuilder({
   }, [stages]);
   const selectedStage =
     stages.find((stage) => stage.id === selectedStageId) ?? stages[0] ?? null;
+  const payloadSchema = useMemo(
+    () =>
+      payloadFields.length > 0 ? toPayloadSchema(payloadFields) : undefined,
+    [payloadFields],
+  );
+  const conditionErrorsByBranch = useMemo(() => {
+    const knownFields = payloadSchema
+      ? new Set(payloadSchema.map((field) => field.name))
+      : null;
+    return new Map(
+      (selectedStage?.transitions ?? []).map((branch) => [
+        branch.id,
+        listConditionErrors(branch.conditions, knownFields),
+      ]),
+    );
+  }, [payloadSchema, selectedStage]);
 
   const stageBounds = useMemo(() => {
     return stages.reduce(
@@ -618,16 +894,25 @@ export function RuleBuilder({
                 to: ApprovalStatus;
                 targetStageId: string;
                 targetStageName: string;
-                label?: string;
+                label: string | undefined;
                 conditions: string[];
               } => Boolean(transition),
             );
 
-    const notification =
-      stage.notifySupervisor || stage.ccActor
+    const notification = stage.template
+      ? {
+          subject: stage.template.subject,
+          body: stage.template.body,
+          html: stage.template.html || undefined,
+          email: stage.template.email,
+          webhook: stage.template.webhook,
+          inApp: stage.template.inApp,
+          sendToActorSupervisor: stage.notifySupervisor,
+          ccActor: stage.ccActor,
+        }
+      : stage.notifySupervisor || stage.ccActor
         ? {
-            subject: `${flowName} · ${stage.name}`,
-            body: `{{actorName}} progressed ${flowName} into the ${stage.name} stage for {{domainName}} · {{subdomainName}}.`,
+            ...defaultStageTemplate(flowName, stage.name),
             sendToActorSupervisor: stage.notifySupervisor,
             ccActor: stage.ccActor,
           }
@@ -640,6 +925,12 @@ export function RuleBuilder({
       description: stage.description,
       actor: actor?.role ?? "Process Owner",
       actorUserId: stage.actorUserId,
+      assignment: stage.assignment,
+      approvers:
+        stage.approvers && stage.approvers.userIds.length > 0
+          ? stage.approvers
+          : undefined,
+      sla: stageIsFinal ? undefined : stage.sla,
       isFinal: stageIsFinal,
       transitions,
       notification,
@@ -658,7 +949,7 @@ export function RuleBuilder({
           subdomain: selectedSubdomainId,
           domainName: selectedDomain?.name ?? "",
           subdomainName: selectedSubdomain?.name ?? "",
-          definition: { stages: stagePayload },
+          definition: { stages: stagePayload, payloadSchema },
         },
         null,
         2,
@@ -671,9 +962,70 @@ export function RuleBuilder({
       selectedDomain?.name,
       selectedSubdomain?.name,
       stagePayload,
+      payloadSchema,
     ],
   );
 
+  const canvasDiff = useMemo(
+    () =>
+      showDiff && initialFlowContext
+        ? diffFlowDefinitions(initialFlowContext.flow.definition, {
+            stages: stagePayload,
+          })
+        : null,
+    [initialFlowContext, showDiff, stagePayload],
+  );
+  const stageDiffKinds = useMemo(
+    () =>
+      new Map(
+        (canvasDiff?.stages ?? []).map((stage) => [stage.stageId, stage.kind]),
+      ),
+    [canvasDiff],
+  );
+  const addedEdgeKeys = useMemo(
+    () => new Set((canvasDiff?.addedTransitions ?? []).map((edge) => edge.key)),
+    [canvasDiff],
+  );
+  const removedConnectors = useMemo(
+    () =>
+      (canvasDiff?.removedTransitions ?? []).flatMap((edge) => {
+        const source = stageById.get(edge.fromStageId);
+        const target = stageById.get(edge.toStageId);
+        if (!source || !target) {
+          return [];
+        }
+        return [
+          {
+            id: edge.key,
+            start: {
+              x: source.position.x + CARD_WIDTH,
+              y: source.position.y + CARD_HEIGHT / 2,
+            },
+            end: {
+              x: target.position.x,
+              y: target.position.y + CARD_HEIGHT / 2,
+            },
+          },
+        ];
+      }),
+    [canvasDiff, stageById],
+  );
+  const diffChangeCount = canvasDiff
+    ? canvasDiff.stages.filter((stage) => stage.kind !== "unchanged").length +
+      canvasDiff.addedTransitions.length +
+      canvasDiff.removedTransitions.length
+    : 0;
+
+  const selectedStagePayload = stagePayload.find(
+    (stage) => stage.id === selectedStage?.id,
+  );
+  const selectedSlaIssues = selectedStagePayload
+    ? validateStageSla(selectedStagePayload, { stages: stagePayload })
+    : [];
+  const selectedTemplateIssues = selectedStage?.template
+    ? lintNotificationTemplate(selectedStage.template, payloadSchema)
+    : [];
+
   const workspaceWidth = Math.max(
     CANVAS_WIDTH + WORKSPACE_BUFFER,
     stageBounds.maxX + CARD_WIDTH + CANVAS_PADDING + WORKSPACE_BUFFER,
@@ -801,6 +1153,90 @@ export function RuleBuilder({
     );
   };
 
+  const updateStageApprovers = (
+    stage: StageDraft,
+    updates: Partial<StageApprovers>,
+  ) => {
+    if (!stage.approvers) {
+      return;
+    }
+    handleStageChange(stage.id, {
+      approvers: { ...stage.approvers, ...updates },
+    });
+  };
+
+  const toggleStageApprover = (stage: StageDraft, userId: string) => {
+    if (!stage.approvers) {
+      return;
+    }
+    const selected = new Set(stage.approvers.userIds);
+    if (selected.has(userId)) {
+      selected.delete(userId);
+    } else {
+      selected.add(userId);
+    }
+    const userIds = users
+      .map((user) => user.id)
+      .filter((id) => selected.has(id));
+    updateStageApprovers(stage, {
+      userIds,
+      required:
+        stage.approvers.policy === "n-of-m"
+          ? clamp(stage.approvers.required ?? 1, 1, Math.max(userIds.length, 1))
+          : undefined,
+    });
+  };
+
+  const updateStageSla = (stage: StageDraft, updates: Partial<StageSla>) => {
+    if (!stage.sla) {
+      return;
+    }
+    handleStageChange(stage.id, { sla: { ...stage.sla, ...updates } });
+  };
+
+  const updateStageTemplate = (
+    stage: StageDraft,
+    updates: Partial<NonNullable<StageDraft["template"]>>,
+  ) => {
+    if (!stage.template) {
+      return;
+    }
+    handleStageChange(stage.id, { template: { ...stage.template, ...updates } });
+  };
+
+  const updateWebhook = (
+    stage: StageDraft,
+    updates: Partial<WebhookChannelTemplate>,
+  ) => {
+    if (!stage.template?.webhook) {
+      return;
+    }
+    updateStageTemplate(stage, {
+      webhook: { ...stage.template.webhook, ...updates },
+    });
+  };
+
+  const updateInApp = (
+    stage: StageDraft,
+    updates: Partial<InAppChannelTemplate>,
+  ) => {
+    if (!stage.template?.inApp) {
+      return;
+    }
+    updateStageTemplate(stage, {
+      inApp: { ...stage.template.inApp, ...updates },
+    });
+  };
+
+  const updateEscalationSteps = (
+    stage: StageDraft,
+    escalation: EscalationStep[],
+  ) => {
+    updateStageSla(stage, {
+      escalation: escalation.length > 0 ? escalation : undefined,
+    });
+  };
+
   const addStage = () => {
     const nextIndex = stages.length;
     const lastStage = orderedStages[orderedStages.length - 1];
@@ -888,6 +1324,88 @@ export function RuleBuilder({
     }
   };
 
+  const persistFlow = async (): Promise<ApprovalFlow | null> => {
+    const flowId = initialFlowContext?.flow.id;
+    const response = await fetch(
+      flowId ? `/api/rules/${flowId}` : "/api/rules",
+      {
+        method: flowId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: flowName,
+          version: flowVersion,
+          description:
+            initialFlowContext?.flow.description ??
+            "Drafted via interactive canvas",
+          domainId: selectedDomain?.id,
+          subdomainId: selectedSubdomain?.id,
+          definition: { stages: stagePayload, payloadSchema },
+          revision: flowId ? flowRevision : undefined,
+        }),
+      },
+    );
+    const payload = await response.json();
+    if (!response.ok) {
+      setSaveState({
+        status: response.status === 409 ? "conflict" : "error",
+        message: payload?.error ?? "Unable to save flow.",
+      });
+      return null;
+    }
+    setFlowRevision(payload.flow.revision ?? 0);
+    return payload.flow;
+  };
+
+  const saveFlow = async () => {
+    setSaveState({ status: "saving" });
+    try {
+      const savedFlow = await persistFlow();
+      if (!savedFlow) {
+        return;
+      }
+      setSaveState({ status: "saved" });
+      setTimeout(() => setSaveState({ status: "idle" }), 2000);
+      if (!initialFlowContext) {
+        router.replace(`/dashboard/rules/new?flowId=${savedFlow.id}`);
+      }
+      router.refresh();
+    } catch {
+      setSaveState({ status: "error", message: "Unable to reach the server." });
+    }
+  };
+
+  const publishFlow = async () => {
+    setSaveState({ status: "saving" });
+    try {
+      const savedFlow = await persistFlow();
+      if (!savedFlow) {
+        return;
+      }
+      const response = await fetch(`/api/rules/${savedFlow.id}/publish`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          bump: versionBump,
+          revision: savedFlow.revision ?? 0,
+        }),
+      });
+      const payload = await response.json();
+      if (!response.ok) {
+        setSaveState({
+          status: response.status === 409 ? "conflict" : "error",
+          message: payload?.error ?? "Unable to publish flow.",
+        });
+        return;
+      }
+      setFlowRevision(payload.flow.revision ?? 0);
+      setFlowVersion(payload.flow.version);
+      setSaveState({ status: "published", version: payload.flow.version });
+      router.refresh();
+    } catch {
+      setSaveState({ status: "error", message: "Unable to reach the server." });
+    }
+  };
+
   const startLinkingFromStage = (stageId: string) => {
     if (isSpacePressed) {
       return;
@@ -1032,6 +1550,7 @@ export function RuleBuilder({
       id: string;
       transitionId: string;
       sourceStageId: string;
+      targetStageId: string;
       start: { x: number; y: number };
       end: { x: number; y: number };
     }[] = [];
@@ -1052,6 +1571,7 @@ export function RuleBuilder({
           id: `${stage.id}-${transition.id}`,
           transitionId: transition.id,
           sourceStageId: stage.id,
+          targetStageId: target.id,
           start: {
             x: stage.position.x + CARD_WIDTH,
             y: stage.position.y + CARD_HEIGHT / 2,
@@ -1106,11 +1626,105 @@ export function RuleBuilder({
           >
             View JSON
           </button>
+          <button
+            type="button"
+            onClick={saveFlow}
+            disabled={saveState.status === "saving"}
+            className="inline-flex items-center rounded-lg border border-emerald-500 bg-emerald-500 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-emerald-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saveState.status === "saving"
+              ? "Saving…"
+              : isEditing
+                ? "Save draft"
+                : "Save flow"}
+          </button>
+          {isEditing ? (
+            <div className="inline-flex items-center overflow-hidden rounded-lg border border-slate-900">
+              <select
+                value={versionBump}
+                onChange={(event) =>
+                  setVersionBump(event.target.value as VersionBump)
+                }
+                aria-label="Version bump"
+                className="border-none bg-white px-2 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 focus:outline-none"
+              >
+                {VERSION_BUMP_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={publishFlow}
+                disabled={saveState.status === "saving"}
+                className="bg-slate-900 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Publish
+              </button>
+            </div>
+          ) : null}
+          {saveState.status === "saved" ? (
+            <span className="inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-700">
+              {isEditing ? "Draft saved" : "Flow saved"}
+            </span>
+          ) : null}
+          {saveState.status === "published" ? (
+            <span className="inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-700">
+              Published v{saveState.version}
+            </span>
+          ) : null}
+          {isEditing && initialFlowContext?.flow.draft ? (
+            <span className="inline-flex items-center rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-700">
+              Unpublished draft
+            </span>
+          ) : null}
+          {saveState.status === "error" ? (
+            <span className="inline-flex items-center rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-[11px] font-semibold text-rose-700">
+              {saveState.message}
+            </span>
+          ) : null}
+          {saveState.status === "conflict" ? (
+            <span className="inline-flex items-center gap-2 rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-[11px] font-semibold text-rose-700">
+              {saveState.message}
+              <button
+                type="button"
+                onClick={() => window.location.reload()}
+                className="rounded-full border border-rose-300 bg-white px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-rose-700 transition hover:bg-rose-100"
+              >
+                Reload
+              </button>
+            </span>
+          ) : null}
           {jsonRecentlyUpdated ? (
             <span className="inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-emerald-700">
               JSON updated
             </span>
           ) : null}
+          {isEditing ? (
+            <button
+              type="button"
+              onClick={() => setShowDiff((value) => !value)}
+              className={[
+                "inline-flex items-center rounded-lg border px-3 py-2 text-xs font-semibold uppercase tracking-wide transition",
+                showDiff
+                  ? "border-amber-300 bg-amber-50 text-amber-700"
+                  : "border-slate-200 bg-white text-slate-600 hover:bg-slate-100",
+              ].join(" ")}
+            >
+              {showDiff
+                ? `${diffChangeCount} change(s) vs v${initialFlowContext?.flow.version}`
+                : "Highlight changes"}
+            </button>
+          ) : null}
+          {showDiff && initialFlowContext?.flow.draft ? (
+            <Link
+              href={`/dashboard/rules/diff?flowId=${initialFlowContext.flow.id}&target=draft&base=${initialFlowContext.flow.version}`}
+              className="inline-flex items-center rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 transition hover:bg-slate-100"
+            >
+              Saved draft diff
+            </Link>
+          ) : null}
         </div>
       </header>
 
@@ -1133,6 +1747,12 @@ export function RuleBuilder({
                   type="text"
                   value={flowVersion}
                   onChange={(event) => setFlowVersion(event.target.value)}
+                  readOnly={isEditing}
+                  title={
+                    isEditing
+                      ? "Published version. Publish the draft to bump it."
+                      : undefined
+                  }
                   className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
                 />
               </label>
@@ -1166,6 +1786,17 @@ export function RuleBuilder({
                 </select>
               </label>
             </div>
+            <details className="mt-4 rounded-xl border border-slate-200 bg-white/60 px-4 py-3">
+              <summary className="cursor-pointer text-xs font-semibold uppercase tracking-wide text-slate-500">
+                Request fields ({payloadFields.length})
+              </summary>
+              <div className="mt-3">
+                <PayloadSchemaEditor
+                  fields={payloadFields}
+                  onChange={setPayloadFields}
+                />
+              </div>
+            </details>
             <div className="mt-4 flex flex-wrap items-center gap-3">
               <div className="flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold uppercase tracking-wide text-slate-500">
                 Zoom
@@ -1232,6 +1863,13 @@ export function RuleBuilder({
               double-click a dashed connector to unlink, and hold Space + drag
               anywhere on the canvas to pan when you need extra room.
             </p>
+            {canvasDiff ? (
+              <p className="mt-2 text-xs text-amber-700">
+                Sky rings mark added stages and amber rings changed stages.
+                Sky connectors are new transitions; rose dotted connectors were
+                removed since v{initialFlowContext?.flow.version}.
+              </p>
+            ) : null}
           </div>
 
           <div
@@ -1263,6 +1901,20 @@ export function RuleBuilder({
                   height={workspaceHeight}
                   className="absolute inset-0"
                 >
+                  {removedConnectors.map((connector) => (
+                    <line
+                      key={`removed-${connector.id}`}
+                      x1={connector.start.x}
+                      y1={connector.start.y}
+                      x2={connector.end.x}
+                      y2={connector.end.y}
+                      stroke="rgba(244, 63, 94, 0.7)"
+                      strokeWidth={2}
+                      strokeLinecap="round"
+                      strokeDasharray="2 6"
+                      pointerEvents="none"
+                    />
+                  ))}
                   {connectors.map((connector) => (
                     <line
                       key={connector.id}
@@ -1270,7 +1922,13 @@ export function RuleBuilder({
                       y1={connector.start.y}
                       x2={connector.end.x}
                       y2={connector.end.y}
-                      stroke="rgba(16, 185, 129, 0.6)"
+                      stroke={
+                        addedEdgeKeys.has(
+                          `${connector.sourceStageId}->${connector.targetStageId}`,
+                        )
+                          ? "rgba(56, 189, 248, 0.9)"
+                          : "rgba(16, 185, 129, 0.6)"
+                      }
                       strokeWidth={3}
                       strokeLinecap="round"
                       strokeDasharray="6 6"
@@ -1343,6 +2001,8 @@ export function RuleBuilder({
                         isLinkTargetCandidate
                           ? "border-emerald-300/70"
                           : "",
+                        DIFF_CARD_STYLES[stageDiffKinds.get(stage.id) ?? "unchanged"] ??
+                          "",
                       ].join(" ")}
                     >
                       <div className="flex items-center justify-between text-[10px] font-semibold uppercase tracking-wide text-slate-300">
@@ -1407,14 +2067,30 @@ export function RuleBuilder({
                           {stage.description}
                         </p>
                       </div>
-                      <div className="text-xs text-slate-300">
-                        Actor:{" "}
-                        <span className="text-slate-100">
-                          {actor?.name ?? "Unassigned"}
+                      {stage.approvers ? (
+                        <SignOffJoin
+                          approvers={stage.approvers}
+                          userMap={userMap}
+                        />
+                      ) : (
+                        <div className="text-xs text-slate-300">
+                          Actor:{" "}
+                          <span className="text-slate-100">
+                            {stage.assignment
+                              ? describeAssignment(stage.assignment)
+                              : (actor?.name ?? "Unassigned")}
+                          </span>
+                        </div>
+                      )}
+                      <div className="mt-auto flex items-center justify-between gap-2 text-[10px] font-semibold uppercase tracking-wide text-emerald-300">
+                        <span>
+                          {stage.notifySupervisor ? "Notifies supervisor" : "Silent"}
                         </span>
-                      </div>
-                      <div className="mt-auto text-[10px] font-semibold uppercase tracking-wide text-emerald-300">
-                        {stage.notifySupervisor ? "Notifies supervisor" : "Silent"}
+                        {stage.sla && !isFinal ? (
+                          <span className="rounded-full border border-amber-300/60 px-2 py-0.5 text-amber-200">
+                            {describeSla(stage.sla)}
+                          </span>
+                        ) : null}
                       </div>
                     </button>
                   </div>
@@ -1526,6 +2202,258 @@ export function RuleBuilder({
                         ))}
                       </select>
                     </label>
+                    <div className="space-y-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      <label className="block">
+                        Assign by
+                        <select
+                          value={selectedStage.assignment?.kind ?? "actor"}
+                          onChange={(event) =>
+                            handleStageChange(selectedStage.id, {
+                              assignment:
+                                event.target.value === "actor"
+                                  ? undefined
+                                  : createAssignment(
+                                      event.target.value as StageAssignmentKind,
+                                      userMap[selectedStage.actorUserId],
+                                      users,
+                                      payloadFields,
+                                    ),
+                            })
+                          }
+                          className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                        >
+                          <option value="actor">Actor (fixed user)</option>
+                          {ASSIGNMENT_KINDS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      {selectedStage.assignment?.kind === "role" ? (
+                        <label className="block">
+                          Role
+                          <select
+                            value={selectedStage.assignment.role}
+                            onChange={(event) =>
+                              handleStageChange(selectedStage.id, {
+                                assignment: {
+                                  kind: "role",
+                                  role: event.target.value,
+                                },
+                              })
+                            }
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                          >
+                            {listUserRoles(users).map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      ) : null}
+                      {selectedStage.assignment?.kind === "group" ? (
+                        <label className="block">
+                          Group
+                          <input
+                            type="text"
+                            list="rule-builder-groups"
+                            value={selectedStage.assignment.group}
+                            onChange={(event) =>
+                              handleStageChange(selectedStage.id, {
+                                assignment: {
+                                  kind: "group",
+                                  group: event.target.value,
+                                },
+                              })
+                            }
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                          />
+                          <datalist id="rule-builder-groups">
+                            {listUserGroups(users).map((group) => (
+                              <option key={group} value={group} />
+                            ))}
+                          </datalist>
+                        </label>
+                      ) : null}
+                      {selectedStage.assignment?.kind === "requester-supervisor" ? (
+                        <label className="block">
+                          Levels up the supervisor chain
+                          <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={selectedStage.assignment.levels ?? 1}
+                            onChange={(event) =>
+                              handleStageChange(selectedStage.id, {
+                                assignment: {
+                                  kind: "requester-supervisor",
+                                  levels:
+                                    Number(event.target.value) > 1
+                                      ? Number(event.target.value)
+                                      : undefined,
+                                },
+                              })
+                            }
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                          />
+                        </label>
+                      ) : null}
+                      {selectedStage.assignment?.kind === "payload-field" ? (
+                        <label className="block">
+                          Payload field (user id or email)
+                          <select
+                            value={selectedStage.assignment.field}
+                            onChange={(event) =>
+                              handleStageChange(selectedStage.id, {
+                                assignment: {
+                                  kind: "payload-field",
+                                  field: event.target.value,
+                                },
+                              })
+                            }
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                          >
+                            <option value="">Select a field…</option>
+                            {payloadFields
+                              .filter((field) => field.type === "string")
+                              .map((field) => (
+                                <option key={field.id} value={field.name}>
+                                  {field.label || field.name}
+                                </option>
+                              ))}
+                          </select>
+                        </label>
+                      ) : null}
+                      <p className="text-[11px] font-normal normal-case tracking-normal text-slate-500">
+                        {selectedStage.approvers
+                          ? "Parallel sign-off below takes precedence over this rule."
+                          : selectedStage.assignment
+                            ? "Resolved when an approval enters the stage. The actor above is used when nobody matches."
+                            : "The actor above is always assigned."}
+                      </p>
+                      {validateStageAssignment(
+                        selectedStage.name,
+                        selectedStage.assignment,
+                        payloadSchema,
+                      ).map((issue) => (
+                        <p
+                          key={issue}
+                          className="text-[11px] font-normal normal-case tracking-normal text-rose-600"
+                        >
+                          {issue}
+                        </p>
+                      ))}
+                    </div>
+                    <div className="space-y-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      <label className="flex items-center justify-between gap-3">
+                        <span>Parallel sign-off</span>
+                        <input
+                          type="checkbox"
+                          checked={Boolean(selectedStage.approvers)}
+                          onChange={(event) =>
+                            handleStageChange(selectedStage.id, {
+                              approvers: event.target.checked
+                                ? {
+                                    userIds: selectedStage.actorUserId
+                                      ? [selectedStage.actorUserId]
+                                      : [],
+                                    policy: "all-of",
+                                  }
+                                : undefined,
+                            })
+                          }
+                          className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                        />
+                      </label>
+                      {selectedStage.approvers ? (
+                        <>
+                          <p className="text-[11px] font-normal normal-case tracking-normal text-slate-500">
+                            The stage forks to every selected approver and only
+                            follows a transition once the quorum is met.
+                          </p>
+                          <div className="grid gap-1 sm:grid-cols-2">
+                            {users.map((user) => (
+                              <label
+                                key={user.id}
+                                className="flex items-center gap-2 text-[11px] font-normal normal-case tracking-normal text-slate-600"
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={selectedStage.approvers?.userIds.includes(
+                                    user.id,
+                                  )}
+                                  onChange={() =>
+                                    toggleStageApprover(selectedStage, user.id)
+                                  }
+                                  className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                                />
+                                {user.name} · {user.role}
+                              </label>
+                            ))}
+                          </div>
+                          <div className="grid gap-2 sm:grid-cols-2">
+                            <label>
+                              Quorum
+                              <select
+                                value={selectedStage.approvers.policy}
+                                onChange={(event) => {
+                                  const policy = event.target
+                                    .value as QuorumPolicy;
+                                  updateStageApprovers(selectedStage, {
+                                    policy,
+                                    required:
+                                      policy === "n-of-m"
+                                        ? Math.max(
+                                            selectedStage.approvers?.userIds
+                                              .length ?? 1,
+                                            1,
+                                          )
+                                        : undefined,
+                                  });
+                                }}
+                                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                              >
+                                {QUORUM_POLICIES.map((option) => (
+                                  <option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </label>
+                            {selectedStage.approvers.policy === "n-of-m" ? (
+                              <label>
+                                Required sign-offs
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={selectedStage.approvers.userIds.length}
+                                  value={selectedStage.approvers.required ?? 1}
+                                  onChange={(event) =>
+                                    updateStageApprovers(selectedStage, {
+                                      required: Number(event.target.value),
+                                    })
+                                  }
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                />
+                              </label>
+                            ) : null}
+                          </div>
+                          {validateStageApprovers(
+                            selectedStage.name,
+                            selectedStage.approvers,
+                          ).map((issue) => (
+                            <p
+                              key={issue}
+                              className="text-[11px] font-normal normal-case tracking-normal text-rose-600"
+                            >
+                              {issue}
+                            </p>
+                          ))}
+                        </>
+                      ) : null}
+                    </div>
                     <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
                       <label className="flex items-center justify-between gap-3">
                         <span>Final state</span>
@@ -1640,7 +2568,7 @@ export function RuleBuilder({
                                 />
                               </label>
                               <label className="text-xs font-semibold uppercase tracking-wide text-slate-500">
-                                Conditions (one per line)
+                                Conditions (one expression per line, all must hold)
                                 <textarea
                                   value={branch.conditions}
                                   onChange={(event) =>
@@ -1649,14 +2577,205 @@ export function RuleBuilder({
                                     })
                                   }
                                   rows={3}
-                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                  placeholder={'amount > 10000 && region == "EU"'}
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
                                 />
                               </label>
+                              {conditionErrorsByBranch.get(branch.id)?.length ? (
+                                <ul className="space-y-1 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-700">
+                                  {conditionErrorsByBranch.get(branch.id)?.map((error) => (
+                                    <li key={error}>{error}</li>
+                                  ))}
+                                </ul>
+                              ) : null}
                             </div>
                           ))}
                         </div>
                       )}
                     </div>
+                    <div className="space-y-2 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      <label className="flex items-center justify-between gap-3">
+                        <span>SLA timer</span>
+                        <input
+                          type="checkbox"
+                          checked={Boolean(selectedStage.sla)}
+                          disabled={stageIsFinal}
+                          onChange={(event) =>
+                            handleStageChange(selectedStage.id, {
+                              sla: event.target.checked
+                                ? {
+                                    dueInHours: 48,
+                                    escalation: [
+                                      { afterHours: 0, action: "remind" },
+                                    ],
+                                  }
+                                : undefined,
+                            })
+                          }
+                          className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                        />
+                      </label>
+                      {selectedStage.sla && !stageIsFinal ? (
+                        <>
+                          <label className="block">
+                            Due after (hours)
+                            <input
+                              type="number"
+                              min={1}
+                              value={selectedStage.sla.dueInHours}
+                              onChange={(event) =>
+                                updateStageSla(selectedStage, {
+                                  dueInHours: Number(event.target.value),
+                                })
+                              }
+                              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                            />
+                          </label>
+                          <p className="text-[11px] font-normal normal-case tracking-normal text-slate-500">
+                            Once due, steps run in order of hours overdue. Each
+                            escalation goes one supervisor further up.
+                          </p>
+                          <ul className="space-y-2">
+                            {(selectedStage.sla.escalation ?? []).map(
+                              (step, index, steps) => {
+                                const updateStep = (
+                                  updates: Partial<EscalationStep>,
+                                ) =>
+                                  updateEscalationSteps(
+                                    selectedStage,
+                                    steps.map((item, itemIndex) =>
+                                      itemIndex === index
+                                        ? { ...item, ...updates }
+                                        : item,
+                                    ),
+                                  );
+                                return (
+                                  <li
+                                    key={`${selectedStage.id}-sla-${index}`}
+                                    className="grid gap-2 rounded-lg border border-slate-100 bg-slate-50 p-2 sm:grid-cols-[5rem_1fr_auto]"
+                                  >
+                                    <input
+                                      type="number"
+                                      min={0}
+                                      value={step.afterHours}
+                                      aria-label="Hours overdue"
+                                      title="Hours overdue"
+                                      onChange={(event) =>
+                                        updateStep({
+                                          afterHours: Number(event.target.value),
+                                        })
+                                      }
+                                      className="w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                    />
+                                    <div className="grid gap-2">
+                                      <select
+                                        value={step.action}
+                                        aria-label="Escalation action"
+                                        onChange={(event) => {
+                                          const action = event.target
+                                            .value as EscalationAction;
+                                          updateStep({
+                                            action,
+                                            targetStageId:
+                                              action === "auto-transition"
+                                                ? (selectedStage.transitions.find(
+                                                    (transition) =>
+                                                      transition.targetStageId,
+                                                  )?.targetStageId ?? undefined)
+                                                : undefined,
+                                          });
+                                        }}
+                                        className="w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                      >
+                                        {ESCALATION_ACTIONS.map((option) => (
+                                          <option
+                                            key={option.value}
+                                            value={option.value}
+                                          >
+                                            {option.label}
+                                          </option>
+                                        ))}
+                                      </select>
+                                      {step.action === "auto-transition" ? (
+                                        <select
+                                          value={step.targetStageId ?? ""}
+                                          aria-label="Auto-transition target"
+                                          onChange={(event) =>
+                                            updateStep({
+                                              targetStageId:
+                                                event.target.value || undefined,
+                                            })
+                                          }
+                                          className="w-full rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                        >
+                                          <option value="">Select a branch…</option>
+                                          {selectedStage.transitions
+                                            .filter(
+                                              (transition) =>
+                                                transition.targetStageId,
+                                            )
+                                            .map((transition) => (
+                                              <option
+                                                key={transition.id}
+                                                value={
+                                                  transition.targetStageId ?? ""
+                                                }
+                                              >
+                                                {transition.label ||
+                                                  stageById.get(
+                                                    transition.targetStageId ??
+                                                      "",
+                                                  )?.name}
+                                              </option>
+                                            ))}
+                                        </select>
+                                      ) : null}
+                                    </div>
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        updateEscalationSteps(
+                                          selectedStage,
+                                          steps.filter(
+                                            (_, itemIndex) => itemIndex !== index,
+                                          ),
+                                        )
+                                      }
+                                      className="self-start rounded-full border border-rose-200 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-rose-600 transition hover:bg-rose-50"
+                                    >
+                                      Remove
+                                    </button>
+                                  </li>
+                                );
+                              },
+                            )}
+                          </ul>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              const steps = selectedStage.sla?.escalation ?? [];
+                              const lastHours =
+                                steps[steps.length - 1]?.afterHours ?? -24;
+                              updateEscalationSteps(selectedStage, [
+                                ...steps,
+                                { afterHours: lastHours + 24, action: "escalate" },
+                              ]);
+                            }}
+                            className="inline-flex items-center rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100"
+                          >
+                            Add step
+                          </button>
+                          {selectedSlaIssues.map((issue) => (
+                            <p
+                              key={issue}
+                              className="text-[11px] font-normal normal-case tracking-normal text-rose-600"
+                            >
+                              {issue}
+                            </p>
+                          ))}
+                        </>
+                      ) : null}
+                    </div>
                     <div className="space-y-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
                       Notifications
                       <label className="flex items-center gap-2 text-[11px] text-slate-600">
@@ -1685,6 +2804,243 @@ export function RuleBuilder({
                         />
                         CC actor
                       </label>
+                      <label className="flex items-center gap-2 text-[11px] text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(selectedStage.template)}
+                          onChange={(event) =>
+                            handleStageChange(selectedStage.id, {
+                              template: event.target.checked
+                                ? defaultStageTemplate(flowName, selectedStage.name)
+                                : undefined,
+                            })
+                          }
+                          className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                        />
+                        Custom template
+                      </label>
+                      {selectedStage.template ? (
+                        <>
+                          <label className="block text-[11px] text-slate-500">
+                            Subject
+                            <input
+                              type="text"
+                              value={selectedStage.template.subject}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  subject: event.target.value,
+                                })
+                              }
+                              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                            />
+                          </label>
+                          <label className="block text-[11px] text-slate-500">
+                            Text body
+                            <textarea
+                              value={selectedStage.template.body}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  body: event.target.value,
+                                })
+                              }
+                              rows={5}
+                              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                            />
+                          </label>
+                          <label className="block text-[11px] text-slate-500">
+                            HTML body (optional)
+                            <textarea
+                              value={selectedStage.template.html ?? ""}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  html: event.target.value,
+                                })
+                              }
+                              rows={4}
+                              placeholder="<p>{{actorName}} needs your review.</p>"
+                              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                            />
+                          </label>
+                          <label className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <input
+                              type="checkbox"
+                              checked={selectedStage.template.email !== false}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  email: event.target.checked ? undefined : false,
+                                })
+                              }
+                              className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                            />
+                            Send email
+                          </label>
+                          <label className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <input
+                              type="checkbox"
+                              checked={Boolean(selectedStage.template.webhook)}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  webhook: event.target.checked
+                                    ? defaultWebhookTemplate()
+                                    : undefined,
+                                })
+                              }
+                              className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                            />
+                            Webhook
+                          </label>
+                          {selectedStage.template.webhook ? (
+                            <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50 p-3">
+                              <label className="block text-[11px] text-slate-500">
+                                URL
+                                <input
+                                  type="url"
+                                  value={selectedStage.template.webhook.url}
+                                  onChange={(event) =>
+                                    updateWebhook(selectedStage, {
+                                      url: event.target.value,
+                                    })
+                                  }
+                                  placeholder="https://hooks.example.com/approvals"
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                />
+                              </label>
+                              <label className="block text-[11px] text-slate-500">
+                                Text
+                                <textarea
+                                  value={selectedStage.template.webhook.text}
+                                  onChange={(event) =>
+                                    updateWebhook(selectedStage, {
+                                      text: event.target.value,
+                                    })
+                                  }
+                                  rows={3}
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                />
+                              </label>
+                              <p className="text-[11px] text-slate-500">Recipients</p>
+                              <div className="flex flex-wrap gap-3">
+                                {NOTIFICATION_AUDIENCES.map((group) => (
+                                  <label
+                                    key={group}
+                                    className="flex items-center gap-2 text-[11px] font-normal normal-case tracking-normal text-slate-600"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={Boolean(
+                                        selectedStage.template?.webhook?.audience?.includes(group),
+                                      )}
+                                      onChange={(event) =>
+                                        updateWebhook(selectedStage, {
+                                          audience: toggleAudience(
+                                            selectedStage.template?.webhook?.audience,
+                                            group,
+                                            event.target.checked,
+                                          ),
+                                        })
+                                      }
+                                      className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                                    />
+                                    {AUDIENCE_LABELS[group]}
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          ) : null}
+                          <label className="flex items-center gap-2 text-[11px] text-slate-600">
+                            <input
+                              type="checkbox"
+                              checked={Boolean(selectedStage.template.inApp)}
+                              onChange={(event) =>
+                                updateStageTemplate(selectedStage, {
+                                  inApp: event.target.checked
+                                    ? defaultInAppTemplate()
+                                    : undefined,
+                                })
+                              }
+                              className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                            />
+                            In-app
+                          </label>
+                          {selectedStage.template.inApp ? (
+                            <div className="space-y-2 rounded-lg border border-slate-200 bg-slate-50 p-3">
+                              <p className="text-[11px] text-slate-500">Recipients</p>
+                              <div className="flex flex-wrap gap-3">
+                                {NOTIFICATION_AUDIENCES.map((group) => (
+                                  <label
+                                    key={group}
+                                    className="flex items-center gap-2 text-[11px] font-normal normal-case tracking-normal text-slate-600"
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={Boolean(
+                                        selectedStage.template?.inApp?.audience?.includes(group),
+                                      )}
+                                      onChange={(event) =>
+                                        updateInApp(selectedStage, {
+                                          audience: toggleAudience(
+                                            selectedStage.template?.inApp?.audience,
+                                            group,
+                                            event.target.checked,
+                                          ),
+                                        })
+                                      }
+                                      className="h-4 w-4 rounded border border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                                    />
+                                    {AUDIENCE_LABELS[group]}
+                                  </label>
+                                ))}
+                              </div>
+                              <label className="block text-[11px] text-slate-500">
+                                Title
+                                <input
+                                  type="text"
+                                  value={selectedStage.template.inApp.title}
+                                  onChange={(event) =>
+                                    updateInApp(selectedStage, {
+                                      title: event.target.value,
+                                    })
+                                  }
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                />
+                              </label>
+                              <label className="block text-[11px] text-slate-500">
+                                Body
+                                <textarea
+                                  value={selectedStage.template.inApp.body ?? ""}
+                                  onChange={(event) =>
+                                    updateInApp(selectedStage, {
+                                      body: event.target.value,
+                                    })
+                                  }
+                                  rows={2}
+                                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 font-mono text-sm font-normal normal-case tracking-normal text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+                                />
+                              </label>
+                            </div>
+                          ) : null}
+                          <p className="text-[11px] font-normal normal-case tracking-normal text-slate-500">
+                            Variables: {TEMPLATE_VARIABLE_NAMES.join(", ")}. Filters:{" "}
+                            {TEMPLATE_FILTERS.join(", ")}. Blocks:{" "}
+                            <code className="font-mono">
+                              {"{{#if amount > 1000}}…{{else}}…{{/if}}"}
+                            </code>{" "}
+                            and{" "}
+                            <code className="font-mono">
+                              {"{{#each comments as comment}}…{{/each}}"}
+                            </code>
+                            .
+                          </p>
+                          {selectedTemplateIssues.map((issue) => (
+                            <p
+                              key={issue}
+                              className="text-[11px] font-normal normal-case tracking-normal text-rose-600"
+                            >
+                              {issue}
+                            </p>
+                          ))}
+                        </>
+                      ) : null}
                     </div>
                     <div className="flex justify-end">
                       <button
@@ -1740,8 +3096,18 @@ export function RuleBuilder({
                             {stage.name}
                           </div>
                           <p className="text-xs text-slate-500">
-                            {userMap[stage.actorUserId]?.name ?? "Unassigned"} ·{" "}
-                            {userMap[stage.actorUserId]?.role ?? "Role pending"}
+                            {stage.approvers ? (
+                              <>
+                                Parallel · {describeQuorum(stage.approvers)}
+                              </>
+                            ) : stage.assignment ? (
+                              describeAssignment(stage.assignment)
+                            ) : (
+                              <>
+                                {userMap[stage.actorUserId]?.name ?? "Unassigned"} ·{" "}
+                                {userMap[stage.actorUserId]?.role ?? "Role pending"}
+                              </>
+                            )}
                           </p>
                           {isActive ? (
                             <p className="mt-2 text-[10px] font-semibold uppercase tracking-wide text-emerald-600">
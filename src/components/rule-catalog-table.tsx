@@ -1,6 +1,7 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useMemo, useState } from "react";
 
 export interface RuleCatalogEntry {
@@ -13,20 +14,28 @@ export interface RuleCatalogEntry {
   stageCount: number;
   notificationCount: number;
   updatedAt: string;
+  archived: boolean;
+  hasDraft: boolean;
+  revision: number;
 }
 
 interface RuleCatalogTableProps {
   entries: RuleCatalogEntry[];
+  /** Flow admins get edit and delete controls; everyone else reads. */
+  canManage: boolean;
 }
 
 const PAGE_SIZE = 6;
 
-export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
+export function RuleCatalogTable({ entries, canManage }: RuleCatalogTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [pageIndex, setPageIndex] = useState(0);
   const [pendingDelete, setPendingDelete] = useState<RuleCatalogEntry | null>(
     null,
   );
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const router = useRouter();
 
   const filteredEntries = useMemo(() => {
     if (!searchTerm.trim()) {
@@ -55,9 +64,38 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
       ? 0
       : currentPage * PAGE_SIZE + paginatedEntries.length;
 
-  const closeModal = () => setPendingDelete(null);
-  const confirmDelete = () => {
+  const closeModal = () => {
     setPendingDelete(null);
+    setDeleteError(null);
+  };
+  const confirmDelete = async (mode: "archive" | "delete") => {
+    if (!pendingDelete) {
+      return;
+    }
+    setIsDeleting(true);
+    setDeleteError(null);
+    try {
+      const query = new URLSearchParams({
+        revision: String(pendingDelete.revision),
+      });
+      if (mode === "archive") {
+        query.set("mode", "archive");
+      }
+      const response = await fetch(`/api/rules/${pendingDelete.id}?${query}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        setDeleteError(payload?.error ?? "Unable to remove flow.");
+        return;
+      }
+      closeModal();
+      router.refresh();
+    } catch {
+      setDeleteError("Unable to reach the server.");
+    } finally {
+      setIsDeleting(false);
+    }
   };
 
   const goToPage = (index: number) => {
@@ -143,6 +181,16 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
                 </td>
                 <td className="px-6 py-4 text-sm text-slate-700">
                   {entry.version}
+                  {entry.archived ? (
+                    <span className="ml-2 inline-flex rounded-full border border-slate-200 bg-slate-100 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-slate-500">
+                      Archived
+                    </span>
+                  ) : null}
+                  {entry.hasDraft ? (
+                    <span className="ml-2 inline-flex rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-amber-700">
+                      Draft
+                    </span>
+                  ) : null}
                 </td>
                 <td className="px-6 py-4 text-sm text-slate-700">
                   {entry.stageCount}
@@ -154,49 +202,55 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
                   {entry.updatedAt}
                 </td>
                 <td className="px-6 py-4 text-right">
-                  <div className="inline-flex items-center gap-2">
-                    <Link
-                      href={`/dashboard/rules/new?flowId=${entry.id}`}
-                      className="rounded-full border border-slate-200 bg-white p-2 text-slate-500 transition hover:border-emerald-200 hover:text-emerald-600"
-                      aria-label={`Edit ${entry.name}`}
-                    >
-                      <svg
-                        className="h-4 w-4"
-                        viewBox="0 0 20 20"
-                        fill="none"
-                        aria-hidden="true"
+                  {canManage ? (
+                    <div className="inline-flex items-center gap-2">
+                      <Link
+                        href={`/dashboard/rules/new?flowId=${entry.id}`}
+                        className="rounded-full border border-slate-200 bg-white p-2 text-slate-500 transition hover:border-emerald-200 hover:text-emerald-600"
+                        aria-label={`Edit ${entry.name}`}
                       >
-                        <path
-                          d="M4.167 12.917V15.833h2.916L15 7.917 12.083 5l-7.916 7.917Z"
-                          stroke="currentColor"
-                          strokeWidth="1.4"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                        />
-                      </svg>
-                    </Link>
-                    <button
-                      type="button"
-                      onClick={() => setPendingDelete(entry)}
-                      className="rounded-full border border-slate-200 bg-white p-2 text-slate-500 transition hover:border-rose-200 hover:text-rose-600"
-                      aria-label={`Delete ${entry.name}`}
-                    >
-                      <svg
-                        className="h-4 w-4"
-                        viewBox="0 0 20 20"
-                        fill="none"
-                        aria-hidden="true"
+                        <svg
+                          className="h-4 w-4"
+                          viewBox="0 0 20 20"
+                          fill="none"
+                          aria-hidden="true"
+                        >
+                          <path
+                            d="M4.167 12.917V15.833h2.916L15 7.917 12.083 5l-7.916 7.917Z"
+                            stroke="currentColor"
+                            strokeWidth="1.4"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                        </svg>
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => setPendingDelete(entry)}
+                        className="rounded-full border border-slate-200 bg-white p-2 text-slate-500 transition hover:border-rose-200 hover:text-rose-600"
+                        aria-label={`Delete ${entry.name}`}
                       >
-                        <path
-                          d="M4.167 5.833h11.666M7.5 5.833V4.167h5V5.833M8.333 9.167v5M11.667 9.167v5M5.833 5.833v10c0 .23.092.451.256.614.163.164.385.256.614.256h6.594c.23 0 .451-.092.614-.256.164-.163.256-.384.256-.614v-10"
-                          stroke="currentColor"
-                          strokeWidth="1.4"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                        />
-                      </svg>
-                    </button>
-                  </div>
+                        <svg
+                          className="h-4 w-4"
+                          viewBox="0 0 20 20"
+                          fill="none"
+                          aria-hidden="true"
+                        >
+                          <path
+                            d="M4.167 5.833h11.666M7.5 5.833V4.167h5V5.833M8.333 9.167v5M11.667 9.167v5M5.833 5.833v10c0 .23.092.451.256.614.163.164.385.256.614.256h6.594c.23 0 .451-.092.614-.256.164-.163.256-.384.256-.614v-10"
+                            stroke="currentColor"
+                            strokeWidth="1.4"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                        </svg>
+                      </button>
+                    </div>
+                  ) : (
+                    <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                      Read only
+                    </span>
+                  )}
                 </td>
               </tr>
             ))}
@@ -263,7 +317,7 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
           >
             <header className="border-b border-slate-100 px-5 py-4">
               <h3 className="text-lg font-semibold text-slate-900">
-                Delete flow?
+                Delete or archive flow?
               </h3>
               <p className="mt-1 text-sm text-slate-500">
                 You&apos;re about to remove{" "}
@@ -275,9 +329,15 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
             </header>
             <div className="space-y-3 px-5 py-5 text-sm text-slate-600">
               <p>
-                This mock workspace does not persist deletions, but confirming
-                will dismiss the dialog and represent the intended workflow.
+                Archiving keeps the flow resolvable for historical approvals
+                but blocks new submissions. Deleting removes it permanently and
+                is refused while any approval, open or closed, references it.
               </p>
+              {deleteError ? (
+                <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700">
+                  {deleteError}
+                </p>
+              ) : null}
               <div className="flex flex-col gap-3 sm:flex-row sm:justify-end">
                 <button
                   type="button"
@@ -286,10 +346,21 @@ export function RuleCatalogTable({ entries }: RuleCatalogTableProps) {
                 >
                   Cancel
                 </button>
+                {!pendingDelete.archived ? (
+                  <button
+                    type="button"
+                    onClick={() => confirmDelete("archive")}
+                    disabled={isDeleting}
+                    className="inline-flex items-center justify-center rounded-full border border-slate-900 bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-slate-700 disabled:opacity-60"
+                  >
+                    Archive
+                  </button>
+                ) : null}
                 <button
                   type="button"
-                  onClick={confirmDelete}
-                  className="inline-flex items-center justify-center rounded-full border border-rose-200 bg-rose-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-rose-500"
+                  onClick={() => confirmDelete("delete")}
+                  disabled={isDeleting}
+                  className="inline-flex items-center justify-center rounded-full border border-rose-200 bg-rose-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-rose-500 disabled:opacity-60"
                 >
                   Confirm delete
                 </button>
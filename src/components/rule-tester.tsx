@@ -656,7 +656,9 @@ export function RuleTester({ domains, users }: RuleTesterProps) {
                       <span className="font-semibold text-slate-700">
                         To:
                       </span>{" "}
-                      {activeStageNotification.to.join(", ")}
+                      {activeStageNotification.to.length
+                        ? activeStageNotification.to.join(", ")
+                        : "—"}
                     </div>
                     <div>
                       <span className="font-semibold text-slate-700">
@@ -666,6 +668,16 @@ export function RuleTester({ domains, users }: RuleTesterProps) {
                         ? activeStageNotification.cc.join(", ")
                         : "—"}
                     </div>
+                    {activeStageNotification.digest.length ? (
+                      <div>
+                        <span className="font-semibold text-slate-700">
+                          Digest:
+                        </span>{" "}
+                        {activeStageNotification.digest
+                          .map((user) => user.email)
+                          .join(", ")}
+                      </div>
+                    ) : null}
                     <div>
                       <span className="font-semibold text-slate-700">
                         Subject:
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { User } from "@/types";
+
+interface SessionState {
+  user: User;
+  provider: string;
+  expiresAt: string;
+}
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+}
+
+/** Profile pill for the signed-in user with a sign-out action. */
+export function SessionMenu() {
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result: SessionState | null) => {
+        if (!cancelled) {
+          setSession(result);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signOut = async () => {
+    setIsSigningOut(true);
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    // A full navigation drops any client state belonging to the old session.
+    window.location.assign("/login");
+  };
+
+  const name = session?.user.name ?? "Signed in";
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-4 rounded-full border border-slate-200 bg-white px-4 py-2 shadow-sm transition hover:bg-slate-50"
+      >
+        <div className="flex flex-col text-right">
+          <span className="text-sm font-semibold text-slate-900">{name}</span>
+          <span className="text-xs text-slate-500">
+            {session ? session.user.role : "Loading…"}
+          </span>
+        </div>
+        <span className="flex h-9 w-9 items-center justify-center rounded-full bg-[#f97316] text-sm font-semibold text-white">
+          {session ? initials(session.user.name) : ""}
+        </span>
+      </button>
+      {isOpen ? (
+        <div className="absolute right-0 top-full z-50 mt-2 flex w-64 flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          {session ? (
+            <div className="text-xs text-slate-500">
+              <p className="text-sm font-semibold text-slate-900">
+                {session.user.email}
+              </p>
+              <p className="mt-1">
+                Session ends{" "}
+                {new Date(session.expiresAt).toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </p>
+            </div>
+          ) : null}
+          <button
+            type="button"
+            disabled={isSigningOut}
+            onClick={() => void signOut()}
+            className="inline-flex items-center justify-center rounded-full border border-slate-300 bg-white px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-700 transition hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSigningOut ? "Signing out…" : "Sign out"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
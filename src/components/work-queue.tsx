@@ -0,0 +1,379 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import type { WorkItem } from "@/lib/workQueue";
+
+export interface WorkQueueRow extends WorkItem {
+  /** Dates are formatted on the server so both renders agree. */
+  dueLabel?: string;
+  updatedLabel: string;
+}
+
+interface WorkQueueProps {
+  /** Only the signed-in user's work; the server filters it. */
+  rows: WorkQueueRow[];
+  currentUserName: string;
+}
+
+type BulkAction = "approve" | "reject";
+
+interface BulkFailure {
+  approvalId: string;
+  issues: string[];
+}
+
+const SHORTCUTS: { keys: string; label: string }[] = [
+  { keys: "j / k", label: "Next / previous request" },
+  { keys: "x", label: "Select or clear the highlighted request" },
+  { keys: "shift + a", label: "Select all / none" },
+  { keys: "o / enter", label: "Open the highlighted request" },
+  { keys: "c", label: "Write a comment" },
+  { keys: "a", label: "Approve selected, or the highlighted request" },
+  { keys: "r", label: "Reject selected, or the highlighted request" },
+  { keys: "esc", label: "Clear selection / leave the comment box" },
+  { keys: "?", label: "Show or hide shortcuts" },
+];
+
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+  );
+}
+
+export function WorkQueue({ rows, currentUserName }: WorkQueueProps) {
+  const router = useRouter();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const [pendingAction, setPendingAction] = useState<BulkAction | null>(null);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+
+  const visibleIds = rows.map((row) => row.approvalId);
+  const selected = selectedIds.filter((id) => visibleIds.includes(id));
+  const focused =
+    focusedId && visibleIds.includes(focusedId) ? focusedId : visibleIds[0];
+  const overdueCount = rows.filter((row) => row.isOverdue).length;
+
+  const toggle = (approvalId: string) =>
+    setSelectedIds((current) =>
+      current.includes(approvalId)
+        ? current.filter((id) => id !== approvalId)
+        : [...current, approvalId],
+    );
+
+  const runBulk = async (action: BulkAction, approvalIds: string[]) => {
+    if (approvalIds.length === 0 || pendingAction) {
+      return;
+    }
+    if (action === "reject" && !comment.trim()) {
+      setNotice("Rejecting needs a comment explaining why.");
+      commentRef.current?.focus();
+      return;
+    }
+    setPendingAction(action);
+    setFailures([]);
+    setNotice(null);
+
+    const failed: BulkFailure[] = [];
+    for (const approvalId of approvalIds) {
+      try {
+        const response = await fetch(`/api/approvals/${approvalId}/actions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, comment }),
+        });
+        if (!response.ok) {
+          const result = await response.json().catch(() => null);
+          failed.push({
+            approvalId,
+            issues: result?.issues ?? [result?.error ?? "Request failed."],
+          });
+        }
+      } catch {
+        failed.push({ approvalId, issues: ["Unable to reach the server."] });
+      }
+    }
+
+    const done = approvalIds.length - failed.length;
+    setPendingAction(null);
+    setFailures(failed);
+    setSelectedIds(failed.map((failure) => failure.approvalId));
+    setNotice(
+      `${done} of ${approvalIds.length} request(s) ${action === "approve" ? "approved" : "rejected"}.`,
+    );
+    if (failed.length === 0) {
+      setComment("");
+    }
+    router.refresh();
+  };
+
+  const targetIds = selected.length > 0 ? selected : focused ? [focused] : [];
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        if (isTypingTarget(event.target)) {
+          (event.target as HTMLElement).blur();
+        } else {
+          setSelectedIds([]);
+          setShowShortcuts(false);
+        }
+        return;
+      }
+      if (
+        isTypingTarget(event.target) ||
+        event.metaKey ||
+        event.ctrlKey ||
+        event.altKey
+      ) {
+        return;
+      }
+
+      const index = focused ? visibleIds.indexOf(focused) : -1;
+      switch (event.key) {
+        case "j":
+          setFocusedId(visibleIds[Math.min(index + 1, visibleIds.length - 1)]);
+          break;
+        case "k":
+          setFocusedId(visibleIds[Math.max(index - 1, 0)]);
+          break;
+        case "x":
+          if (focused) {
+            toggle(focused);
+          }
+          break;
+        case "A":
+          setSelectedIds(
+            selected.length === visibleIds.length ? [] : visibleIds,
+          );
+          break;
+        case "o":
+        case "Enter":
+          if (focused) {
+            router.push(`/dashboard/approvals/${focused}`);
+          }
+          break;
+        case "c":
+          commentRef.current?.focus();
+          break;
+        case "a":
+          void runBulk("approve", targetIds);
+          break;
+        case "r":
+          void runBulk("reject", targetIds);
+          break;
+        case "?":
+          setShowShortcuts((current) => !current);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-4 border-b border-slate-100 px-6 py-5 lg:flex-row lg:items-end lg:justify-between">
+        <p className="text-sm text-slate-500">
+          Working as{" "}
+          <span className="font-semibold text-slate-900">
+            {currentUserName}
+          </span>
+        </p>
+        <div className="flex flex-wrap items-center gap-2 text-xs font-semibold uppercase tracking-wide">
+          <span className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-slate-600">
+            {rows.length} waiting
+          </span>
+          {overdueCount > 0 ? (
+            <span className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-rose-700">
+              {overdueCount} overdue
+            </span>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => setShowShortcuts((current) => !current)}
+            className="rounded-full border border-slate-200 bg-white px-3 py-1 text-slate-500 hover:bg-slate-100"
+          >
+            Shortcuts ?
+          </button>
+        </div>
+      </div>
+
+      {showShortcuts ? (
+        <dl className="mx-6 grid gap-x-6 gap-y-2 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm sm:grid-cols-2">
+          {SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.keys} className="flex items-center gap-3">
+              <dt className="w-24 shrink-0 font-mono text-xs text-slate-700">
+                {shortcut.keys}
+              </dt>
+              <dd className="text-slate-600">{shortcut.label}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : null}
+
+      <div className="flex flex-col gap-3 px-6 lg:flex-row lg:items-start">
+        <textarea
+          ref={commentRef}
+          value={comment}
+          onChange={(event) => setComment(event.target.value)}
+          rows={2}
+          placeholder="Comment recorded on every request you act on. Required to reject."
+          className="w-full flex-1 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:border-emerald-500 focus:outline-none focus:ring-2 focus:ring-emerald-200"
+        />
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            disabled={targetIds.length === 0 || pendingAction !== null}
+            onClick={() => void runBulk("approve", targetIds)}
+            className="inline-flex items-center rounded-full bg-emerald-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-emerald-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {pendingAction === "approve"
+              ? "Approving…"
+              : `Approve${selected.length > 0 ? ` ${selected.length}` : ""}`}
+          </button>
+          <button
+            type="button"
+            disabled={
+              targetIds.length === 0 ||
+              !comment.trim() ||
+              pendingAction !== null
+            }
+            onClick={() => void runBulk("reject", targetIds)}
+            className="inline-flex items-center rounded-full bg-rose-600 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-white transition hover:bg-rose-500 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {pendingAction === "reject"
+              ? "Rejecting…"
+              : `Reject${selected.length > 0 ? ` ${selected.length}` : ""}`}
+          </button>
+        </div>
+      </div>
+
+      {notice || failures.length > 0 ? (
+        <div className="mx-6 flex flex-col gap-1 text-xs">
+          {notice ? <p className="text-slate-600">{notice}</p> : null}
+          {failures.map((failure) => (
+            <p key={failure.approvalId} className="text-rose-600">
+              #{failure.approvalId}: {failure.issues.join(" ")}
+            </p>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="w-10 px-6 py-3">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={
+                    visibleIds.length > 0 && selected.length === visibleIds.length
+                  }
+                  onChange={() =>
+                    setSelectedIds(
+                      selected.length === visibleIds.length ? [] : visibleIds,
+                    )
+                  }
+                />
+              </th>
+              <th className="px-6 py-3 font-semibold text-slate-500">Request</th>
+              <th className="px-6 py-3 font-semibold text-slate-500">Stage</th>
+              <th className="px-6 py-3 font-semibold text-slate-500">Requester</th>
+              <th className="px-6 py-3 font-semibold text-slate-500">Due</th>
+              <th className="px-6 py-3 font-semibold text-slate-500">Last Update</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map((row) => (
+              <tr
+                key={row.approvalId}
+                onClick={() => setFocusedId(row.approvalId)}
+                className={
+                  row.approvalId === focused
+                    ? "bg-emerald-50/60 shadow-[inset_3px_0_0_0_#10b981]"
+                    : "hover:bg-slate-50"
+                }
+              >
+                <td className="px-6 py-4">
+                  <input
+                    type="checkbox"
+                    aria-label={`Select ${row.title}`}
+                    checked={selected.includes(row.approvalId)}
+                    onChange={() => toggle(row.approvalId)}
+                  />
+                </td>
+                <td className="px-6 py-4">
+                  <Link
+                    href={`/dashboard/approvals/${row.approvalId}`}
+                    className="font-medium text-slate-900 hover:text-emerald-700 hover:underline"
+                  >
+                    {row.title}
+                  </Link>
+                  <div className="text-xs text-slate-500">
+                    #{row.approvalId} · {row.domainName} / {row.subdomainName}
+                  </div>
+                  {row.onBehalfOf ? (
+                    <div className="mt-1 text-xs text-sky-700">
+                      Covering for {row.onBehalfOf.name}
+                    </div>
+                  ) : null}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-700">
+                  {row.stageName}
+                  {!row.canReject ? (
+                    <div className="text-xs text-slate-400">No reject path</div>
+                  ) : null}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-700">
+                  {row.requesterName}
+                </td>
+                <td className="px-6 py-4">
+                  {row.dueLabel ? (
+                    row.isOverdue ? (
+                      <span className="inline-flex rounded-full border border-rose-200 bg-rose-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-rose-700">
+                        Overdue since {row.dueLabel}
+                      </span>
+                    ) : (
+                      <span className="text-sm text-slate-700">
+                        {row.dueLabel}
+                      </span>
+                    )
+                  ) : (
+                    <span className="text-xs text-slate-400">No SLA</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 text-sm text-slate-600">
+                  {row.updatedLabel}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 ? (
+              <tr>
+                <td
+                  className="px-6 py-8 text-center text-sm text-slate-500"
+                  colSpan={6}
+                >
+                  Nothing is waiting on you.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { startSlaScheduler } from "@/lib/slaScheduler";
+import { startNotificationWorker } from "@/lib/notificationOutbox";
+import { startDigestScheduler } from "@/lib/notificationDigest";
+
+const intervalSeconds = Number(process.env.APPROVAL_SLA_INTERVAL_SECONDS ?? 0);
+
+if (Number.isFinite(intervalSeconds) && intervalSeconds > 0) {
+  startSlaScheduler(intervalSeconds * 1000);
+}
+
+const deliverySeconds = Number(
+  process.env.APPROVAL_NOTIFICATION_INTERVAL_SECONDS ?? 0,
+);
+
+if (Number.isFinite(deliverySeconds) && deliverySeconds > 0) {
+  startNotificationWorker(deliverySeconds * 1000);
+}
+
+const digestHour = process.env.APPROVAL_DIGEST_HOUR_UTC;
+
+if (digestHour !== undefined && digestHour !== "") {
+  const hour = Number(digestHour);
+  if (Number.isInteger(hour) && hour >= 0 && hour <= 23) {
+    startDigestScheduler(hour);
+  }
+}
@@ -0,0 +1,180 @@
+import type { Approval, ApprovalFlowStage, OutboxMessage, User } from "@/types";
+import {
+  getCurrentStage,
+  isApprovalClosed,
+  resolveTransitionTarget,
+} from "@/lib/approvalRuntime";
+import { evaluateTransitionConditions } from "@/lib/ruleEngine";
+import {
+  buildStageChannels,
+  buildStageNotification,
+  type StageNotificationContext,
+  type WebhookNotificationPreview,
+} from "@/lib/notificationEngine";
+import { generateId } from "@/lib/dataStore";
+
+export interface NotificationContact {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ApprovalStageNotifications {
+  stageId: string;
+  stageName: string;
+  relation: "current" | "next";
+  /** Labels of the transitions that lead to a next stage. */
+  via: string[];
+  /** Whether any of those transitions' conditions hold for the payload now. */
+  reachable: boolean;
+  email: {
+    to: string[];
+    cc: string[];
+    digest: NotificationContact[];
+    subject: string;
+    body: string;
+    html?: string;
+  } | null;
+  webhook: WebhookNotificationPreview | null;
+  inApp: {
+    recipients: NotificationContact[];
+    title: string;
+    body: string;
+  } | null;
+}
+
+type ApprovalNotificationContext = Omit<StageNotificationContext, "approval">;
+
+function toContact(user: User): NotificationContact {
+  return { id: user.id, name: user.name, email: user.email };
+}
+
+function renderStage(
+  stage: ApprovalFlowStage,
+  approval: Approval,
+  context: ApprovalNotificationContext,
+) {
+  const stageContext = { ...context, approval };
+  const email = buildStageNotification(stage, stageContext);
+  const { webhook, inApp } = buildStageChannels(stage, stageContext);
+  return {
+    stageId: stage.id,
+    stageName: stage.name,
+    email: email
+      ? {
+          to: email.to,
+          cc: email.cc,
+          digest: email.digest.map(toContact),
+          subject: email.subject,
+          body: email.body,
+          html: email.html,
+        }
+      : null,
+    webhook: webhook ?? null,
+    inApp: inApp
+      ? {
+          recipients: inApp.userIds
+            .map((id) => context.users.find((user) => user.id === id))
+            .filter((user): user is User => Boolean(user))
+            .map(toContact),
+          title: inApp.title,
+          body: inApp.body,
+        }
+      : null,
+  };
+}
+
+/**
+ * Renders what the approval's current stage sends, and what each stage it
+ * can move to next would send, with the approval's real payload, comments
+ * and assignees. `context.flow` must be the revision the approval runs on.
+ */
+export function buildApprovalNotifications(
+  approval: Approval,
+  context: ApprovalNotificationContext,
+): ApprovalStageNotifications[] {
+  const { flow } = context;
+  const current = getCurrentStage(approval, flow);
+  if (!current) {
+    return [];
+  }
+
+  const previews: ApprovalStageNotifications[] = [
+    {
+      ...renderStage(current, approval, context),
+      relation: "current",
+      via: [],
+      reachable: true,
+    },
+  ];
+  if (isApprovalClosed(approval, flow)) {
+    return previews;
+  }
+
+  const next = new Map<
+    string,
+    { stage: ApprovalFlowStage; via: string[]; reachable: boolean }
+  >();
+  current.transitions.forEach((transition) => {
+    const target = resolveTransitionTarget(flow.definition, transition);
+    if (!target || target.id === current.id) {
+      return;
+    }
+    const entry = next.get(target.id) ?? {
+      stage: target,
+      via: [],
+      reachable: false,
+    };
+    entry.via.push(transition.label ?? target.name);
+    entry.reachable =
+      entry.reachable ||
+      evaluateTransitionConditions(transition, approval.payload ?? {}).holds;
+    next.set(target.id, entry);
+  });
+
+  next.forEach(({ stage, via, reachable }) => {
+    previews.push({
+      ...renderStage(stage, approval, context),
+      relation: "next",
+      via,
+      reachable,
+    });
+  });
+  return previews;
+}
+
+/**
+ * Turns a stage's email preview into a one-off test message. Digest readers
+ * are addressed directly so every recipient's copy can be checked.
+ */
+export function buildTestMessage(
+  approval: Approval,
+  preview: ApprovalStageNotifications,
+): OutboxMessage | null {
+  if (!preview.email) {
+    return null;
+  }
+  const to = [
+    ...preview.email.to,
+    ...preview.email.digest
+      .map((contact) => contact.email)
+      .filter((email) => !preview.email?.to.includes(email)),
+  ];
+  if (to.length === 0) {
+    return null;
+  }
+  return {
+    id: generateId("test"),
+    approvalId: approval.id,
+    stageId: preview.stageId,
+    channel: "email",
+    to,
+    cc: preview.email.cc,
+    subject: `[Test] ${preview.email.subject}`,
+    body: preview.email.body,
+    html: preview.email.html,
+    status: "pending",
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,270 @@
+import { describe, expect, it } from "vitest";
+import type { Approval, ApprovalFlow, ApprovalFlowStage, User } from "@/types";
+import { advanceApproval } from "@/lib/approvalRuntime";
+
+const NOW = "2026-03-02T09:00:00.000Z";
+
+function stage(
+  id: string,
+  status: ApprovalFlowStage["status"],
+  fields: Partial<ApprovalFlowStage> = {},
+): ApprovalFlowStage {
+  return {
+    id,
+    status,
+    name: id,
+    description: "",
+    actor: "",
+    transitions: [],
+    ...fields,
+  };
+}
+
+const FLOW: ApprovalFlow = {
+  id: "purchase",
+  name: "Purchase",
+  version: "1.0.0",
+  description: "",
+  updatedAt: NOW,
+  definition: {
+    stages: [
+      stage("review", "in_process", {
+        actorUserId: "u-2",
+        transitions: [
+          { to: "approved", targetStageId: "done", label: "Approve" },
+          {
+            to: "in_process",
+            targetStageId: "finance",
+            label: "Send to finance",
+            conditions: ["amount > 1000"],
+          },
+          { to: "reject", targetStageId: "rejected", label: "Reject" },
+          {
+            to: "reject",
+            targetStageId: "rejected",
+            label: "Reject as fraud",
+            conditions: ["flagged == true"],
+          },
+        ],
+      }),
+      stage("finance", "in_process", {
+        approvers: { userIds: ["u-3", "u-4"], policy: "all-of" },
+        transitions: [
+          { to: "approved", targetStageId: "done", label: "Approve" },
+          { to: "reject", targetStageId: "rejected", label: "Reject" },
+        ],
+      }),
+      stage("done", "approved"),
+      stage("rejected", "reject"),
+    ],
+  },
+};
+
+const USERS: User[] = ["u-1", "u-2", "u-3", "u-4", "u-5"].map((id) => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  role: "Approver",
+}));
+
+function approval(fields: Partial<Approval> = {}): Approval {
+  return {
+    id: "a-1",
+    title: "Laptop",
+    domainId: "ops",
+    subdomainId: "ops-purchasing",
+    requesterId: "u-1",
+    approverIds: ["u-2"],
+    status: "in_process",
+    submittedAt: NOW,
+    lastUpdatedAt: NOW,
+    flowId: FLOW.id,
+    flowVersion: FLOW.version,
+    currentStageId: "review",
+    payload: { amount: 200 },
+    ...fields,
+  };
+}
+
+describe("advanceApproval", () => {
+  it("takes the unconditional route when no condition matches", () => {
+    const result = advanceApproval(approval(), FLOW, {
+      action: "approve",
+      actorId: "u-2",
+      users: USERS,
+      timestamp: NOW,
+    });
+    expect(result.ok && result.approval).toMatchObject({
+      status: "approved",
+      currentStageId: "done",
+      approverIds: [],
+    });
+    expect(result.ok && result.approval.history?.at(-1)).toMatchObject({
+      action: "approve",
+      actorId: "u-2",
+      fromStageId: "review",
+      toStageId: "done",
+      transitionLabel: "Approve",
+    });
+  });
+
+  it("prefers a conditional route whose conditions hold", () => {
+    const result = advanceApproval(
+      approval({ payload: { amount: 5000 } }),
+      FLOW,
+      { action: "approve", actorId: "u-2", users: USERS, timestamp: NOW },
+    );
+    expect(result.ok && result.approval).toMatchObject({
+      currentStageId: "finance",
+      approverIds: ["u-3", "u-4"],
+    });
+  });
+
+  it("explains unmet conditions when the chosen target needs them", () => {
+    const result = advanceApproval(approval(), FLOW, {
+      action: "approve",
+      actorId: "u-2",
+      targetStageId: "finance",
+      users: USERS,
+      timestamp: NOW,
+    });
+    expect(result).toEqual({
+      ok: false,
+      issues: ['"Send to finance": condition `amount > 1000` is not met.'],
+    });
+  });
+
+  it("always lets a reject through, using a matching route when there is one", () => {
+    const plain = advanceApproval(approval(), FLOW, {
+      action: "reject",
+      actorId: "u-2",
+      comment: "Wrong vendor",
+      users: USERS,
+      timestamp: NOW,
+    });
+    expect(plain.ok && plain.transition?.label).toBe("Reject");
+
+    const flagged = advanceApproval(
+      approval({ payload: { amount: 200, flagged: true } }),
+      FLOW,
+      {
+        action: "reject",
+        actorId: "u-2",
+        comment: "Duplicate invoice",
+        users: USERS,
+        timestamp: NOW,
+      },
+    );
+    expect(flagged.ok && flagged.transition?.label).toBe("Reject as fraud");
+    expect(flagged.ok && flagged.approval.status).toBe("reject");
+  });
+
+  it("requires a comment to reject", () => {
+    expect(
+      advanceApproval(approval(), FLOW, {
+        action: "reject",
+        actorId: "u-2",
+        users: USERS,
+        timestamp: NOW,
+      }),
+    ).toEqual({
+      ok: false,
+      issues: ["A comment explaining the rejection is required."],
+    });
+  });
+
+  it("refuses people who are not assigned", () => {
+    expect(
+      advanceApproval(approval(), FLOW, {
+        action: "approve",
+        actorId: "u-5",
+        users: USERS,
+        timestamp: NOW,
+      }),
+    ).toEqual({ ok: false, issues: ['User u-5 is not assigned to "review".'] });
+  });
+
+  it("lets an active delegate act for the assignee", () => {
+    const users = USERS.map((user) =>
+      user.id === "u-2"
+        ? {
+            ...user,
+            delegation: {
+              delegateId: "u-5",
+              startsOn: "2026-03-01",
+              endsOn: "2026-03-05",
+            },
+          }
+        : user,
+    );
+    const result = advanceApproval(approval(), FLOW, {
+      action: "approve",
+      actorId: "u-5",
+      users,
+      timestamp: NOW,
+    });
+    expect(result.ok && result.approval.history?.at(-1)).toMatchObject({
+      actorId: "u-5",
+      onBehalfOfId: "u-2",
+    });
+  });
+
+  it("refuses closed approvals", () => {
+    expect(
+      advanceApproval(
+        approval({ status: "approved", currentStageId: "done" }),
+        FLOW,
+        { action: "approve", actorId: "u-2", users: USERS, timestamp: NOW },
+      ),
+    ).toEqual({
+      ok: false,
+      issues: ['Stage "done" is final and cannot be advanced.'],
+    });
+  });
+
+  it("waits for quorum on parallel stages before moving on", () => {
+    const atFinance = approval({
+      currentStageId: "finance",
+      approverIds: ["u-3", "u-4"],
+    });
+    const first = advanceApproval(atFinance, FLOW, {
+      action: "approve",
+      actorId: "u-3",
+      users: USERS,
+      timestamp: NOW,
+    });
+    expect(first.ok && first.quorum?.outcome).toBe("pending");
+    expect(first.ok && first.approval).toMatchObject({
+      currentStageId: "finance",
+      approverIds: ["u-4"],
+    });
+    if (!first.ok) {
+      return;
+    }
+
+    expect(
+      advanceApproval(first.approval, FLOW, {
+        action: "approve",
+        actorId: "u-3",
+        users: USERS,
+        timestamp: NOW,
+      }),
+    ).toEqual({
+      ok: false,
+      issues: ['User u-3 has already signed off on "finance".'],
+    });
+
+    const second = advanceApproval(first.approval, FLOW, {
+      action: "approve",
+      actorId: "u-4",
+      users: USERS,
+      timestamp: NOW,
+    });
+    expect(second.ok && second.quorum?.outcome).toBe("approved");
+    expect(second.ok && second.approval).toMatchObject({
+      status: "approved",
+      currentStageId: "done",
+      votes: undefined,
+    });
+  });
+});
@@ -0,0 +1,673 @@
+import {
+  Approval,
+  ApprovalAction,
+  ApprovalFlow,
+  ApprovalFlowDefinition,
+  ApprovalFlowStage,
+  ApprovalHistoryEntry,
+  ApprovalVote,
+  Domain,
+  FlowTransition,
+  User,
+} from "@/types";
+import {
+  evaluateFlowPath,
+  evaluateTransitionConditions,
+} from "@/lib/ruleEngine";
+import { generateId } from "@/lib/dataStore";
+import { evaluateQuorum, QuorumProgress, voterOf } from "@/lib/quorum";
+import { findPrincipal } from "@/lib/delegation";
+import { resolveStageAssignees } from "@/lib/assignmentResolver";
+import { startStageSla } from "@/lib/stageSla";
+import { extractMentions } from "@/lib/mentions";
+
+export interface FlowContext {
+  flow: ApprovalFlow;
+  domain: Domain;
+  subdomain: Domain["subdomains"][number];
+}
+
+export interface StartApprovalInput {
+  title: string;
+  domainId: string;
+  subdomainId: string;
+  requesterId: string;
+  payload?: Record<string, unknown>;
+  /** Directory used to resolve role, group and supervisor assignments. */
+  users: User[];
+  timestamp?: string;
+}
+
+/** Actor recorded on history entries written by the scheduler. */
+export const SYSTEM_ACTOR_ID = "system";
+
+export type TransitionAction = Extract<ApprovalAction, "approve" | "reject">;
+
+export interface AdvanceApprovalRequest {
+  action: TransitionAction;
+  actorId: string;
+  targetStageId?: string;
+  comment?: string;
+  attachmentIds?: string[];
+  users: User[];
+  timestamp?: string;
+}
+
+export interface ApprovalActionRequest {
+  action: ApprovalAction;
+  actorId: string;
+  targetStageId?: string;
+  comment?: string;
+  /** Comment being answered; only valid for the `comment` action. */
+  replyToId?: string;
+  /** Attachments already uploaded to the approval. */
+  attachmentIds?: string[];
+  users: User[];
+  timestamp?: string;
+}
+
+export type ApprovalAdvanceResult =
+  | {
+      ok: true;
+      approval: Approval;
+      stage: ApprovalFlowStage;
+      /** Absent while a parallel stage is still waiting for quorum. */
+      transition?: FlowTransition;
+      quorum?: QuorumProgress;
+    }
+  | {
+      ok: false;
+      issues: string[];
+    };
+
+export type ApprovalActionResult =
+  | {
+      ok: true;
+      approval: Approval;
+      stage?: ApprovalFlowStage;
+      transition?: FlowTransition;
+      quorum?: QuorumProgress;
+    }
+  | {
+      ok: false;
+      issues: string[];
+    };
+
+type EntryNotes = Pick<
+  ApprovalHistoryEntry,
+  "comment" | "replyToId" | "mentionIds" | "attachmentIds"
+>;
+
+/**
+ * Checks what a user attaches to a history entry and resolves the comment's
+ * mentions. Replies to a reply join the original comment's thread.
+ */
+function resolveEntryNotes(
+  approval: Approval,
+  request: {
+    action: ApprovalAction;
+    comment?: string;
+    replyToId?: string;
+    attachmentIds?: string[];
+    users: User[];
+  },
+): { ok: true; notes: EntryNotes } | { ok: false; issues: string[] } {
+  const issues: string[] = [];
+  const comment = request.comment?.trim() || undefined;
+  const attachmentIds = Array.from(new Set(request.attachmentIds ?? []));
+  attachmentIds.forEach((id) => {
+    if (!approval.attachments?.some((attachment) => attachment.id === id)) {
+      issues.push(`Attachment "${id}" does not belong to approval ${approval.id}.`);
+    }
+  });
+
+  let replyToId: string | undefined;
+  if (request.replyToId) {
+    const parent = approval.history?.find(
+      (entry) => entry.id === request.replyToId && entry.comment,
+    );
+    if (request.action !== "comment") {
+      issues.push("Only comments can reply to another comment.");
+    } else if (!parent) {
+      issues.push(`Comment "${request.replyToId}" not found on approval ${approval.id}.`);
+    } else {
+      replyToId = parent.replyToId ?? parent.id;
+    }
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  const mentionIds = extractMentions(comment, request.users);
+  return {
+    ok: true,
+    notes: {
+      comment,
+      replyToId,
+      mentionIds: mentionIds.length > 0 ? mentionIds : undefined,
+      attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined,
+    },
+  };
+}
+
+export function isApprovalAction(value: unknown): value is ApprovalAction {
+  return (
+    value === "approve" ||
+    value === "reject" ||
+    value === "withdraw" ||
+    value === "comment"
+  );
+}
+
+export function findFlowContext(
+  domains: Domain[],
+  flowId: string | undefined,
+): FlowContext | null {
+  if (!flowId) {
+    return null;
+  }
+  for (const domain of domains) {
+    for (const subdomain of domain.subdomains) {
+      const flow = subdomain.flows.find((item) => item.id === flowId);
+      if (flow) {
+        return { flow, domain, subdomain };
+      }
+    }
+  }
+  return null;
+}
+
+export function findStage(
+  definition: ApprovalFlowDefinition,
+  stageId: string | undefined,
+): ApprovalFlowStage | undefined {
+  if (!stageId) {
+    return undefined;
+  }
+  return definition.stages.find((stage) => stage.id === stageId);
+}
+
+export function resolveTransitionTarget(
+  definition: ApprovalFlowDefinition,
+  transition: FlowTransition,
+): ApprovalFlowStage | undefined {
+  if (transition.targetStageId) {
+    return findStage(definition, transition.targetStageId);
+  }
+  return definition.stages.find((stage) => stage.status === transition.to);
+}
+
+export function getCurrentStage(
+  approval: Approval,
+  flow: ApprovalFlow,
+): ApprovalFlowStage | undefined {
+  return findStage(flow.definition, approval.currentStageId);
+}
+
+export function isApprovalFinal(approval: Approval, flow: ApprovalFlow) {
+  const stage = getCurrentStage(approval, flow);
+  return !stage || stage.transitions.length === 0;
+}
+
+export function isApprovalClosed(approval: Approval, flow: ApprovalFlow) {
+  const stage = getCurrentStage(approval, flow);
+  return isApprovalFinal(approval, flow) || approval.status !== stage?.status;
+}
+
+function matchesAction(
+  definition: ApprovalFlowDefinition,
+  transition: FlowTransition,
+  action: TransitionAction,
+) {
+  const target = resolveTransitionTarget(definition, transition);
+  const targetStatus = target?.status ?? transition.to;
+  return action === "reject"
+    ? targetStatus === "reject"
+    : targetStatus !== "reject";
+}
+
+export function listAvailableTransitions(
+  approval: Approval,
+  flow: ApprovalFlow,
+  action?: TransitionAction,
+): FlowTransition[] {
+  const stage = getCurrentStage(approval, flow);
+  if (!stage) {
+    return [];
+  }
+  if (!action) {
+    return stage.transitions;
+  }
+  return stage.transitions.filter((transition) =>
+    matchesAction(flow.definition, transition, action),
+  );
+}
+
+export function startApproval(
+  flow: ApprovalFlow,
+  input: StartApprovalInput,
+): Approval {
+  const [firstStage] = flow.definition.stages;
+  const timestamp = input.timestamp ?? new Date().toISOString();
+
+  return {
+    id: generateId("a"),
+    title: input.title,
+    domainId: input.domainId,
+    subdomainId: input.subdomainId,
+    requesterId: input.requesterId,
+    approverIds: resolveStageAssignees(firstStage, {
+      users: input.users,
+      requesterId: input.requesterId,
+      payload: input.payload,
+    }),
+    status: firstStage?.status ?? "in_process",
+    submittedAt: timestamp,
+    lastUpdatedAt: timestamp,
+    flowId: flow.id,
+    flowVersion: flow.version,
+    currentStageId: firstStage?.id,
+    sla: startStageSla(firstStage, timestamp),
+    payload: input.payload ?? {},
+    history: [
+      {
+        id: generateId("h"),
+        action: "submit",
+        actorId: input.requesterId,
+        toStageId: firstStage?.id,
+        timestamp,
+      },
+    ],
+  };
+}
+
+export function advanceApproval(
+  approval: Approval,
+  flow: ApprovalFlow,
+  request: AdvanceApprovalRequest,
+): ApprovalAdvanceResult {
+  if (approval.flowId !== flow.id) {
+    return {
+      ok: false,
+      issues: [`Approval ${approval.id} is not bound to flow "${flow.id}".`],
+    };
+  }
+
+  const currentStage = getCurrentStage(approval, flow);
+  if (!currentStage) {
+    return {
+      ok: false,
+      issues: [
+        `Current stage "${approval.currentStageId ?? "none"}" does not exist in flow.`,
+      ],
+    };
+  }
+
+  if (approval.status !== currentStage.status) {
+    return {
+      ok: false,
+      issues: [`Approval ${approval.id} is already closed.`],
+    };
+  }
+
+  if (currentStage.transitions.length === 0) {
+    return {
+      ok: false,
+      issues: [`Stage "${currentStage.name}" is final and cannot be advanced.`],
+    };
+  }
+
+  const resolved = resolveEntryNotes(approval, request);
+  if (!resolved.ok) {
+    return resolved;
+  }
+  const { notes } = resolved;
+  if (request.action === "reject" && !notes.comment) {
+    return {
+      ok: false,
+      issues: ["A comment explaining the rejection is required."],
+    };
+  }
+
+  const timestamp = request.timestamp ?? new Date().toISOString();
+  const now = new Date(timestamp);
+
+  let quorum: QuorumProgress | undefined;
+  let votes: ApprovalVote[] = [];
+  let onBehalfOfId = findPrincipal(
+    request.actorId,
+    approval.approverIds,
+    request.users,
+    now,
+  );
+  if (currentStage.approvers) {
+    votes = (approval.votes ?? []).filter(
+      (vote) => vote.stageId === currentStage.id,
+    );
+    const pendingVoterIds = currentStage.approvers.userIds.filter(
+      (id) => !votes.some((vote) => voterOf(vote) === id),
+    );
+    onBehalfOfId = findPrincipal(
+      request.actorId,
+      pendingVoterIds,
+      request.users,
+      now,
+    );
+    const voterId = onBehalfOfId ?? request.actorId;
+    if (!currentStage.approvers.userIds.includes(voterId)) {
+      return {
+        ok: false,
+        issues: [
+          `User ${request.actorId} is not a sign-off approver on "${currentStage.name}".`,
+        ],
+      };
+    }
+    if (votes.some((vote) => voterOf(vote) === voterId)) {
+      return {
+        ok: false,
+        issues: [
+          `User ${voterId} has already signed off on "${currentStage.name}".`,
+        ],
+      };
+    }
+    votes = [
+      ...votes,
+      {
+        stageId: currentStage.id,
+        actorId: request.actorId,
+        onBehalfOfId,
+        decision: request.action,
+        timestamp,
+      },
+    ];
+    quorum = evaluateQuorum(currentStage.approvers, votes);
+
+    if (quorum.outcome === "pending") {
+      return {
+        ok: true,
+        stage: currentStage,
+        quorum,
+        approval: {
+          ...approval,
+          approverIds: quorum.pendingUserIds,
+          votes,
+          lastUpdatedAt: timestamp,
+          history: [
+            ...(approval.history ?? []),
+            {
+              id: generateId("h"),
+              action: request.action,
+              actorId: request.actorId,
+              onBehalfOfId,
+              fromStageId: currentStage.id,
+              ...notes,
+              timestamp,
+            },
+          ],
+        },
+      };
+    }
+  } else if (!approval.approverIds.includes(request.actorId) && !onBehalfOfId) {
+    return {
+      ok: false,
+      issues: [
+        `User ${request.actorId} is not assigned to "${currentStage.name}".`,
+      ],
+    };
+  }
+
+  const candidates = listAvailableTransitions(
+    approval,
+    flow,
+    request.action,
+  ).filter(
+    (transition) =>
+      !request.targetStageId ||
+      resolveTransitionTarget(flow.definition, transition)?.id ===
+        request.targetStageId,
+  );
+
+  if (candidates.length === 0) {
+    return {
+      ok: false,
+      issues: [
+        request.targetStageId
+          ? `No ${request.action} transition from "${currentStage.name}" to stage "${request.targetStageId}".`
+          : `Stage "${currentStage.name}" has no ${request.action} transition.`,
+      ],
+    };
+  }
+
+  // Routes with conditions are tried first; unconditional ones are the
+  // fallback. A reject always goes through: its conditions only pick a route.
+  const payload = approval.payload ?? {};
+  const evaluations = [...candidates]
+    .sort(
+      (left, right) =>
+        Number(!left.conditions?.length) - Number(!right.conditions?.length),
+    )
+    .map((candidate) => ({
+      transition: candidate,
+      evaluation: evaluateTransitionConditions(candidate, payload),
+    }));
+  const transition =
+    evaluations.find(({ evaluation }) => evaluation.holds)?.transition ??
+    (request.action === "reject" ? evaluations[0].transition : undefined);
+  if (!transition) {
+    return {
+      ok: false,
+      issues: evaluations.flatMap(({ transition: candidate, evaluation }) => {
+        const label = candidate.label ?? candidate.to;
+        return [
+          ...evaluation.issues.map((issue) => `"${label}": ${issue}`),
+          ...evaluation.unmet.map(
+            (condition) => `"${label}": condition \`${condition}\` is not met.`,
+          ),
+        ];
+      }),
+    };
+  }
+
+  const result = followTransition(approval, flow, currentStage, transition, {
+    action: request.action,
+    actorId: request.actorId,
+    onBehalfOfId,
+    notes,
+    users: request.users,
+    timestamp,
+  });
+  return result.ok ? { ...result, quorum } : result;
+}
+
+function followTransition(
+  approval: Approval,
+  flow: ApprovalFlow,
+  currentStage: ApprovalFlowStage,
+  transition: FlowTransition,
+  entry: {
+    action: ApprovalHistoryEntry["action"];
+    actorId: string;
+    onBehalfOfId?: string;
+    notes?: EntryNotes;
+    users: User[];
+    timestamp: string;
+  },
+): ApprovalAdvanceResult {
+  const targetStage = resolveTransitionTarget(flow.definition, transition);
+  if (!targetStage) {
+    return {
+      ok: false,
+      issues: [
+        `Transition "${transition.label ?? transition.to}" does not resolve to a stage.`,
+      ],
+    };
+  }
+
+  const evaluation = evaluateFlowPath(flow.definition, [
+    currentStage.status,
+    targetStage.status,
+  ]);
+  if (!evaluation.isValid) {
+    return { ok: false, issues: evaluation.issues };
+  }
+
+  return {
+    ok: true,
+    stage: targetStage,
+    transition,
+    approval: {
+      ...approval,
+      status: targetStage.status,
+      currentStageId: targetStage.id,
+      approverIds: resolveStageAssignees(targetStage, {
+        users: entry.users,
+        requesterId: approval.requesterId,
+        payload: approval.payload,
+      }),
+      votes: undefined,
+      sla: startStageSla(targetStage, entry.timestamp),
+      lastUpdatedAt: entry.timestamp,
+      history: [
+        ...(approval.history ?? []),
+        {
+          id: generateId("h"),
+          action: entry.action,
+          actorId: entry.actorId,
+          onBehalfOfId: entry.onBehalfOfId,
+          fromStageId: currentStage.id,
+          toStageId: targetStage.id,
+          transitionLabel: transition.label,
+          ...entry.notes,
+          timestamp: entry.timestamp,
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Moves an approval along the transition to `targetStageId` when its SLA runs
+ * out. Conditions and quorum are skipped; the timeout policy decides.
+ */
+export function autoTransitionApproval(
+  approval: Approval,
+  flow: ApprovalFlow,
+  request: { targetStageId: string; users: User[]; timestamp?: string },
+): ApprovalAdvanceResult {
+  const currentStage = getCurrentStage(approval, flow);
+  if (!currentStage || isApprovalClosed(approval, flow)) {
+    return {
+      ok: false,
+      issues: [`Approval ${approval.id} is already closed.`],
+    };
+  }
+
+  const transition = currentStage.transitions.find(
+    (candidate) =>
+      resolveTransitionTarget(flow.definition, candidate)?.id ===
+      request.targetStageId,
+  );
+  if (!transition) {
+    return {
+      ok: false,
+      issues: [
+        `Stage "${currentStage.name}" has no transition to stage "${request.targetStageId}".`,
+      ],
+    };
+  }
+
+  return followTransition(approval, flow, currentStage, transition, {
+    action: "auto-transition",
+    actorId: SYSTEM_ACTOR_ID,
+    users: request.users,
+    timestamp: request.timestamp ?? new Date().toISOString(),
+  });
+}
+
+export function applyApprovalAction(
+  approval: Approval,
+  flow: ApprovalFlow,
+  request: ApprovalActionRequest,
+): ApprovalActionResult {
+  const timestamp = request.timestamp ?? new Date().toISOString();
+  const resolved = resolveEntryNotes(approval, request);
+  if (!resolved.ok) {
+    return resolved;
+  }
+  const { notes } = resolved;
+
+  if (request.action === "approve" || request.action === "reject") {
+    return advanceApproval(approval, flow, {
+      action: request.action,
+      actorId: request.actorId,
+      targetStageId: request.targetStageId,
+      comment: notes.comment,
+      attachmentIds: notes.attachmentIds,
+      users: request.users,
+      timestamp,
+    });
+  }
+
+  if (request.action === "comment") {
+    if (!notes.comment && !notes.attachmentIds) {
+      return {
+        ok: false,
+        issues: ["Comment text or an attachment is required."],
+      };
+    }
+    return {
+      ok: true,
+      approval: {
+        ...approval,
+        lastUpdatedAt: timestamp,
+        history: [
+          ...(approval.history ?? []),
+          {
+            id: generateId("h"),
+            action: "comment",
+            actorId: request.actorId,
+            fromStageId: approval.currentStageId,
+            ...notes,
+            timestamp,
+          },
+        ],
+      },
+    };
+  }
+
+  if (request.actorId !== approval.requesterId) {
+    return {
+      ok: false,
+      issues: ["Only the requester can withdraw an approval."],
+    };
+  }
+
+  if (isApprovalClosed(approval, flow)) {
+    return {
+      ok: false,
+      issues: [`Approval ${approval.id} is already closed.`],
+    };
+  }
+
+  return {
+    ok: true,
+    approval: {
+      ...approval,
+      status: "end",
+      approverIds: [],
+      sla: undefined,
+      lastUpdatedAt: timestamp,
+      history: [
+        ...(approval.history ?? []),
+        {
+          id: generateId("h"),
+          action: "withdraw",
+          actorId: request.actorId,
+          fromStageId: approval.currentStageId,
+          ...notes,
+          timestamp,
+        },
+      ],
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import type {
+  Approval,
+  ApprovalAttachment,
+  ApprovalFlow,
+  ApprovalHistoryEntry,
+  InAppNotification,
+  OutboxMessage,
+  User,
+} from "@/types";
+
+export type TimelineEventKind =
+  | "action"
+  | "comment"
+  | "attachment"
+  | "escalation"
+  | "notification";
+
+export interface TimelineEvent {
+  id: string;
+  timestamp: string;
+  kind: TimelineEventKind;
+  title: string;
+  /** Stage movement, recipients or delivery state. */
+  detail?: string;
+  /** Comment text, quoted as written. */
+  comment?: string;
+  /** Names of the users tagged in the comment. */
+  mentions?: string[];
+  attachments?: ApprovalAttachment[];
+  /** Replies to this comment, oldest first. */
+  replies?: TimelineEvent[];
+  tone: "neutral" | "positive" | "negative" | "warning";
+}
+
+const ACTION_VERBS: Record<ApprovalHistoryEntry["action"], string> = {
+  submit: "submitted the request",
+  approve: "approved",
+  reject: "rejected",
+  withdraw: "withdrew the request",
+  comment: "commented",
+  remind: "sent an SLA reminder",
+  escalate: "escalated the overdue stage",
+  "auto-transition": "moved the overdue request on",
+};
+
+const ACTION_TONES: Record<
+  ApprovalHistoryEntry["action"],
+  TimelineEvent["tone"]
+> = {
+  submit: "neutral",
+  approve: "positive",
+  reject: "negative",
+  withdraw: "negative",
+  comment: "neutral",
+  remind: "warning",
+  escalate: "warning",
+  "auto-transition": "warning",
+};
+
+function historyEvent(
+  entry: ApprovalHistoryEntry,
+  flow: ApprovalFlow | undefined,
+  attachments: ApprovalAttachment[],
+  userName: (id: string) => string,
+): TimelineEvent {
+  const stageName = (id: string | undefined) =>
+    flow?.definition.stages.find((stage) => stage.id === id)?.name ?? id;
+  const isEscalation =
+    entry.action === "remind" ||
+    entry.action === "escalate" ||
+    entry.action === "auto-transition";
+  const actor = isEscalation ? "SLA timer" : userName(entry.actorId);
+  const onBehalf = entry.onBehalfOfId
+    ? ` on behalf of ${userName(entry.onBehalfOfId)}`
+    : "";
+  const movement =
+    entry.toStageId && entry.toStageId !== entry.fromStageId
+      ? entry.fromStageId
+        ? `${stageName(entry.fromStageId)} → ${stageName(entry.toStageId)}`
+        : `Entered ${stageName(entry.toStageId)}`
+      : entry.fromStageId
+        ? `At ${stageName(entry.fromStageId)}`
+        : undefined;
+
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    kind: isEscalation
+      ? "escalation"
+      : entry.action === "comment"
+        ? "comment"
+        : "action",
+    title: `${actor} ${entry.replyToId ? "replied" : ACTION_VERBS[entry.action]}${onBehalf}`,
+    detail: entry.transitionLabel
+      ? `${movement ?? ""} · ${entry.transitionLabel}`.replace(/^ · /, "")
+      : movement,
+    comment: entry.comment,
+    mentions: entry.mentionIds?.map(userName),
+    attachments: entry.attachmentIds
+      ?.map((id) => attachments.find((attachment) => attachment.id === id))
+      .filter((attachment): attachment is ApprovalAttachment =>
+        Boolean(attachment),
+      ),
+    tone: ACTION_TONES[entry.action],
+  };
+}
+
+function outboxEvent(
+  message: OutboxMessage,
+  possessive: (id: string) => string,
+): TimelineEvent {
+  const isWebhook = message.channel === "webhook";
+  const destination = isWebhook
+    ? (message.url ?? "webhook")
+    : message.to.join(", ");
+  const titles: Record<OutboxMessage["status"], string> = {
+    pending: isWebhook ? "Webhook queued" : "Email queued",
+    sending: isWebhook ? "Webhook sending" : "Email sending",
+    sent: isWebhook ? "Webhook delivered" : "Email sent",
+    failed: isWebhook ? "Webhook failed" : "Email failed",
+    held: `Email held for ${message.recipientId ? possessive(message.recipientId) : "a"} digest`,
+    batched: `Email included in ${message.recipientId ? possessive(message.recipientId) : "a"} digest`,
+  };
+
+  return {
+    id: message.id,
+    timestamp: message.sentAt ?? message.createdAt,
+    kind: "notification",
+    title: `${titles[message.status]}: ${message.subject}`,
+    detail: [
+      isWebhook ? `POST ${destination}` : `To ${destination}`,
+      message.status === "failed" && message.lastError
+        ? message.lastError
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    tone: message.status === "failed" ? "negative" : "neutral",
+  };
+}
+
+/**
+ * Groups in-app notifications created together for one stage into a single
+ * event naming everyone who received them.
+ */
+function inboxEvents(
+  notifications: InAppNotification[],
+  userName: (id: string) => string,
+): TimelineEvent[] {
+  const groups = new Map<string, InAppNotification[]>();
+  notifications.forEach((notification) => {
+    const key = `${notification.stageId}@${notification.createdAt}`;
+    groups.set(key, [...(groups.get(key) ?? []), notification]);
+  });
+  return Array.from(groups.values()).map((group) => ({
+    id: group[0].id,
+    timestamp: group[0].createdAt,
+    kind: "notification",
+    title: `In-app notification: ${group[0].title}`,
+    detail: `To ${group.map((item) => userName(item.userId)).join(", ")}`,
+    tone: "neutral",
+  }));
+}
+
+/**
+ * Merges the approval's history with the notifications it produced into one
+ * chronological list, oldest first. Replies are nested under the comment
+ * they answer, and uploads no entry refers to get an event of their own.
+ * Digests are left out: they cover many approvals, and the batched copy
+ * already shows up here.
+ */
+export function buildApprovalTimeline(
+  approval: Approval,
+  context: {
+    flow?: ApprovalFlow;
+    users: User[];
+    outbox: OutboxMessage[];
+    inbox: InAppNotification[];
+  },
+): TimelineEvent[] {
+  const userName = (id: string) =>
+    context.users.find((user) => user.id === id)?.name ?? id;
+  const possessive = (id: string) => `${userName(id)}'s`;
+  const history = approval.history ?? [];
+  const attachments = approval.attachments ?? [];
+  const byTimestamp = (left: TimelineEvent, right: TimelineEvent) =>
+    left.timestamp.localeCompare(right.timestamp);
+
+  const replies = new Map<string, TimelineEvent[]>();
+  history.forEach((entry) => {
+    if (entry.replyToId) {
+      replies.set(entry.replyToId, [
+        ...(replies.get(entry.replyToId) ?? []),
+        historyEvent(entry, context.flow, attachments, userName),
+      ]);
+    }
+  });
+  const referenced = new Set(
+    history.flatMap((entry) => entry.attachmentIds ?? []),
+  );
+
+  return [
+    ...history
+      .filter((entry) => !entry.replyToId)
+      .map((entry) => {
+        const event = historyEvent(entry, context.flow, attachments, userName);
+        const thread = replies.get(entry.id);
+        return thread ? { ...event, replies: thread.sort(byTimestamp) } : event;
+      }),
+    ...attachments
+      .filter((attachment) => !referenced.has(attachment.id))
+      .map(
+        (attachment): TimelineEvent => ({
+          id: attachment.id,
+          timestamp: attachment.uploadedAt,
+          kind: "attachment",
+          title: `${userName(attachment.uploadedById)} attached a file`,
+          attachments: [attachment],
+          tone: "neutral",
+        }),
+      ),
+    ...context.outbox
+      .filter(
+        (message) => message.approvalId === approval.id && !message.digestOf,
+      )
+      .map((message) => outboxEvent(message, possessive)),
+    ...inboxEvents(
+      context.inbox.filter(
+        (notification) => notification.approvalId === approval.id,
+      ),
+      userName,
+    ),
+  ].sort(byTimestamp);
+}
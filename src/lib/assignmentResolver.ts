@@ -0,0 +1,202 @@
+import {
+  ApprovalFlowStage,
+  PayloadField,
+  StageAssignment,
+  User,
+} from "@/types";
+
+export type StageAssignmentKind = StageAssignment["kind"];
+
+export interface AssignmentContext {
+  users: User[];
+  requesterId?: string;
+  payload?: Record<string, unknown>;
+}
+
+export const ASSIGNMENT_KINDS: { value: StageAssignmentKind; label: string }[] =
+  [
+    { value: "role", label: "Role" },
+    { value: "group", label: "Group" },
+    { value: "requester-supervisor", label: "Requester's supervisor" },
+    { value: "payload-field", label: "Payload field" },
+  ];
+
+const MAX_SUPERVISOR_LEVELS = 10;
+
+export function isStageAssignmentKind(
+  value: unknown,
+): value is StageAssignmentKind {
+  return ASSIGNMENT_KINDS.some((kind) => kind.value === value);
+}
+
+export function describeAssignment(assignment: StageAssignment) {
+  switch (assignment.kind) {
+    case "role":
+      return `Role: ${assignment.role}`;
+    case "group":
+      return `Group: ${assignment.group}`;
+    case "requester-supervisor": {
+      const levels = assignment.levels ?? 1;
+      return levels === 1
+        ? "Requester's supervisor"
+        : `Requester's supervisor (${levels} levels up)`;
+    }
+    case "payload-field":
+      return `Payload field: ${assignment.field}`;
+  }
+}
+
+export function listUserGroups(users: User[]) {
+  return Array.from(
+    new Set(users.flatMap((user) => user.groups ?? [])),
+  ).sort();
+}
+
+export function listUserRoles(users: User[]) {
+  return Array.from(new Set(users.map((user) => user.role))).sort();
+}
+
+/** Walks `levels` steps up the `supervisorId` chain; stops on cycles. */
+export function walkSupervisors(
+  users: User[],
+  requesterId: string | undefined,
+  levels: number,
+) {
+  let current = users.find((user) => user.id === requesterId);
+  const visited = new Set<string>();
+  for (let step = 0; step < levels && current; step += 1) {
+    visited.add(current.id);
+    const supervisorId: string | null | undefined = current.supervisorId;
+    current = supervisorId
+      ? users.find((user) => user.id === supervisorId)
+      : undefined;
+    if (current && visited.has(current.id)) {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function matchPayloadUsers(users: User[], value: unknown) {
+  const references = (Array.isArray(value) ? value : [value]).filter(
+    (reference): reference is string => typeof reference === "string",
+  );
+  return users.filter((user) =>
+    references.some(
+      (reference) =>
+        reference === user.id ||
+        reference.toLowerCase() === user.email.toLowerCase(),
+    ),
+  );
+}
+
+/** Maps an assignment rule to the users it currently selects. */
+export function resolveAssignment(
+  assignment: StageAssignment,
+  context: AssignmentContext,
+): User[] {
+  switch (assignment.kind) {
+    case "role": {
+      const role = assignment.role.trim().toLowerCase();
+      return context.users.filter(
+        (user) => user.role.trim().toLowerCase() === role,
+      );
+    }
+    case "group":
+      return context.users.filter((user) =>
+        (user.groups ?? []).includes(assignment.group),
+      );
+    case "requester-supervisor": {
+      const supervisor = walkSupervisors(
+        context.users,
+        context.requesterId,
+        Math.min(assignment.levels ?? 1, MAX_SUPERVISOR_LEVELS),
+      );
+      return supervisor ? [supervisor] : [];
+    }
+    case "payload-field":
+      return matchPayloadUsers(
+        context.users,
+        context.payload?.[assignment.field],
+      );
+  }
+}
+
+/**
+ * Works out who an approval waits on at a stage. Parallel sign-off lists win,
+ * then the stage's assignment rule, and `actorUserId` is the fallback when the
+ * rule matches nobody.
+ */
+export function resolveStageAssignees(
+  stage: ApprovalFlowStage | undefined,
+  context: AssignmentContext,
+): string[] {
+  if (!stage) {
+    return [];
+  }
+  if (stage.approvers) {
+    return [...stage.approvers.userIds];
+  }
+  if (stage.assignment) {
+    const assignees = resolveAssignment(stage.assignment, context);
+    if (assignees.length > 0) {
+      return assignees.map((user) => user.id);
+    }
+  }
+  return stage.actorUserId ? [stage.actorUserId] : [];
+}
+
+export function validateStageAssignment(
+  stageName: string,
+  assignment: unknown,
+  payloadSchema?: PayloadField[],
+): string[] {
+  if (assignment === undefined) {
+    return [];
+  }
+  const candidate = (assignment ?? {}) as Record<string, unknown>;
+  const label = `Stage "${stageName}" assignment`;
+
+  switch (candidate.kind) {
+    case "role":
+      return typeof candidate.role === "string" && candidate.role.trim()
+        ? []
+        : [`${label} needs a role.`];
+    case "group":
+      return typeof candidate.group === "string" && candidate.group.trim()
+        ? []
+        : [`${label} needs a group.`];
+    case "requester-supervisor": {
+      const levels = candidate.levels ?? 1;
+      return typeof levels === "number" &&
+        Number.isInteger(levels) &&
+        levels >= 1 &&
+        levels <= MAX_SUPERVISOR_LEVELS
+        ? []
+        : [
+            `${label} must walk between 1 and ${MAX_SUPERVISOR_LEVELS} supervisor levels.`,
+          ];
+    }
+    case "payload-field": {
+      if (typeof candidate.field !== "string" || !candidate.field.trim()) {
+        return [`${label} needs a payload field.`];
+      }
+      const field = Array.isArray(payloadSchema)
+        ? payloadSchema.find((item) => item.name === candidate.field)
+        : undefined;
+      if (Array.isArray(payloadSchema) && !field) {
+        return [`${label} reads unknown payload field "${candidate.field}".`];
+      }
+      if (field && field.type !== "string") {
+        return [
+          `${label} field "${candidate.field}" must be a string holding a user id or email.`,
+        ];
+      }
+      return [];
+    }
+    default:
+      return [
+        `${label} kind must be one of ${ASSIGNMENT_KINDS.map((kind) => kind.value).join(", ")}.`,
+      ];
+  }
+}
@@ -0,0 +1,56 @@
+import type { Approval, ApprovalAttachment } from "@/types";
+import { generateId } from "@/lib/dataStore";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+/** Room for the multipart boundaries and headers around the file itself. */
+export const MAX_ATTACHMENT_REQUEST_BYTES = MAX_ATTACHMENT_BYTES + 64 * 1024;
+
+/** Keeps the base name and drops characters that would break a download header. */
+export function sanitizeFileName(name: string) {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\x00-\x1f"\\]/g, "").trim();
+  return cleaned || "attachment";
+}
+
+export function validateAttachmentUpload(file: {
+  name: string;
+  size: number;
+}): string[] {
+  const issues: string[] = [];
+  if (file.size === 0) {
+    issues.push(`"${file.name}" is empty.`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    issues.push(
+      `"${file.name}" is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB.`,
+    );
+  }
+  return issues;
+}
+
+export function createAttachment(
+  approval: Approval,
+  file: { name: string; type: string; size: number },
+  uploadedById: string,
+): ApprovalAttachment {
+  const id = generateId("att");
+  return {
+    id,
+    fileName: sanitizeFileName(file.name),
+    contentType: file.type || "application/octet-stream",
+    size: file.size,
+    blobKey: `${approval.id}/${id}`,
+    uploadedById,
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
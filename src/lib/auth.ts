@@ -0,0 +1,35 @@
+import { cookies } from "next/headers";
+import type { Session, User } from "@/types";
+import { getRepository } from "@/lib/dataStore";
+import { SESSION_COOKIE, readSessionToken } from "@/lib/session";
+
+export async function getSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  return readSessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * The signed-in user for the current request. Null when there is no valid
+ * session, the user has since been removed from the directory, or they
+ * signed out or changed their password after the session was issued.
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const session = await getSession();
+  if (!session) {
+    return null;
+  }
+  const repository = await getRepository();
+  const user = await repository.users.get(session.userId);
+  if (!user || (session.version ?? 0) !== (user.sessionVersion ?? 0)) {
+    return null;
+  }
+  return user;
+}
+
+/**
+ * " (by Name)" when someone changes another user's settings, so the log
+ * shows who made the change; empty when users edit their own.
+ */
+export function byline(actor: User, subject: User) {
+  return actor.id === subject.id ? "" : ` (by ${actor.name})`;
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface BlobStore {
+  name: BlobStoreKind;
+  put(key: string, data: Uint8Array): Promise<void>;
+  /** Resolves to null when nothing is stored under `key`. */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type BlobStoreKind = "local";
+
+const KEY_PATTERN = /^[\w-]+(?:\/[\w.-]+)*$/;
+
+export function isBlobKey(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    KEY_PATTERN.test(value) &&
+    !value.split("/").includes("..")
+  );
+}
+
+function assertBlobKey(key: string) {
+  if (!isBlobKey(key)) {
+    throw new Error(`Invalid blob key "${key}".`);
+  }
+}
+
+/** Stores each blob as a file at `<directory>/<key>`. */
+export function createLocalBlobStore(directory: string): BlobStore {
+  const resolve = (key: string) => {
+    assertBlobKey(key);
+    return path.join(directory, ...key.split("/"));
+  };
+
+  return {
+    name: "local",
+    put: async (key, data) => {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    get: async (key) => {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+    delete: async (key) => {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Builds the store selected by `APPROVAL_BLOB_STORE`. Only `local` exists
+ * today; it writes to `APPROVAL_BLOB_DIR` (default `.blobs/`).
+ */
+export function createBlobStore(
+  env: NodeJS.ProcessEnv = process.env,
+): BlobStore {
+  const kind = env.APPROVAL_BLOB_STORE ?? "local";
+  if (kind !== "local") {
+    throw new Error(`Unknown blob store "${kind}".`);
+  }
+  return createLocalBlobStore(
+    env.APPROVAL_BLOB_DIR ?? path.join(process.cwd(), ".blobs"),
+  );
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateCondition,
+  listConditionFields,
+  parseCondition,
+} from "@/lib/conditionExpression";
+
+function check(source: string, payload: Record<string, unknown> = {}) {
+  const parsed = parseCondition(source);
+  if (!parsed.ok) {
+    throw new Error(parsed.issues.join(" "));
+  }
+  return evaluateCondition(parsed.expression, payload);
+}
+
+describe("parseCondition", () => {
+  it("rejects empty conditions", () => {
+    expect(parseCondition("  ")).toEqual({
+      ok: false,
+      issues: ["Condition is empty."],
+    });
+  });
+
+  it("reports where the syntax breaks", () => {
+    expect(parseCondition("amount > ")).toEqual({
+      ok: false,
+      issues: ["Unexpected end of expression."],
+    });
+    expect(parseCondition("amount # 5")).toEqual({
+      ok: false,
+      issues: ['Unexpected character "#" at column 8.'],
+    });
+    expect(parseCondition("name == 'open")).toEqual({
+      ok: false,
+      issues: ["Unterminated string starting at column 9."],
+    });
+    expect(parseCondition("(amount > 5")).toEqual({
+      ok: false,
+      issues: ['Expected ")" but found end of expression.'],
+    });
+  });
+
+  it("only accepts a minus sign in front of a number", () => {
+    expect(parseCondition("amount > -amount")).toEqual({
+      ok: false,
+      issues: [
+        'Expected a number after "-" at column 10 but found "amount" at column 11.',
+      ],
+    });
+    expect(parseCondition("amount > 5 - 2")).toEqual({
+      ok: false,
+      issues: ['Unexpected "-" at column 12.'],
+    });
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("compares numbers and strings", () => {
+    expect(check("amount > 1000", { amount: 1500 })).toBe(true);
+    expect(check("amount <= 1000", { amount: 1500 })).toBe(false);
+    expect(check("region == 'EU'", { region: "EU" })).toBe(true);
+    expect(check('region != "EU"', { region: "US" })).toBe(true);
+  });
+
+  it("compares against negative numbers", () => {
+    expect(check("amount > -5", { amount: -3 })).toBe(true);
+    expect(check("amount > -5", { amount: -7.5 })).toBe(false);
+    expect(check("amount >= - 2.5", { amount: -2.5 })).toBe(true);
+    expect(check("delta in [-1, 0, 1]", { delta: -1 })).toBe(true);
+  });
+
+  it("treats ordering across types as false", () => {
+    expect(check("amount > 5", { amount: "10" })).toBe(false);
+    expect(check("amount < 5", {})).toBe(false);
+  });
+
+  it("reads missing fields as null", () => {
+    expect(check("manager == null", {})).toBe(true);
+    expect(check("vendor.name == null", { vendor: "Acme" })).toBe(true);
+  });
+
+  it("follows nested field paths", () => {
+    expect(
+      check("vendor.country == 'DE'", { vendor: { country: "DE" } }),
+    ).toBe(true);
+  });
+
+  it("never reaches prototype properties", () => {
+    expect(check("constructor == null", {})).toBe(true);
+    expect(check("vendor.toString == null", { vendor: {} })).toBe(true);
+  });
+
+  it("matches list membership with in", () => {
+    expect(check("region in ['EU', 'UK']", { region: "UK" })).toBe(true);
+    expect(check("region in ['EU', 'UK']", { region: "US" })).toBe(false);
+    expect(check("region in []", { region: "US" })).toBe(false);
+  });
+
+  it("binds && tighter than || and ! tighter than both", () => {
+    expect(check("true || false && false")).toBe(true);
+    expect(check("(true || false) && false")).toBe(false);
+    expect(check("!false && true")).toBe(true);
+    expect(check("!(amount > 5)", { amount: 3 })).toBe(true);
+  });
+});
+
+describe("listConditionFields", () => {
+  it("lists each top-level field once", () => {
+    const parsed = parseCondition(
+      "amount > 5 && vendor.country == 'DE' || amount < 1 && region in [tier]",
+    );
+    expect(parsed.ok && listConditionFields(parsed.expression)).toEqual([
+      "amount",
+      "vendor",
+      "region",
+      "tier",
+    ]);
+  });
+});
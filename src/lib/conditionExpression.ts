@@ -0,0 +1,402 @@
+export type ConditionValue = string | number | boolean | null;
+
+export type ComparisonOperator = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in";
+
+export type ConditionNode =
+  | { kind: "literal"; value: ConditionValue }
+  | { kind: "field"; path: string[] }
+  | { kind: "list"; items: ConditionNode[] }
+  | { kind: "not"; operand: ConditionNode }
+  | {
+      kind: "logical";
+      operator: "&&" | "||";
+      left: ConditionNode;
+      right: ConditionNode;
+    }
+  | {
+      kind: "compare";
+      operator: ComparisonOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+export type ConditionParseResult =
+  | { ok: true; expression: ConditionNode }
+  | { ok: false; issues: string[] };
+
+type Token =
+  | { type: "number"; value: number; column: number }
+  | { type: "string"; value: string; column: number }
+  | { type: "identifier"; value: string; column: number }
+  | { type: "symbol"; value: string; column: number }
+  | { type: "end"; column: number };
+
+const SYMBOLS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "!",
+  "-",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+];
+
+const COMPARISON_OPERATORS = new Set<string>([
+  "==",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "in",
+]);
+
+const KEYWORDS: Record<string, ConditionValue> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+class ConditionSyntaxError extends Error {}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const column = index + 1;
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(index));
+      const raw = match?.[0] ?? char;
+      tokens.push({ type: "number", value: Number(raw), column });
+      index += raw.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let cursor = index + 1;
+      while (cursor < source.length && source[cursor] !== char) {
+        if (source[cursor] === "\\" && cursor + 1 < source.length) {
+          cursor += 1;
+        }
+        value += source[cursor];
+        cursor += 1;
+      }
+      if (cursor >= source.length) {
+        throw new ConditionSyntaxError(
+          `Unterminated string starting at column ${column}.`,
+        );
+      }
+      tokens.push({ type: "string", value, column });
+      index = cursor + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(index));
+      const raw = match?.[0] ?? char;
+      tokens.push({ type: "identifier", value: raw, column });
+      index += raw.length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) =>
+      source.startsWith(candidate, index),
+    );
+    if (!symbol) {
+      throw new ConditionSyntaxError(
+        `Unexpected character "${char}" at column ${column}.`,
+      );
+    }
+    tokens.push({ type: "symbol", value: symbol, column });
+    index += symbol.length;
+  }
+
+  tokens.push({ type: "end", column: source.length + 1 });
+  return tokens;
+}
+
+function describeToken(token: Token) {
+  return token.type === "end"
+    ? "end of expression"
+    : `"${token.value}" at column ${token.column}`;
+}
+
+/**
+ * Recursive-descent parser. Precedence from loosest to tightest:
+ * `||`, `&&`, `!`, comparisons, then literals, field paths, lists and
+ * parenthesised groups. A `-` may only lead a number literal.
+ */
+function parseTokens(tokens: Token[]): ConditionNode {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const advance = () => {
+    const token = tokens[position];
+    position += 1;
+    return token;
+  };
+  const matchSymbol = (value: string) => {
+    const token = peek();
+    if (token.type === "symbol" && token.value === value) {
+      position += 1;
+      return true;
+    }
+    return false;
+  };
+  const expectSymbol = (value: string) => {
+    if (!matchSymbol(value)) {
+      throw new ConditionSyntaxError(
+        `Expected "${value}" but found ${describeToken(peek())}.`,
+      );
+    }
+  };
+
+  const parsePrimary = (): ConditionNode => {
+    const token = advance();
+
+    if (token.type === "number" || token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (token.type === "symbol" && token.value === "-") {
+      const number = advance();
+      if (number.type !== "number") {
+        throw new ConditionSyntaxError(
+          `Expected a number after "-" at column ${token.column} but found ${describeToken(number)}.`,
+        );
+      }
+      return { kind: "literal", value: -number.value };
+    }
+
+    if (token.type === "identifier") {
+      if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+        return { kind: "literal", value: KEYWORDS[token.value] };
+      }
+      const path = [token.value];
+      while (matchSymbol(".")) {
+        const segment = advance();
+        if (segment.type !== "identifier") {
+          throw new ConditionSyntaxError(
+            `Expected a field name but found ${describeToken(segment)}.`,
+          );
+        }
+        path.push(segment.value);
+      }
+      return { kind: "field", path };
+    }
+
+    if (token.type === "symbol" && token.value === "(") {
+      const expression = parseOr();
+      expectSymbol(")");
+      return expression;
+    }
+
+    if (token.type === "symbol" && token.value === "[") {
+      const items: ConditionNode[] = [];
+      if (!matchSymbol("]")) {
+        do {
+          items.push(parsePrimary());
+        } while (matchSymbol(","));
+        expectSymbol("]");
+      }
+      return { kind: "list", items };
+    }
+
+    throw new ConditionSyntaxError(`Unexpected ${describeToken(token)}.`);
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const left = parsePrimary();
+    const token = peek();
+    const isOperator =
+      (token.type === "symbol" || token.type === "identifier") &&
+      COMPARISON_OPERATORS.has(token.value);
+    if (!isOperator) {
+      return left;
+    }
+    advance();
+    return {
+      kind: "compare",
+      operator: token.value as ComparisonOperator,
+      left,
+      right: parsePrimary(),
+    };
+  };
+
+  const parseUnary = (): ConditionNode =>
+    matchSymbol("!")
+      ? { kind: "not", operand: parseUnary() }
+      : parseComparison();
+
+  const parseAnd = (): ConditionNode => {
+    let left = parseUnary();
+    while (matchSymbol("&&")) {
+      left = { kind: "logical", operator: "&&", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  function parseOr(): ConditionNode {
+    let left = parseAnd();
+    while (matchSymbol("||")) {
+      left = { kind: "logical", operator: "||", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  const expression = parseOr();
+  const next = peek();
+  if (next.type !== "end") {
+    throw new ConditionSyntaxError(`Unexpected ${describeToken(next)}.`);
+  }
+  return expression;
+}
+
+export function parseCondition(source: string): ConditionParseResult {
+  if (!source.trim()) {
+    return { ok: false, issues: ["Condition is empty."] };
+  }
+  try {
+    const expression = parseTokens(tokenize(source));
+    return { ok: true, expression };
+  } catch (error) {
+    if (error instanceof ConditionSyntaxError) {
+      return { ok: false, issues: [error.message] };
+    }
+    throw error;
+  }
+}
+
+/** Returns the top-level payload fields an expression reads. */
+export function listConditionFields(expression: ConditionNode): string[] {
+  switch (expression.kind) {
+    case "literal":
+      return [];
+    case "field":
+      return [expression.path[0]];
+    case "list":
+      return expression.items.flatMap(listConditionFields);
+    case "not":
+      return listConditionFields(expression.operand);
+    case "logical":
+    case "compare":
+      return Array.from(
+        new Set([
+          ...listConditionFields(expression.left),
+          ...listConditionFields(expression.right),
+        ]),
+      );
+  }
+}
+
+/**
+ * Looks up a dotted field path on the payload. Only own properties of plain
+ * objects are visible, so expressions cannot reach prototypes or globals.
+ */
+function readField(payload: Record<string, unknown>, path: string[]) {
+  let current: unknown = payload;
+  for (const segment of path) {
+    if (
+      !current ||
+      typeof current !== "object" ||
+      Array.isArray(current) ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function evaluateNode(
+  node: ConditionNode,
+  payload: Record<string, unknown>,
+): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "field":
+      return readField(payload, node.path);
+    case "list":
+      return node.items.map((item) => evaluateNode(item, payload));
+    case "not":
+      return !evaluateNode(node.operand, payload);
+    case "logical": {
+      const left = Boolean(evaluateNode(node.left, payload));
+      if (node.operator === "&&") {
+        return left && Boolean(evaluateNode(node.right, payload));
+      }
+      return left || Boolean(evaluateNode(node.right, payload));
+    }
+    case "compare":
+      return compareValues(
+        node.operator,
+        evaluateNode(node.left, payload),
+        evaluateNode(node.right, payload),
+      );
+  }
+}
+
+function compareValues(
+  operator: ComparisonOperator,
+  left: unknown,
+  right: unknown,
+): boolean {
+  switch (operator) {
+    case "==":
+      return (left ?? null) === (right ?? null);
+    case "!=":
+      return (left ?? null) !== (right ?? null);
+    case "in":
+      return Array.isArray(right) && right.includes(left);
+  }
+
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) {
+    return false;
+  }
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+  }
+}
+
+/**
+ * Evaluates a parsed condition against approval payload fields. Missing fields
+ * read as `null`, and ordering comparisons between mismatched types are false.
+ */
+export function evaluateCondition(
+  expression: ConditionNode,
+  payload: Record<string, unknown>,
+): boolean {
+  return Boolean(evaluateNode(expression, payload));
+}
@@ -1,16 +1,37 @@
-import { promises as fs } from "fs";
 import path from "path";
-import { MockData } from "@/types";
+import { LogEntry, MockData } from "@/types";
+import { DataRepository, resolveStorageDriver } from "@/lib/repository";
+import { createJsonRepository } from "@/lib/jsonRepository";
 
-const DATA_PATH = path.join(process.cwd(), "src", "data", "mockData.json");
+const DATA_PATH =
+  process.env.APPROVAL_DATA_PATH ??
+  path.join(process.cwd(), "src", "data", "mockData.json");
+const SQLITE_PATH =
+  process.env.APPROVAL_SQLITE_PATH ??
+  path.join(process.cwd(), "src", "data", "approvals.db");
 
-export async function readData(): Promise<MockData> {
-  const raw = await fs.readFile(DATA_PATH, "utf-8");
-  return JSON.parse(raw) as MockData;
+let repository: Promise<DataRepository> | null = null;
+
+async function openRepository(): Promise<DataRepository> {
+  const driver = resolveStorageDriver(process.env.APPROVAL_STORAGE_DRIVER);
+  if (driver === "sqlite") {
+    const { createSqliteRepository } = await import("@/lib/sqliteRepository");
+    return createSqliteRepository(SQLITE_PATH, DATA_PATH);
+  }
+  return createJsonRepository(DATA_PATH);
 }
 
-export async function writeData(data: MockData): Promise<void> {
-  await fs.writeFile(DATA_PATH, JSON.stringify(data, null, 2), "utf-8");
+/**
+ * Returns the storage adapter selected by `APPROVAL_STORAGE_DRIVER`
+ * (`json` by default, or `sqlite`). The adapter is opened once per process.
+ */
+export function getRepository(): Promise<DataRepository> {
+  repository ??= openRepository();
+  return repository;
+}
+
+export async function readData(): Promise<MockData> {
+  return (await getRepository()).snapshot();
 }
 
 export function generateId(prefix: string): string {
@@ -19,3 +40,17 @@ export function generateId(prefix: string): string {
     : Math.random().toString(36).slice(2, 10);
   return `${prefix}-${random}`;
 }
+
+export function createLogEntry(
+  level: LogEntry["level"],
+  message: string,
+  context: Record<string, unknown>,
+): LogEntry {
+  return {
+    id: generateId("lg"),
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    context,
+  };
+}
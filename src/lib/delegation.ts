@@ -0,0 +1,157 @@
+import { User, UserDelegation } from "@/types";
+
+export type DelegationValidationResult =
+  | { ok: true; delegation: UserDelegation }
+  | { ok: false; issues: string[] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCalendarDate(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    DATE_PATTERN.test(value) &&
+    !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+  );
+}
+
+function toCalendarDate(now: Date) {
+  return now.toISOString().slice(0, 10);
+}
+
+export function isDelegationActive(
+  delegation: UserDelegation | undefined,
+  now: Date,
+): delegation is UserDelegation {
+  if (!delegation) {
+    return false;
+  }
+  const today = toCalendarDate(now);
+  return delegation.startsOn <= today && today <= delegation.endsOn;
+}
+
+export type DelegationStatus = "active" | "scheduled" | "expired";
+
+export function getDelegationStatus(
+  delegation: UserDelegation,
+  now: Date,
+): DelegationStatus {
+  const today = toCalendarDate(now);
+  if (today < delegation.startsOn) {
+    return "scheduled";
+  }
+  return today <= delegation.endsOn ? "active" : "expired";
+}
+
+/**
+ * Follows active delegations from `userId` (A → B → C) and returns who should
+ * receive the work. Cycles stop at the last user before the loop closes.
+ */
+export function resolveDelegate(
+  userId: string,
+  users: User[],
+  now: Date,
+): string {
+  const visited = new Set<string>([userId]);
+  let current = userId;
+
+  for (;;) {
+    const user = users.find((item) => item.id === current);
+    const delegation = user?.delegation;
+    if (
+      !isDelegationActive(delegation, now) ||
+      visited.has(delegation.delegateId) ||
+      !users.some((item) => item.id === delegation.delegateId)
+    ) {
+      return current;
+    }
+    visited.add(delegation.delegateId);
+    current = delegation.delegateId;
+  }
+}
+
+/** Maps assignees to whoever currently covers for them, without duplicates. */
+export function routeToDelegates(
+  userIds: string[],
+  users: User[],
+  now: Date,
+): string[] {
+  return Array.from(
+    new Set(userIds.map((id) => resolveDelegate(id, users, now))),
+  );
+}
+
+/**
+ * Returns which of `assigneeIds` the actor is covering for, or undefined when
+ * the actor is an assignee themselves or covers for nobody.
+ */
+export function findPrincipal(
+  actorId: string,
+  assigneeIds: string[],
+  users: User[],
+  now: Date,
+): string | undefined {
+  if (assigneeIds.includes(actorId)) {
+    return undefined;
+  }
+  return assigneeIds.find(
+    (assigneeId) => resolveDelegate(assigneeId, users, now) === actorId,
+  );
+}
+
+export function validateDelegation(
+  user: User,
+  input: unknown,
+  users: User[],
+): DelegationValidationResult {
+  const candidate = (input ?? {}) as Record<string, unknown>;
+  const issues: string[] = [];
+  const delegate = users.find((item) => item.id === candidate.delegateId);
+
+  if (!delegate) {
+    issues.push(`Delegate "${String(candidate.delegateId ?? "")}" not found.`);
+  } else if (delegate.id === user.id) {
+    issues.push("Users cannot delegate to themselves.");
+  }
+  if (!isCalendarDate(candidate.startsOn)) {
+    issues.push("Start date must be a YYYY-MM-DD date.");
+  }
+  if (!isCalendarDate(candidate.endsOn)) {
+    issues.push("End date must be a YYYY-MM-DD date.");
+  }
+  if (
+    isCalendarDate(candidate.startsOn) &&
+    isCalendarDate(candidate.endsOn) &&
+    candidate.startsOn > candidate.endsOn
+  ) {
+    issues.push("End date must be on or after the start date.");
+  }
+  if (
+    delegate?.delegation?.delegateId === user.id &&
+    isCalendarDate(candidate.startsOn) &&
+    isCalendarDate(candidate.endsOn) &&
+    delegate.delegation.startsOn <= candidate.endsOn &&
+    candidate.startsOn <= delegate.delegation.endsOn
+  ) {
+    issues.push(
+      `${delegate.name} already delegates to ${user.name} during those dates.`,
+    );
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  const note =
+    typeof candidate.note === "string" && candidate.note.trim()
+      ? candidate.note.trim()
+      : undefined;
+  return {
+    ok: true,
+    delegation: {
+      delegateId: String(candidate.delegateId),
+      startsOn: String(candidate.startsOn),
+      endsOn: String(candidate.endsOn),
+      note,
+    },
+  };
+}
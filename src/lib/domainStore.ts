@@ -0,0 +1,314 @@
+import type { Domain, Subdomain, User } from "@/types";
+import type {
+  DataRepository,
+  DomainRecord,
+  SubdomainRecord,
+} from "@/lib/repository";
+
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export interface DomainInput {
+  name: string;
+  description: string;
+  ownerIds: string[];
+}
+
+export type DomainInputResult =
+  | { ok: true; input: DomainInput }
+  | { ok: false; issues: string[] };
+
+export type DomainMutationResult =
+  | { ok: true; domain: Domain; subdomain?: Subdomain }
+  | { ok: false; status: number; issues: string[] };
+
+/**
+ * Validates the editable fields shared by domains and subdomains. Owners must
+ * be known users; duplicates are dropped. Domains need at least one owner,
+ * subdomains fall back to their domain's.
+ */
+export function parseDomainInput(
+  body: unknown,
+  users: User[],
+  kind: "domain" | "subdomain",
+): DomainInputResult {
+  const issues: string[] = [];
+  const candidate = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof candidate.name !== "string" || !candidate.name.trim()) {
+    issues.push("Name is required.");
+  }
+  if (
+    candidate.description !== undefined &&
+    typeof candidate.description !== "string"
+  ) {
+    issues.push("Description must be text.");
+  }
+
+  const ownerIds = candidate.ownerIds ?? [];
+  if (
+    !Array.isArray(ownerIds) ||
+    ownerIds.some((ownerId) => typeof ownerId !== "string")
+  ) {
+    issues.push("Owners must be a list of user ids.");
+  } else {
+    ownerIds
+      .filter((ownerId) => !users.some((user) => user.id === ownerId))
+      .forEach((ownerId) => issues.push(`Owner "${ownerId}" is not a known user.`));
+    if (kind === "domain" && ownerIds.length === 0) {
+      issues.push("Name at least one owner for the domain.");
+    }
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return {
+    ok: true,
+    input: {
+      name: (candidate.name as string).trim(),
+      description: ((candidate.description as string | undefined) ?? "").trim(),
+      ownerIds: Array.from(new Set(ownerIds as string[])),
+    },
+  };
+}
+
+function invalidId(kind: "Domain" | "Subdomain"): DomainMutationResult {
+  return {
+    ok: false,
+    status: 400,
+    issues: [
+      `${kind} id must be lowercase letters and digits separated by single hyphens.`,
+    ],
+  };
+}
+
+function duplicateId(
+  kind: "Domain" | "Subdomain",
+  id: string,
+): DomainMutationResult {
+  return {
+    ok: false,
+    status: 409,
+    issues: [`${kind} id "${id}" is already in use.`],
+  };
+}
+
+function missingDomain(domainId: string): DomainMutationResult {
+  return {
+    ok: false,
+    status: 404,
+    issues: [`Domain "${domainId}" not found.`],
+  };
+}
+
+function missingSubdomain(
+  domainId: string,
+  subdomainId: string,
+): DomainMutationResult {
+  return {
+    ok: false,
+    status: 404,
+    issues: [`Subdomain "${subdomainId}" not found in domain "${domainId}".`],
+  };
+}
+
+async function reload(
+  repository: DataRepository,
+  domainId: string,
+  subdomainId?: string,
+): Promise<DomainMutationResult> {
+  const domain = await repository.domains.get(domainId);
+  if (!domain) {
+    return missingDomain(domainId);
+  }
+  return {
+    ok: true,
+    domain,
+    subdomain: subdomainId
+      ? domain.subdomains.find((item) => item.id === subdomainId)
+      : undefined,
+  };
+}
+
+export async function createDomain(
+  repository: DataRepository,
+  id: unknown,
+  input: DomainInput,
+): Promise<DomainMutationResult> {
+  if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+    return invalidId("Domain");
+  }
+  if (await repository.domains.get(id)) {
+    return duplicateId("Domain", id);
+  }
+  const record: DomainRecord = { id, ...input };
+  await repository.domains.save(record);
+  return reload(repository, record.id);
+}
+
+export async function updateDomain(
+  repository: DataRepository,
+  domain: Domain,
+  input: DomainInput,
+): Promise<DomainMutationResult> {
+  await repository.domains.save({
+    id: domain.id,
+    ...input,
+    archivedAt: domain.archivedAt,
+  });
+  return reload(repository, domain.id);
+}
+
+export async function createSubdomain(
+  repository: DataRepository,
+  domain: Domain,
+  id: unknown,
+  input: DomainInput,
+): Promise<DomainMutationResult> {
+  if (domain.archivedAt) {
+    return {
+      ok: false,
+      status: 409,
+      issues: [`Domain "${domain.name}" is archived.`],
+    };
+  }
+  if (typeof id !== "string" || !ID_PATTERN.test(id)) {
+    return invalidId("Subdomain");
+  }
+  // Subdomain ids are unique across domains, not just within one.
+  const domains = await repository.domains.list();
+  if (
+    domains.some((item) =>
+      item.subdomains.some((subdomain) => subdomain.id === id),
+    )
+  ) {
+    return duplicateId("Subdomain", id);
+  }
+  const record: SubdomainRecord = { id, ...input };
+  await repository.domains.saveSubdomain(domain.id, record);
+  return reload(repository, domain.id, record.id);
+}
+
+export async function updateSubdomain(
+  repository: DataRepository,
+  domain: Domain,
+  subdomainId: string,
+  input: DomainInput,
+): Promise<DomainMutationResult> {
+  const existing = domain.subdomains.find((item) => item.id === subdomainId);
+  if (!existing) {
+    return missingSubdomain(domain.id, subdomainId);
+  }
+  await repository.domains.saveSubdomain(domain.id, {
+    id: existing.id,
+    ...input,
+    archivedAt: existing.archivedAt,
+  });
+  return reload(repository, domain.id, subdomainId);
+}
+
+/**
+ * Archiving always succeeds and keeps everything readable. Deleting refuses
+ * while the subdomain still has live flows or any approvals at all; archived
+ * flows nobody used go with it.
+ */
+export async function removeSubdomain(
+  repository: DataRepository,
+  domain: Domain,
+  subdomainId: string,
+  options: { archive: boolean },
+): Promise<DomainMutationResult> {
+  const existing = domain.subdomains.find((item) => item.id === subdomainId);
+  if (!existing) {
+    return missingSubdomain(domain.id, subdomainId);
+  }
+
+  if (options.archive) {
+    await repository.domains.saveSubdomain(domain.id, {
+      id: existing.id,
+      name: existing.name,
+      description: existing.description,
+      ownerIds: existing.ownerIds,
+      archivedAt: existing.archivedAt ?? new Date().toISOString(),
+    });
+    return reload(repository, domain.id, subdomainId);
+  }
+
+  const issues = await listSubdomainBlockers(repository, existing);
+  if (issues.length > 0) {
+    return { ok: false, status: 409, issues };
+  }
+  await repository.domains.removeSubdomain(domain.id, subdomainId);
+  return { ok: true, domain, subdomain: existing };
+}
+
+async function listSubdomainBlockers(
+  repository: DataRepository,
+  subdomain: Subdomain,
+): Promise<string[]> {
+  const issues: string[] = [];
+  const liveFlows = subdomain.flows.filter((flow) => !flow.archivedAt);
+  if (liveFlows.length > 0) {
+    issues.push(
+      `Subdomain "${subdomain.name}" still has ${liveFlows.length} active flow(s): ${liveFlows
+        .map((flow) => flow.name)
+        .join(", ")}. Archive or delete them first, or archive the subdomain instead.`,
+    );
+  }
+
+  // Closed approvals count too: deleting would strip them of the flow and
+  // version their history is read against.
+  const approvals = (await repository.approvals.list()).filter(
+    (approval) =>
+      approval.subdomainId === subdomain.id ||
+      subdomain.flows.some((flow) => flow.id === approval.flowId),
+  );
+  if (approvals.length > 0) {
+    issues.push(
+      `${approvals.length} approval(s) still reference subdomain "${subdomain.name}": ${approvals
+        .map((approval) => approval.id)
+        .join(", ")}. Archive the subdomain instead to keep their history.`,
+    );
+  }
+  return issues;
+}
+
+/**
+ * Archiving a domain archives it alone; its subdomains stay as they are but
+ * take no new work through it. Deleting needs every subdomain removed first.
+ */
+export async function removeDomain(
+  repository: DataRepository,
+  domain: Domain,
+  options: { archive: boolean },
+): Promise<DomainMutationResult> {
+  if (options.archive) {
+    await repository.domains.save({
+      id: domain.id,
+      name: domain.name,
+      description: domain.description,
+      ownerIds: domain.ownerIds,
+      archivedAt: domain.archivedAt ?? new Date().toISOString(),
+    });
+    return reload(repository, domain.id);
+  }
+
+  if (domain.subdomains.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      issues: [
+        `Domain "${domain.name}" still has ${domain.subdomains.length} subdomain(s): ${domain.subdomains
+          .map((subdomain) => subdomain.name)
+          .join(", ")}. Delete them first, or archive the domain instead.`,
+      ],
+    };
+  }
+  await repository.domains.remove(domain.id);
+  return { ok: true, domain };
+}
+
+/** Whether new flows and submissions may target the subdomain. */
+export function isSubdomainOpen(domain: Domain, subdomain: Subdomain) {
+  return !domain.archivedAt && !subdomain.archivedAt;
+}
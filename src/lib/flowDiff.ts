@@ -0,0 +1,218 @@
+import {
+  ApprovalFlowDefinition,
+  ApprovalFlowStage,
+  FlowTransition,
+  StageApprovers,
+  StageNotificationTemplate,
+} from "@/types";
+import { describeQuorum } from "@/lib/quorum";
+import { describeAssignment } from "@/lib/assignmentResolver";
+
+export type StageChangeKind = "added" | "removed" | "changed" | "unchanged";
+
+export interface StageDiff {
+  stageId: string;
+  stageName: string;
+  kind: StageChangeKind;
+  changes: string[];
+  actorChanged: boolean;
+  notificationChanged: boolean;
+}
+
+export interface TransitionEdge {
+  key: string;
+  fromStageId: string;
+  toStageId: string;
+  label?: string;
+}
+
+export interface FlowDefinitionDiff {
+  stages: StageDiff[];
+  addedTransitions: TransitionEdge[];
+  removedTransitions: TransitionEdge[];
+  hasChanges: boolean;
+}
+
+function resolveTargetId(
+  definition: ApprovalFlowDefinition,
+  transition: FlowTransition,
+) {
+  if (transition.targetStageId) {
+    return transition.targetStageId;
+  }
+  return (
+    definition.stages.find((stage) => stage.status === transition.to)?.id ??
+    transition.to
+  );
+}
+
+function collectEdges(definition: ApprovalFlowDefinition) {
+  const edges = new Map<string, TransitionEdge>();
+  definition.stages.forEach((stage) => {
+    stage.transitions.forEach((transition) => {
+      const toStageId = resolveTargetId(definition, transition);
+      const key = `${stage.id}->${toStageId}`;
+      edges.set(key, {
+        key,
+        fromStageId: stage.id,
+        toStageId,
+        label: transition.label,
+      });
+    });
+  });
+  return edges;
+}
+
+function describeActor(stage: ApprovalFlowStage) {
+  if (stage.approvers) {
+    return `${describeQuorum(stage.approvers)} (${stage.approvers.userIds.join(", ")})`;
+  }
+  if (stage.assignment) {
+    return describeAssignment(stage.assignment);
+  }
+  return stage.actorUserId ? `${stage.actor} (${stage.actorUserId})` : stage.actor;
+}
+
+function sameApprovers(
+  a: StageApprovers | undefined,
+  b: StageApprovers | undefined,
+) {
+  return (
+    a?.policy === b?.policy &&
+    a?.required === b?.required &&
+    (a?.userIds ?? []).join(",") === (b?.userIds ?? []).join(",")
+  );
+}
+
+function sameNotification(
+  a: StageNotificationTemplate | undefined,
+  b: StageNotificationTemplate | undefined,
+) {
+  return (
+    a?.subject === b?.subject &&
+    a?.body === b?.body &&
+    Boolean(a?.sendToActorSupervisor) === Boolean(b?.sendToActorSupervisor) &&
+    Boolean(a?.ccActor) === Boolean(b?.ccActor)
+  );
+}
+
+function compareStages(
+  base: ApprovalFlowStage,
+  target: ApprovalFlowStage,
+): StageDiff {
+  const changes: string[] = [];
+
+  if (base.name !== target.name) {
+    changes.push(`Renamed from "${base.name}" to "${target.name}".`);
+  }
+  if (base.status !== target.status) {
+    changes.push(`Status changed from ${base.status} to ${target.status}.`);
+  }
+  if (base.description !== target.description) {
+    changes.push("Description updated.");
+  }
+
+  const actorChanged =
+    base.actor !== target.actor ||
+    base.actorUserId !== target.actorUserId ||
+    !sameApprovers(base.approvers, target.approvers) ||
+    JSON.stringify(base.assignment ?? null) !==
+      JSON.stringify(target.assignment ?? null);
+  if (actorChanged) {
+    changes.push(
+      `Actor changed from ${describeActor(base)} to ${describeActor(target)}.`,
+    );
+  }
+
+  if (JSON.stringify(base.sla ?? null) !== JSON.stringify(target.sla ?? null)) {
+    changes.push(
+      !base.sla
+        ? "SLA timer added."
+        : !target.sla
+          ? "SLA timer removed."
+          : "SLA timer or escalation changed.",
+    );
+  }
+
+  const notificationChanged = !sameNotification(
+    base.notification,
+    target.notification,
+  );
+  if (notificationChanged) {
+    if (!base.notification) {
+      changes.push("Notification template added.");
+    } else if (!target.notification) {
+      changes.push("Notification template removed.");
+    } else {
+      changes.push("Notification template changed.");
+    }
+  }
+
+  return {
+    stageId: target.id,
+    stageName: target.name,
+    kind: changes.length > 0 ? "changed" : "unchanged",
+    changes,
+    actorChanged,
+    notificationChanged,
+  };
+}
+
+/**
+ * Compares two flow definitions stage by stage (matched on stage id) and
+ * reports transition edges that were added or removed between them.
+ */
+export function diffFlowDefinitions(
+  base: ApprovalFlowDefinition,
+  target: ApprovalFlowDefinition,
+): FlowDefinitionDiff {
+  const baseStages = new Map(base.stages.map((stage) => [stage.id, stage]));
+  const targetIds = new Set(target.stages.map((stage) => stage.id));
+
+  const stages: StageDiff[] = target.stages.map((stage) => {
+    const previous = baseStages.get(stage.id);
+    if (!previous) {
+      return {
+        stageId: stage.id,
+        stageName: stage.name,
+        kind: "added",
+        changes: ["Stage added."],
+        actorChanged: false,
+        notificationChanged: false,
+      };
+    }
+    return compareStages(previous, stage);
+  });
+
+  base.stages
+    .filter((stage) => !targetIds.has(stage.id))
+    .forEach((stage) => {
+      stages.push({
+        stageId: stage.id,
+        stageName: stage.name,
+        kind: "removed",
+        changes: ["Stage removed."],
+        actorChanged: false,
+        notificationChanged: false,
+      });
+    });
+
+  const baseEdges = collectEdges(base);
+  const targetEdges = collectEdges(target);
+  const addedTransitions = Array.from(targetEdges.values()).filter(
+    (edge) => !baseEdges.has(edge.key),
+  );
+  const removedTransitions = Array.from(baseEdges.values()).filter(
+    (edge) => !targetEdges.has(edge.key),
+  );
+
+  return {
+    stages,
+    addedTransitions,
+    removedTransitions,
+    hasChanges:
+      stages.some((stage) => stage.kind !== "unchanged") ||
+      addedTransitions.length > 0 ||
+      removedTransitions.length > 0,
+  };
+}
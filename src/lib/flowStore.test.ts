@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ApprovalFlow, MockData } from "@/types";
+import { createJsonRepository } from "@/lib/jsonRepository";
+import { parseFlowInput, publishFlow, removeFlow } from "@/lib/flowStore";
+
+function body(definition: Record<string, unknown>) {
+  return {
+    name: "Purchase",
+    version: "1.0.0",
+    domainId: "ops",
+    subdomainId: "ops-purchasing",
+    definition: {
+      stages: [
+        {
+          id: "review",
+          name: "Review",
+          description: "",
+          actor: "",
+          status: "in_process",
+          transitions: [
+            {
+              to: "approved",
+              targetStageId: "done",
+              conditions: ["amount > 5"],
+            },
+          ],
+        },
+        {
+          id: "done",
+          name: "Done",
+          description: "",
+          actor: "",
+          status: "approved",
+          transitions: [],
+        },
+      ],
+      ...definition,
+    },
+  };
+}
+
+describe("parseFlowInput", () => {
+  it("accepts a flow whose conditions use schema fields", () => {
+    const payloadSchema = [{ name: "amount", type: "number" }];
+    expect(parseFlowInput(body({ payloadSchema })).ok).toBe(true);
+  });
+
+  it("reports a broken payload schema without running the checks that read it", () => {
+    expect(parseFlowInput(body({ payloadSchema: [null] }))).toEqual({
+      ok: false,
+      issues: [
+        'Payload field #1 needs a name made of letters, digits, "_" or "$".',
+        "Payload field #1 must have a type of string, number, boolean, date.",
+      ],
+    });
+  });
+});
+
+const FLOW: ApprovalFlow = {
+  id: "purchase",
+  name: "Purchase",
+  version: "1.0.0",
+  description: "",
+  updatedAt: "2026-03-01T09:00:00.000Z",
+  definition: { stages: [] },
+};
+
+function document(flow: ApprovalFlow): MockData {
+  return {
+    users: [],
+    domains: [
+      {
+        id: "ops",
+        name: "Operations",
+        description: "",
+        subdomains: [
+          {
+            id: "ops-purchasing",
+            name: "Purchasing",
+            description: "",
+            flows: [flow],
+          },
+        ],
+      },
+    ],
+    approvals: [],
+    logs: [],
+    outbox: [],
+    inbox: [],
+    credentials: [],
+  };
+}
+
+describe("flow mutations", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "flow-store-"));
+    filePath = path.join(directory, "data.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function repositoryWith(
+    flow: ApprovalFlow,
+    fields: Partial<MockData> = {},
+  ) {
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ ...document(flow), ...fields }),
+      "utf-8",
+    );
+    return createJsonRepository(filePath);
+  }
+
+  it("refuses to publish an archived flow", async () => {
+    const repository = await repositoryWith({
+      ...FLOW,
+      archivedAt: "2026-03-02T09:00:00.000Z",
+    });
+    expect(await publishFlow(repository, FLOW.id, "minor")).toEqual({
+      ok: false,
+      status: 409,
+      issues: ['Flow "Purchase" is archived and can\'t be published.'],
+    });
+  });
+
+  it("deletes a flow no approval references", async () => {
+    const repository = await repositoryWith(FLOW);
+    expect(
+      (await removeFlow(repository, FLOW.id, { archive: false })).ok,
+    ).toBe(true);
+    expect(await repository.flows.find(FLOW.id)).toBeNull();
+  });
+
+  it("keeps a flow that approvals still reference", async () => {
+    const repository = await repositoryWith(FLOW, {
+      approvals: [
+        {
+          id: "a-1",
+          title: "Laptop",
+          domainId: "ops",
+          subdomainId: "ops-purchasing",
+          requesterId: "u-1",
+          approverIds: [],
+          status: "approved",
+          submittedAt: "2026-03-01T09:00:00.000Z",
+          lastUpdatedAt: "2026-03-01T09:00:00.000Z",
+          flowId: FLOW.id,
+        },
+      ],
+    });
+    expect(await removeFlow(repository, FLOW.id, { archive: false })).toEqual({
+      ok: false,
+      status: 409,
+      issues: [
+        "1 approval(s) still reference this flow: a-1. Archive the flow instead.",
+      ],
+    });
+    expect(await repository.flows.find(FLOW.id)).not.toBeNull();
+  });
+});
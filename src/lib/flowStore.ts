@@ -0,0 +1,348 @@
+import {
+  ApprovalFlow,
+  ApprovalFlowDefinition,
+  VersionBump,
+} from "@/types";
+import {
+  listAssignmentIssues,
+  listConditionIssues,
+  listQuorumIssues,
+  listRejectRouteIssues,
+  listSlaIssues,
+  listTemplateIssues,
+  validateFlowDefinition,
+} from "@/lib/ruleEngine";
+import type { FlowContext } from "@/lib/approvalRuntime";
+import { validatePayloadSchema } from "@/lib/payloadSchema";
+import { generateId } from "@/lib/dataStore";
+import {
+  DataRepository,
+  FlowInUseError,
+  FlowSaveOptions,
+  RevisionConflictError,
+} from "@/lib/repository";
+import { isSemanticVersion, publishFlowDraft } from "@/lib/flowVersioning";
+
+export interface FlowInput {
+  name: string;
+  version: string;
+  description: string;
+  domainId: string;
+  subdomainId: string;
+  definition: ApprovalFlowDefinition;
+}
+
+export type FlowInputResult =
+  | { ok: true; input: FlowInput }
+  | { ok: false; issues: string[] };
+
+export type FlowMutationResult =
+  | { ok: true; context: FlowContext }
+  | { ok: false; status: number; issues: string[] };
+
+export function parseExpectedRevision(value: unknown): number | undefined {
+  const revision = typeof value === "string" && value ? Number(value) : value;
+  return typeof revision === "number" &&
+    Number.isInteger(revision) &&
+    revision >= 0
+    ? revision
+    : undefined;
+}
+
+export function parseFlowInput(body: unknown): FlowInputResult {
+  const issues: string[] = [];
+  const candidate = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof candidate.name !== "string" || !candidate.name.trim()) {
+    issues.push("Flow name is required.");
+  }
+  if (!isSemanticVersion(candidate.version)) {
+    issues.push("Flow version must be a semantic version such as 1.0.0.");
+  }
+  if (typeof candidate.domainId !== "string" || !candidate.domainId) {
+    issues.push("Domain is required.");
+  }
+  if (typeof candidate.subdomainId !== "string" || !candidate.subdomainId) {
+    issues.push("Subdomain is required.");
+  }
+  if (!validateFlowDefinition(candidate.definition)) {
+    issues.push("Invalid flow definition structure.");
+  } else {
+    const schemaIssues = validatePayloadSchema(
+      candidate.definition.payloadSchema,
+    );
+    // The remaining checks read field names from the payload schema, so they
+    // wait until the schema itself is sound.
+    issues.push(
+      ...(schemaIssues.length > 0
+        ? schemaIssues
+        : [
+            ...listConditionIssues(candidate.definition),
+            ...listRejectRouteIssues(candidate.definition),
+            ...listQuorumIssues(candidate.definition),
+            ...listAssignmentIssues(candidate.definition),
+            ...listSlaIssues(candidate.definition),
+            ...listTemplateIssues(candidate.definition),
+          ]),
+    );
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    input: {
+      name: (candidate.name as string).trim(),
+      version: candidate.version as string,
+      description:
+        typeof candidate.description === "string"
+          ? candidate.description
+          : "",
+      domainId: candidate.domainId as string,
+      subdomainId: candidate.subdomainId as string,
+      definition: candidate.definition as ApprovalFlowDefinition,
+    },
+  };
+}
+
+async function findSubdomain(
+  repository: DataRepository,
+  domainId: string,
+  subdomainId: string,
+) {
+  const domain = await repository.domains.get(domainId);
+  const subdomain = domain?.subdomains.find((item) => item.id === subdomainId);
+  return domain && subdomain ? { domain, subdomain } : null;
+}
+
+function missingSubdomain(input: FlowInput): FlowMutationResult {
+  return {
+    ok: false,
+    status: 404,
+    issues: [
+      `Subdomain "${input.subdomainId}" not found in domain "${input.domainId}".`,
+    ],
+  };
+}
+
+function archivedSubdomain(
+  subdomain: FlowContext["subdomain"],
+): FlowMutationResult {
+  return {
+    ok: false,
+    status: 409,
+    issues: [
+      `Subdomain "${subdomain.name}" is archived and takes no new flows.`,
+    ],
+  };
+}
+
+function missingFlow(flowId: string): FlowMutationResult {
+  return { ok: false, status: 404, issues: [`Flow "${flowId}" not found.`] };
+}
+
+function archivedFlow(flow: ApprovalFlow, verb: string): FlowMutationResult {
+  return {
+    ok: false,
+    status: 409,
+    issues: [`Flow "${flow.name}" is archived and can't be ${verb}.`],
+  };
+}
+
+function revisionConflict(
+  name: string,
+  error: RevisionConflictError,
+): FlowMutationResult {
+  return {
+    ok: false,
+    status: 409,
+    issues: [
+      `Flow "${name}" was changed elsewhere (now at revision ${error.currentRevision}). Reload to pick up the latest version before saving again.`,
+    ],
+  };
+}
+
+async function storeFlow(
+  repository: DataRepository,
+  { domain, subdomain }: Omit<FlowContext, "flow">,
+  flow: ApprovalFlow,
+  options?: FlowSaveOptions,
+): Promise<FlowMutationResult> {
+  try {
+    const saved = await repository.flows.save(
+      domain.id,
+      subdomain.id,
+      flow,
+      options,
+    );
+    return { ok: true, context: { domain, subdomain, flow: saved } };
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return revisionConflict(flow.name, error);
+    }
+    throw error;
+  }
+}
+
+export async function insertFlow(
+  repository: DataRepository,
+  input: FlowInput,
+): Promise<FlowMutationResult> {
+  const target = await findSubdomain(
+    repository,
+    input.domainId,
+    input.subdomainId,
+  );
+  if (!target) {
+    return missingSubdomain(input);
+  }
+  if (target.domain.archivedAt || target.subdomain.archivedAt) {
+    return archivedSubdomain(target.subdomain);
+  }
+
+  const timestamp = new Date().toISOString();
+  const flow: ApprovalFlow = {
+    id: generateId("flow"),
+    name: input.name,
+    version: input.version,
+    description: input.description,
+    definition: input.definition,
+    updatedAt: timestamp,
+    publishedAt: timestamp,
+  };
+
+  return storeFlow(repository, target, flow);
+}
+
+/**
+ * Saves edits as the flow's draft. The published definition stays untouched
+ * until the draft is published, so it can never be overwritten in place.
+ * Archived flows are read-only, the version only changes by publishing, and
+ * flows can't move into an archived subdomain. Passing `expectedRevision`
+ * rejects the save if someone else saved first.
+ */
+export async function updateFlow(
+  repository: DataRepository,
+  flowId: string,
+  input: FlowInput,
+  options?: FlowSaveOptions,
+): Promise<FlowMutationResult> {
+  const existing = await repository.flows.find(flowId);
+  if (!existing) {
+    return missingFlow(flowId);
+  }
+  if (existing.flow.archivedAt) {
+    return archivedFlow(existing.flow, "edited");
+  }
+  if (input.version !== existing.flow.version) {
+    return {
+      ok: false,
+      status: 400,
+      issues: [
+        `Flow "${existing.flow.name}" is at version ${existing.flow.version}. Publish the draft to change its version.`,
+      ],
+    };
+  }
+
+  const target = await findSubdomain(
+    repository,
+    input.domainId,
+    input.subdomainId,
+  );
+  if (!target) {
+    return missingSubdomain(input);
+  }
+  const isMove = target.subdomain.id !== existing.subdomain.id;
+  if (isMove && (target.domain.archivedAt || target.subdomain.archivedAt)) {
+    return archivedSubdomain(target.subdomain);
+  }
+
+  const timestamp = new Date().toISOString();
+  const flow: ApprovalFlow = {
+    ...existing.flow,
+    name: input.name,
+    description: input.description || existing.flow.description,
+    updatedAt: timestamp,
+    draft: {
+      definition: input.definition,
+      baseVersion: existing.flow.version,
+      updatedAt: timestamp,
+    },
+  };
+
+  return storeFlow(repository, target, flow, options);
+}
+
+export async function publishFlow(
+  repository: DataRepository,
+  flowId: string,
+  bump: VersionBump,
+  options?: FlowSaveOptions,
+): Promise<FlowMutationResult> {
+  const existing = await repository.flows.find(flowId);
+  if (!existing) {
+    return missingFlow(flowId);
+  }
+  if (existing.flow.archivedAt) {
+    return archivedFlow(existing.flow, "published");
+  }
+
+  const result = publishFlowDraft(existing.flow, bump);
+  if (!result.ok) {
+    return { ok: false, status: 409, issues: result.issues };
+  }
+
+  return storeFlow(repository, existing, result.flow, options);
+}
+
+export async function removeFlow(
+  repository: DataRepository,
+  flowId: string,
+  options: FlowSaveOptions & { archive: boolean },
+): Promise<FlowMutationResult> {
+  const existing = await repository.flows.find(flowId);
+  if (!existing) {
+    return missingFlow(flowId);
+  }
+
+  if (options.archive) {
+    const flow: ApprovalFlow = {
+      ...existing.flow,
+      archivedAt: existing.flow.archivedAt ?? new Date().toISOString(),
+    };
+    return storeFlow(repository, existing, flow, options);
+  }
+
+  // The repository refuses while any approval references the flow, closed
+  // ones included: their history is read against it.
+  try {
+    await repository.flows.remove(flowId, options);
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return revisionConflict(existing.flow.name, error);
+    }
+    if (error instanceof FlowInUseError) {
+      return {
+        ok: false,
+        status: 409,
+        issues: [
+          `${error.approvalIds.length} approval(s) still reference this flow: ${error.approvalIds.join(", ")}. Archive the flow instead.`,
+        ],
+      };
+    }
+    throw error;
+  }
+  return { ok: true, context: existing };
+}
+
+export function toFlowCatalogEntry({ domain, subdomain, flow }: FlowContext) {
+  return {
+    domainId: domain.id,
+    domainName: domain.name,
+    subdomainId: subdomain.id,
+    subdomainName: subdomain.name,
+    flow,
+  };
+}
@@ -0,0 +1,109 @@
+import {
+  ApprovalFlow,
+  ApprovalFlowRevision,
+  VersionBump,
+} from "@/types";
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export type PublishResult =
+  | { ok: true; flow: ApprovalFlow }
+  | { ok: false; issues: string[] };
+
+export function isSemanticVersion(value: unknown): value is string {
+  return typeof value === "string" && SEMVER_PATTERN.test(value);
+}
+
+export function isVersionBump(value: unknown): value is VersionBump {
+  return value === "major" || value === "minor" || value === "patch";
+}
+
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const match = SEMVER_PATTERN.exec(version);
+  const [major, minor, patch] = match
+    ? match.slice(1).map(Number)
+    : [0, 0, 0];
+
+  if (bump === "major") {
+    return `${major + 1}.0.0`;
+  }
+  if (bump === "minor") {
+    return `${major}.${minor + 1}.0`;
+  }
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+export function currentRevision(flow: ApprovalFlow): ApprovalFlowRevision {
+  return {
+    version: flow.version,
+    definition: flow.definition,
+    publishedAt: flow.publishedAt ?? flow.updatedAt,
+  };
+}
+
+/**
+ * Published revisions of a flow, newest first. The flow's own
+ * `version`/`definition` pair is always the latest published revision;
+ * superseded ones are kept verbatim in `revisions`.
+ */
+export function listFlowRevisions(flow: ApprovalFlow): ApprovalFlowRevision[] {
+  return [currentRevision(flow), ...(flow.revisions ?? [])];
+}
+
+/**
+ * Returns the flow as it was published at `version`, so running approvals
+ * keep following the definition they were started on. Returns `undefined`
+ * when that revision is gone instead of quietly using another one.
+ */
+export function resolveFlowRevision(
+  flow: ApprovalFlow,
+  version: string | undefined,
+): ApprovalFlow | undefined {
+  if (!version || version === flow.version) {
+    return flow;
+  }
+  const revision = flow.revisions?.find((item) => item.version === version);
+  if (!revision) {
+    return undefined;
+  }
+  return {
+    ...flow,
+    version: revision.version,
+    definition: revision.definition,
+    publishedAt: revision.publishedAt,
+  };
+}
+
+export function describeMissingRevision(
+  flow: ApprovalFlow,
+  version: string | undefined,
+) {
+  return `Flow "${flow.name}" no longer has revision ${version ?? "?"}, which this approval is pinned to.`;
+}
+
+export function publishFlowDraft(
+  flow: ApprovalFlow,
+  bump: VersionBump,
+): PublishResult {
+  if (!flow.draft) {
+    return {
+      ok: false,
+      issues: [`Flow "${flow.name}" has no draft to publish.`],
+    };
+  }
+
+  const timestamp = new Date().toISOString();
+
+  return {
+    ok: true,
+    flow: {
+      ...flow,
+      version: bumpVersion(flow.version, bump),
+      definition: flow.draft.definition,
+      publishedAt: timestamp,
+      updatedAt: timestamp,
+      draft: undefined,
+      revisions: [currentRevision(flow), ...(flow.revisions ?? [])],
+    },
+  };
+}
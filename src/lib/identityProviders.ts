@@ -0,0 +1,78 @@
+import type { IdentityProviderId, User } from "@/types";
+import type { DataRepository } from "@/lib/repository";
+import { createLocalIdentityProvider } from "@/lib/localIdentity";
+import {
+  createOidcIdentityProvider,
+  resolveOidcConfig,
+} from "@/lib/oidcIdentity";
+
+export type SignInResult =
+  | { ok: true; user: User }
+  | { ok: false; issues: string[] };
+
+/** Providers that check a username and password themselves. */
+export interface PasswordIdentityProvider {
+  id: IdentityProviderId;
+  kind: "password";
+  label: string;
+  signIn(
+    repository: DataRepository,
+    username: string,
+    password: string,
+  ): Promise<SignInResult>;
+}
+
+/** Providers that send the browser elsewhere and come back with a code. */
+export interface RedirectIdentityProvider {
+  id: IdentityProviderId;
+  kind: "redirect";
+  label: string;
+  authorizationUrl(request: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+  }): Promise<string>;
+  completeSignIn(
+    repository: DataRepository,
+    request: { code: string; redirectUri: string; nonce: string },
+  ): Promise<SignInResult>;
+}
+
+export type IdentityProvider =
+  | PasswordIdentityProvider
+  | RedirectIdentityProvider;
+
+/**
+ * Providers named in `APPROVAL_AUTH_PROVIDERS` (comma separated). Defaults to
+ * `local`, plus `oidc` once an issuer is configured.
+ */
+export function getIdentityProviders(
+  env: NodeJS.ProcessEnv = process.env,
+): IdentityProvider[] {
+  const oidc = resolveOidcConfig(env);
+  const enabled = env.APPROVAL_AUTH_PROVIDERS
+    ? env.APPROVAL_AUTH_PROVIDERS.split(",").map((item) => item.trim())
+    : ["local", ...(oidc ? ["oidc"] : [])];
+
+  return enabled.flatMap((id): IdentityProvider[] => {
+    if (id === "local") {
+      return [createLocalIdentityProvider()];
+    }
+    if (id === "oidc") {
+      if (!oidc) {
+        throw new Error(
+          "The oidc provider needs APPROVAL_OIDC_ISSUER, APPROVAL_OIDC_CLIENT_ID and APPROVAL_OIDC_CLIENT_SECRET.",
+        );
+      }
+      return [createOidcIdentityProvider(oidc)];
+    }
+    throw new Error(`Unknown identity provider "${id}".`);
+  });
+}
+
+export function findIdentityProvider(
+  id: string,
+  env: NodeJS.ProcessEnv = process.env,
+): IdentityProvider | undefined {
+  return getIdentityProviders(env).find((provider) => provider.id === id);
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ApprovalFlow, MockData } from "@/types";
+import { createJsonRepository } from "@/lib/jsonRepository";
+import { RevisionConflictError } from "@/lib/repository";
+
+const FLOW: ApprovalFlow = {
+  id: "purchase",
+  name: "Purchase",
+  version: "1.0.0",
+  description: "",
+  updatedAt: "2026-03-01T09:00:00.000Z",
+  definition: { stages: [] },
+};
+
+function document(): MockData {
+  return {
+    users: [],
+    domains: [
+      {
+        id: "ops",
+        name: "Operations",
+        description: "",
+        subdomains: [
+          {
+            id: "ops-purchasing",
+            name: "Purchasing",
+            description: "",
+            flows: [FLOW],
+          },
+        ],
+      },
+    ],
+    approvals: [],
+    logs: [],
+    outbox: [],
+    inbox: [],
+    credentials: [],
+  };
+}
+
+let directory: string;
+let filePath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "json-repository-"));
+  filePath = path.join(directory, "data.json");
+  await fs.writeFile(filePath, JSON.stringify(document()), "utf-8");
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("createJsonRepository", () => {
+  it("applies concurrent writes one after another", async () => {
+    const repository = createJsonRepository(filePath);
+    const ids = Array.from({ length: 25 }, (_, index) => `u-${index + 1}`);
+    await Promise.all(
+      ids.map((id) =>
+        repository.users.save({
+          id,
+          name: id,
+          email: `${id}@example.com`,
+          role: "Approver",
+        }),
+      ),
+    );
+
+    const saved = JSON.parse(await fs.readFile(filePath, "utf-8")) as MockData;
+    expect(saved.users.map((user) => user.id).sort()).toEqual([...ids].sort());
+    expect(await fs.readdir(directory)).toEqual(["data.json"]);
+  });
+
+  it("shares the write queue between repositories on the same file", async () => {
+    const first = createJsonRepository(filePath);
+    const second = createJsonRepository(filePath);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        (index % 2 ? first : second).logs.append({
+          id: `log-${index}`,
+          timestamp: "2026-03-01T09:00:00.000Z",
+          level: "info",
+          message: `entry ${index}`,
+          context: {},
+        }),
+      ),
+    );
+    expect(await first.logs.list()).toHaveLength(10);
+  });
+
+  it("bumps the flow revision on each save", async () => {
+    const repository = createJsonRepository(filePath);
+    const saved = await repository.flows.save("ops", "ops-purchasing", FLOW, {
+      expectedRevision: 0,
+    });
+    expect(saved.revision).toBe(1);
+    expect((await repository.flows.find(FLOW.id))?.flow.revision).toBe(1);
+  });
+
+  it("refuses saves and removals made against a stale revision", async () => {
+    const repository = createJsonRepository(filePath);
+    await repository.flows.save("ops", "ops-purchasing", FLOW);
+
+    await expect(
+      repository.flows.save("ops", "ops-purchasing", FLOW, {
+        expectedRevision: 0,
+      }),
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+    await expect(
+      repository.flows.remove(FLOW.id, { expectedRevision: 0 }),
+    ).rejects.toMatchObject({ entityId: FLOW.id, currentRevision: 1 });
+    expect(await repository.flows.find(FLOW.id)).toBeDefined();
+  });
+});
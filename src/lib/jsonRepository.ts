@@ -0,0 +1,317 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MockData, OutboxMessage } from "@/types";
+import {
+  DataRepository,
+  FlowInUseError,
+  assertFlowRevision,
+  matchesApprovalQuery,
+  matchesInboxQuery,
+  matchesOutboxQuery,
+  nextFlowRevision,
+} from "@/lib/repository";
+
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs `task` after every write already queued for `filePath`, so concurrent
+ * requests apply their read-modify-write cycles one at a time.
+ */
+function enqueueWrite<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(filePath) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(filePath, next);
+  return next;
+}
+
+async function readDocument(filePath: string): Promise<MockData> {
+  const raw = await fs.readFile(filePath, "utf-8");
+  const data = JSON.parse(raw) as MockData;
+  // Documents written before notifications were stored lack these keys.
+  data.outbox ??= [];
+  data.inbox ??= [];
+  data.credentials ??= [];
+  return data;
+}
+
+/**
+ * Writes through a temp file in the same directory and renames it over the
+ * target, so readers never observe a partially written document.
+ */
+async function writeDocument(filePath: string, data: MockData): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`,
+  );
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export function createJsonRepository(filePath: string): DataRepository {
+  const read = () => readDocument(filePath);
+  const update = <T>(mutate: (data: MockData) => T) =>
+    enqueueWrite(filePath, async () => {
+      const data = await read();
+      const result = mutate(data);
+      await writeDocument(filePath, data);
+      return result;
+    });
+
+  return {
+    snapshot: read,
+    users: {
+      list: async () => (await read()).users,
+      get: async (id) => (await read()).users.find((user) => user.id === id),
+      save: (user) =>
+        update((data) => {
+          const index = data.users.findIndex((item) => item.id === user.id);
+          if (index === -1) {
+            data.users.push(user);
+          } else {
+            data.users[index] = {
+              ...user,
+              sessionVersion: data.users[index].sessionVersion,
+            };
+          }
+        }),
+      revokeSessions: (id) =>
+        update((data) => {
+          const user = data.users.find((item) => item.id === id);
+          if (!user) {
+            return undefined;
+          }
+          user.sessionVersion = (user.sessionVersion ?? 0) + 1;
+          return user.sessionVersion;
+        }),
+    },
+    domains: {
+      list: async () => (await read()).domains,
+      get: async (id) =>
+        (await read()).domains.find((domain) => domain.id === id),
+      save: (domain) =>
+        update((data) => {
+          const index = data.domains.findIndex((item) => item.id === domain.id);
+          if (index === -1) {
+            data.domains.push({ ...domain, subdomains: [] });
+          } else {
+            data.domains[index] = {
+              ...domain,
+              subdomains: data.domains[index].subdomains,
+            };
+          }
+        }),
+      remove: (domainId) =>
+        update((data) => {
+          data.domains = data.domains.filter((domain) => domain.id !== domainId);
+        }),
+      saveSubdomain: (domainId, subdomain) =>
+        update((data) => {
+          const domain = data.domains.find((item) => item.id === domainId);
+          if (!domain) {
+            throw new Error(`Domain "${domainId}" not found.`);
+          }
+          const index = domain.subdomains.findIndex(
+            (item) => item.id === subdomain.id,
+          );
+          if (index === -1) {
+            domain.subdomains.push({ ...subdomain, flows: [] });
+          } else {
+            domain.subdomains[index] = {
+              ...subdomain,
+              flows: domain.subdomains[index].flows,
+            };
+          }
+        }),
+      removeSubdomain: (domainId, subdomainId) =>
+        update((data) => {
+          const domain = data.domains.find((item) => item.id === domainId);
+          if (domain) {
+            domain.subdomains = domain.subdomains.filter(
+              (item) => item.id !== subdomainId,
+            );
+          }
+        }),
+    },
+    flows: {
+      find: async (flowId) => {
+        const { domains } = await read();
+        for (const domain of domains) {
+          for (const subdomain of domain.subdomains) {
+            const flow = subdomain.flows.find((item) => item.id === flowId);
+            if (flow) {
+              return { flow, domain, subdomain };
+            }
+          }
+        }
+        return null;
+      },
+      save: (domainId, subdomainId, flow, options) =>
+        update((data) => {
+          const subdomains = data.domains.flatMap((domain) =>
+            domain.subdomains.map((subdomain) => ({ domain, subdomain })),
+          );
+          const target = subdomains.find(
+            ({ domain, subdomain }) =>
+              domain.id === domainId && subdomain.id === subdomainId,
+          );
+          if (!target) {
+            throw new Error(`Subdomain "${subdomainId}" not found.`);
+          }
+          const stored = subdomains
+            .flatMap(({ subdomain }) => subdomain.flows)
+            .find((item) => item.id === flow.id);
+          const saved = nextFlowRevision(stored, flow, options);
+          if (target.subdomain.flows.some((item) => item.id === flow.id)) {
+            target.subdomain.flows = target.subdomain.flows.map((item) =>
+              item.id === flow.id ? saved : item,
+            );
+            return saved;
+          }
+          subdomains.forEach(({ subdomain }) => {
+            subdomain.flows = subdomain.flows.filter(
+              (item) => item.id !== flow.id,
+            );
+          });
+          target.subdomain.flows.push(saved);
+          return saved;
+        }),
+      remove: (flowId, options) =>
+        update((data) => {
+          const stored = data.domains
+            .flatMap((domain) => domain.subdomains)
+            .flatMap((subdomain) => subdomain.flows)
+            .find((item) => item.id === flowId);
+          assertFlowRevision(stored, flowId, options);
+          const approvalIds = data.approvals
+            .filter((approval) => approval.flowId === flowId)
+            .map((approval) => approval.id);
+          if (approvalIds.length > 0) {
+            throw new FlowInUseError(flowId, approvalIds);
+          }
+          data.domains.forEach((domain) => {
+            domain.subdomains.forEach((subdomain) => {
+              subdomain.flows = subdomain.flows.filter(
+                (item) => item.id !== flowId,
+              );
+            });
+          });
+        }),
+    },
+    approvals: {
+      list: async (query) =>
+        (await read()).approvals.filter((approval) =>
+          matchesApprovalQuery(approval, query),
+        ),
+      get: async (id) =>
+        (await read()).approvals.find((approval) => approval.id === id),
+      save: (approval) =>
+        update((data) => {
+          const index = data.approvals.findIndex(
+            (item) => item.id === approval.id,
+          );
+          if (index === -1) {
+            data.approvals.push(approval);
+          } else {
+            data.approvals[index] = approval;
+          }
+        }),
+      update: (id, mutate) =>
+        update((data) => {
+          const index = data.approvals.findIndex((item) => item.id === id);
+          if (index === -1) {
+            return undefined;
+          }
+          const mutation = mutate(data.approvals[index]);
+          if (mutation.approval) {
+            data.approvals[index] = mutation.approval;
+          }
+          return mutation;
+        }),
+    },
+    logs: {
+      list: async () => (await read()).logs,
+      append: (entry) =>
+        update((data) => {
+          data.logs.push(entry);
+        }),
+    },
+    outbox: {
+      list: async (query) =>
+        (await read()).outbox.filter((message) =>
+          matchesOutboxQuery(message, query),
+        ),
+      get: async (id) =>
+        (await read()).outbox.find((message) => message.id === id),
+      save: (message) =>
+        update((data) => {
+          const index = data.outbox.findIndex(
+            (item) => item.id === message.id,
+          );
+          if (index === -1) {
+            data.outbox.push(message);
+          } else {
+            data.outbox[index] = message;
+          }
+        }),
+      claim: (id, isClaimable, claimedAt) =>
+        update((data) => {
+          const index = data.outbox.findIndex((item) => item.id === id);
+          if (index === -1 || !isClaimable(data.outbox[index])) {
+            return undefined;
+          }
+          const claimed: OutboxMessage = {
+            ...data.outbox[index],
+            status: "sending",
+            claimedAt,
+          };
+          data.outbox[index] = claimed;
+          return claimed;
+        }),
+    },
+    inbox: {
+      list: async (query) =>
+        (await read()).inbox.filter((notification) =>
+          matchesInboxQuery(notification, query),
+        ),
+      get: async (id) =>
+        (await read()).inbox.find((notification) => notification.id === id),
+      save: (notification) =>
+        update((data) => {
+          const index = data.inbox.findIndex(
+            (item) => item.id === notification.id,
+          );
+          if (index === -1) {
+            data.inbox.push(notification);
+          } else {
+            data.inbox[index] = notification;
+          }
+        }),
+    },
+    credentials: {
+      find: async (username) =>
+        (await read()).credentials.find(
+          (credential) => credential.username === username.toLowerCase(),
+        ),
+      findByUser: async (userId) =>
+        (await read()).credentials.find(
+          (credential) => credential.userId === userId,
+        ),
+      save: (credential) =>
+        update((data) => {
+          const index = data.credentials.findIndex(
+            (item) => item.username === credential.username,
+          );
+          if (index === -1) {
+            data.credentials.push(credential);
+          } else {
+            data.credentials[index] = credential;
+          }
+        }),
+    },
+  };
+}
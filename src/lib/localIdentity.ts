@@ -0,0 +1,75 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { LocalCredential } from "@/types";
+import type { PasswordIdentityProvider } from "@/lib/identityProviders";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+  const [scheme, salt, key] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length,
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+export async function createLocalCredential(
+  userId: string,
+  username: string,
+  password: string,
+): Promise<LocalCredential> {
+  return {
+    userId,
+    username: username.trim().toLowerCase(),
+    passwordHash: await hashPassword(password),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+const INVALID_CREDENTIALS = "Unknown username or wrong password.";
+
+let decoyHash: Promise<string> | undefined;
+
+/** Usernames and passwords kept in the repository's `credentials`. */
+export function createLocalIdentityProvider(): PasswordIdentityProvider {
+  return {
+    id: "local",
+    kind: "password",
+    label: "Username and password",
+    signIn: async (repository, username, password) => {
+      const credential = await repository.credentials.find(username.trim());
+      // Hash anyway so unknown usernames take as long as wrong passwords.
+      decoyHash ??= hashPassword(randomBytes(16).toString("hex"));
+      const matches = await verifyPassword(
+        password,
+        credential?.passwordHash ?? (await decoyHash),
+      );
+      const user =
+        credential && matches
+          ? await repository.users.get(credential.userId)
+          : undefined;
+      return user
+        ? { ok: true, user }
+        : { ok: false, issues: [INVALID_CREDENTIALS] };
+    },
+  };
+}
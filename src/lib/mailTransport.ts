@@ -0,0 +1,350 @@
+import { promises as fs } from "fs";
+import net from "net";
+import path from "path";
+import tls from "tls";
+import type { OutboxMessage } from "@/types";
+
+export interface MailTransport {
+  name: MailTransportKind;
+  send(message: OutboxMessage): Promise<void>;
+}
+
+export type MailTransportKind = "smtp" | "file" | "console";
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  /** Connects over TLS from the start; otherwise STARTTLS is used when offered. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /**
+   * Sends credentials over a plain connection when the server offers no
+   * STARTTLS. Off by default: only for local relays you trust.
+   */
+  allowInsecureAuth?: boolean;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_FROM = "approvals@localhost";
+const DEFAULT_SMTP_TIMEOUT_MS = 15_000;
+
+export function resolveMailTransportKind(
+  value: string | undefined,
+): MailTransportKind {
+  return value === "smtp" || value === "file" ? value : "console";
+}
+
+function encodeHeader(value: string) {
+  // Header values must be 7-bit; anything else goes out as an RFC 2047 word.
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function splitLines(text: string) {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Renders the message as an RFC 5322 document with CRLF line endings. A
+ * message with an HTML body goes out as multipart/alternative.
+ */
+export function formatMimeMessage(
+  message: OutboxMessage,
+  from: string,
+  date: Date = new Date(),
+): string {
+  const domain = from.split("@")[1] ?? "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(", ")}`,
+    ...(message.cc.length > 0 ? [`Cc: ${message.cc.join(", ")}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${message.id}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      ...splitLines(message.body),
+    ].join("\r\n");
+  }
+
+  const boundary = `alt-${message.id}`;
+  const part = (type: string, content: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=utf-8`,
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    ...splitLines(content),
+  ];
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    ...part("text/plain", message.body),
+    ...part("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+export function createConsoleTransport(
+  write: (text: string) => void = (text) => process.stdout.write(text),
+): MailTransport {
+  return {
+    name: "console",
+    send: async (message) => {
+      write(`\n${formatMimeMessage(message, DEFAULT_FROM)}\n`);
+    },
+  };
+}
+
+/** Writes each message to `<directory>/<id>.eml` so it can be opened locally. */
+export function createFileTransport(
+  directory: string,
+  from = DEFAULT_FROM,
+): MailTransport {
+  return {
+    name: "file",
+    send: async (message) => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        path.join(directory, `${message.id}.eml`),
+        formatMimeMessage(message, from),
+        "utf-8",
+      );
+    },
+  };
+}
+
+/**
+ * Reads SMTP replies off a socket. Multi-line replies (`250-…`) are collected
+ * until the final line (`250 …`) and resolved as one reply.
+ */
+function createSmtpChannel(socket: net.Socket) {
+  let buffer = "";
+  let pendingLines: string[] = [];
+  let failure: Error | undefined;
+  const replies: SmtpReply[] = [];
+  const waiters: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf-8");
+    let index = buffer.indexOf("\r\n");
+    while (index !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      pendingLines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), lines: pendingLines };
+        pendingLines = [];
+        const waiter = waiters.shift();
+        if (waiter) {
+          waiter.resolve(reply);
+        } else {
+          replies.push(reply);
+        }
+      }
+      index = buffer.indexOf("\r\n");
+    }
+  };
+  const onFailure = (error: Error) => {
+    failure ??= error;
+    waiters.splice(0).forEach((waiter) => waiter.reject(error));
+  };
+  const onClose = () => onFailure(new Error("SMTP connection closed."));
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  const read = () =>
+    new Promise<SmtpReply>((resolve, reject) => {
+      const reply = replies.shift();
+      if (reply) {
+        resolve(reply);
+      } else if (failure) {
+        reject(failure);
+      } else {
+        waiters.push({ resolve, reject });
+      }
+    });
+
+  const expect = async (expected: number[], label: string) => {
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${label} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(),
+      );
+    }
+    return reply;
+  };
+
+  return {
+    expect,
+    command: (line: string, expected: number[]) => {
+      socket.write(`${line}\r\n`);
+      return expect(expected, line.split(" ")[0]);
+    },
+    write: (data: string) => socket.write(data),
+    // The error listener stays attached so a late socket error is never
+    // raised as an uncaught exception.
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function connectSmtp(options: SmtpTransportOptions) {
+  const socket = options.secure
+    ? tls.connect({
+        host: options.host,
+        port: options.port,
+        servername: options.host,
+      })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS, () =>
+    socket.destroy(new Error("SMTP connection timed out.")),
+  );
+  return socket;
+}
+
+function upgradeToTls(socket: net.Socket, options: SmtpTransportOptions) {
+  return new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: options.host }, () =>
+      resolve(secured),
+    );
+    secured.once("error", reject);
+  });
+}
+
+/** Escapes lines that start with "." so they are not read as end of data. */
+function dotStuff(document: string) {
+  return document.replace(/^\./gm, "..");
+}
+
+/**
+ * Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, then one
+ * message per connection. Any unexpected reply rejects with the server text.
+ */
+export function createSmtpTransport(options: SmtpTransportOptions): MailTransport {
+  return {
+    name: "smtp",
+    send: async (message) => {
+      let socket: net.Socket = connectSmtp(options);
+      let channel = createSmtpChannel(socket);
+      try {
+        await channel.expect([220], "greeting");
+        const hello = `EHLO ${options.from.split("@")[1] ?? "localhost"}`;
+        const features = await channel.command(hello, [250]);
+
+        const offersStartTls = features.lines.some((line) =>
+          line.toUpperCase().startsWith("STARTTLS"),
+        );
+        const upgrade = !options.secure && offersStartTls;
+        if (upgrade) {
+          await channel.command("STARTTLS", [220]);
+          channel.detach();
+          socket = await upgradeToTls(socket, options);
+          channel = createSmtpChannel(socket);
+          await channel.command(hello, [250]);
+        }
+
+        if (options.user) {
+          // A missing STARTTLS may be a downgrade attack; never hand the
+          // password to a plain connection unless told to.
+          if (!options.secure && !upgrade && !options.allowInsecureAuth) {
+            throw new Error(
+              "SMTP server did not offer STARTTLS; refusing to send credentials over an unencrypted connection.",
+            );
+          }
+          const credentials = Buffer.from(
+            `\0${options.user}\0${options.password ?? ""}`,
+            "utf-8",
+          ).toString("base64");
+          await channel.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await channel.command(`MAIL FROM:<${options.from}>`, [250]);
+        for (const recipient of [...message.to, ...message.cc]) {
+          await channel.command(`RCPT TO:<${recipient}>`, [250, 251]);
+        }
+        await channel.command("DATA", [354]);
+        channel.write(
+          `${dotStuff(formatMimeMessage(message, options.from))}\r\n.\r\n`,
+        );
+        await channel.expect([250], "DATA");
+        await channel.command("QUIT", [221]);
+      } finally {
+        channel.detach();
+        socket.destroy();
+      }
+    },
+  };
+}
+
+/**
+ * Builds the transport selected by `APPROVAL_MAIL_TRANSPORT`: `console` by
+ * default, `file` (writes to `APPROVAL_MAIL_DIR`) or `smtp`.
+ */
+export function createMailTransport(
+  env: NodeJS.ProcessEnv = process.env,
+): MailTransport {
+  const from = env.APPROVAL_MAIL_FROM ?? DEFAULT_FROM;
+  const kind = resolveMailTransportKind(env.APPROVAL_MAIL_TRANSPORT);
+
+  if (kind === "file") {
+    return createFileTransport(
+      env.APPROVAL_MAIL_DIR ?? path.join(process.cwd(), ".mail"),
+      from,
+    );
+  }
+  if (kind === "smtp") {
+    if (!env.APPROVAL_SMTP_HOST) {
+      throw new Error("APPROVAL_SMTP_HOST is required for the smtp transport.");
+    }
+    const secure = env.APPROVAL_SMTP_SECURE === "true";
+    return createSmtpTransport({
+      host: env.APPROVAL_SMTP_HOST,
+      port: Number(env.APPROVAL_SMTP_PORT ?? (secure ? 465 : 587)),
+      secure,
+      user: env.APPROVAL_SMTP_USER,
+      password: env.APPROVAL_SMTP_PASSWORD,
+      allowInsecureAuth: env.APPROVAL_SMTP_ALLOW_INSECURE_AUTH === "true",
+      from,
+    });
+  }
+  return createConsoleTransport();
+}
+
+/**
+ * Transport for test sends: never SMTP, so a test cannot reach real
+ * inboxes. Writes `.eml` files when the configured transport is `file` or
+ * `smtp`, and prints to stdout otherwise.
+ */
+export function createTestMailTransport(
+  env: NodeJS.ProcessEnv = process.env,
+): MailTransport {
+  return resolveMailTransportKind(env.APPROVAL_MAIL_TRANSPORT) === "console"
+    ? createConsoleTransport()
+    : createFileTransport(
+        env.APPROVAL_MAIL_DIR ?? path.join(process.cwd(), ".mail"),
+        env.APPROVAL_MAIL_FROM ?? DEFAULT_FROM,
+      );
+}
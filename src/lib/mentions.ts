@@ -0,0 +1,29 @@
+import type { User } from "@/types";
+
+const MENTION_PATTERN = /(^|[^\w@])@([\w-]+(?:\.[\w-]+)*(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+function matchesHandle(user: User, handle: string) {
+  const email = user.email.toLowerCase();
+  return (
+    user.id.toLowerCase() === handle ||
+    email === handle ||
+    email.split("@")[0] === handle
+  );
+}
+
+/**
+ * Resolves `@handle` tags in `text` to user ids, in order of first mention.
+ * A handle is a user id, an email address or the part of the email before
+ * the `@`, compared case-insensitively; unknown handles are ignored.
+ */
+export function extractMentions(text: string | undefined, users: User[]) {
+  const ids: string[] = [];
+  for (const match of (text ?? "").matchAll(MENTION_PATTERN)) {
+    const handle = match[2].toLowerCase();
+    const user = users.find((item) => matchesHandle(item, handle));
+    if (user && !ids.includes(user.id)) {
+      ids.push(user.id);
+    }
+  }
+  return ids;
+}
@@ -0,0 +1,131 @@
+import {
+  createSign,
+  generateKeyPairSync,
+  randomBytes,
+  type KeyObject,
+} from "crypto";
+
+/**
+ * A tiny OpenID Connect issuer served under `/api/oidc-mock` so the `oidc`
+ * provider can be exercised locally. Any client id and secret are accepted;
+ * the account picker signs in whoever is chosen. Never served in production.
+ */
+
+export const MOCK_IDP_PATH = "/api/oidc-mock";
+const KEY_ID = "mock-idp-key";
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+interface MockCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  expiresAt: number;
+}
+
+interface MockIdpState {
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  codes: Map<string, MockCode>;
+}
+
+const globalForMockIdp = globalThis as typeof globalThis & {
+  __approvalMockIdp?: MockIdpState;
+};
+
+// Kept on globalThis so keys and codes survive dev-server module reloads.
+function getState(): MockIdpState {
+  if (!globalForMockIdp.__approvalMockIdp) {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+    });
+    globalForMockIdp.__approvalMockIdp = {
+      privateKey,
+      publicKey,
+      codes: new Map(),
+    };
+  }
+  return globalForMockIdp.__approvalMockIdp;
+}
+
+export function isMockIdpEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.NODE_ENV !== "production";
+}
+
+export function mockIssuer(request: Request) {
+  return `${new URL(request.url).origin}${MOCK_IDP_PATH}`;
+}
+
+export function mockDiscoveryDocument(issuer: string) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    token_endpoint_auth_methods_supported: ["client_secret_post"],
+    scopes_supported: ["openid", "email", "profile"],
+  };
+}
+
+export function mockJwks() {
+  return {
+    keys: [
+      {
+        ...getState().publicKey.export({ format: "jwk" }),
+        kid: KEY_ID,
+        use: "sig",
+        alg: "RS256",
+      },
+    ],
+  };
+}
+
+export function issueMockCode(grant: Omit<MockCode, "expiresAt">) {
+  const code = randomBytes(16).toString("base64url");
+  getState().codes.set(code, { ...grant, expiresAt: Date.now() + CODE_TTL_MS });
+  return code;
+}
+
+function encodeSegment(value: unknown) {
+  return Buffer.from(JSON.stringify(value), "utf-8").toString("base64url");
+}
+
+/** Redeems a single-use code for a signed ID token, or explains why not. */
+export function redeemMockCode(
+  issuer: string,
+  request: { code: string; clientId: string; redirectUri: string },
+): { ok: true; idToken: string } | { ok: false; error: string } {
+  const { codes, privateKey } = getState();
+  const grant = codes.get(request.code);
+  codes.delete(request.code);
+  if (
+    !grant ||
+    grant.expiresAt < Date.now() ||
+    grant.clientId !== request.clientId ||
+    grant.redirectUri !== request.redirectUri
+  ) {
+    return { ok: false, error: "invalid_grant" };
+  }
+
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const signingInput = `${encodeSegment({ alg: "RS256", typ: "JWT", kid: KEY_ID })}.${encodeSegment({
+    iss: issuer,
+    aud: grant.clientId,
+    sub: `mock|${grant.email}`,
+    email: grant.email,
+    email_verified: true,
+    name: grant.name,
+    nonce: grant.nonce,
+    iat: issuedAt,
+    exp: issuedAt + TOKEN_TTL_SECONDS,
+  })}`;
+  const signature = createSign("RSA-SHA256")
+    .update(signingInput)
+    .sign(privateKey, "base64url");
+  return { ok: true, idToken: `${signingInput}.${signature}` };
+}
@@ -0,0 +1,175 @@
+import type { LogEntry, OutboxMessage, User } from "@/types";
+import type { DataRepository } from "@/lib/repository";
+import { createLogEntry, generateId, getRepository } from "@/lib/dataStore";
+
+export interface DigestRunResult {
+  checkedAt: string;
+  digestIds: string[];
+  batchedIds: string[];
+  logs: LogEntry[];
+}
+
+function indent(text: string) {
+  return text
+    .split("\n")
+    .map((line) => (line ? `    ${line}` : line))
+    .join("\n");
+}
+
+/**
+ * Folds a user's held messages, oldest first, into one plain-text email that
+ * the regular delivery worker then sends. Items are labelled with the title
+ * from `approvalTitles`, falling back to the approval id.
+ */
+export function buildDigestMessage(
+  user: User,
+  held: OutboxMessage[],
+  now: Date,
+  approvalTitles: Record<string, string> = {},
+): OutboxMessage {
+  const items = held
+    .slice()
+    .sort((left, right) => left.createdAt.localeCompare(right.createdAt));
+  const count = `${items.length} update${items.length === 1 ? "" : "s"}`;
+  const body = [
+    `Hello ${user.name},`,
+    "",
+    `Here is your approval digest with ${count}:`,
+    "",
+    ...items.flatMap((message, index) => [
+      `${index + 1}. ${approvalTitles[message.approvalId] ?? message.approvalId}: ${message.subject}`,
+      indent(message.body),
+      "",
+    ]),
+    "Thanks,",
+    "Agnostic Approval Platform",
+  ].join("\n");
+
+  return {
+    id: generateId("msg"),
+    approvalId: items[0]?.approvalId ?? "",
+    stageId: items[0]?.stageId ?? "",
+    channel: "email",
+    recipientId: user.id,
+    to: [user.email],
+    cc: [],
+    subject: `Approval digest · ${count}`,
+    body,
+    digestOf: items.map((message) => message.id),
+    status: "pending",
+    attempts: 0,
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * Queues one digest per user with held messages and marks those messages as
+ * batched. Messages held for users who no longer exist are left in place.
+ */
+export async function runNotificationDigest(
+  repository: DataRepository,
+  now: Date = new Date(),
+): Promise<DigestRunResult> {
+  const held = await repository.outbox.list({ status: "held" });
+  const users = await repository.users.list();
+  const approvalTitles = Object.fromEntries(
+    (await repository.approvals.list()).map((approval) => [
+      approval.id,
+      approval.title,
+    ]),
+  );
+  const result: DigestRunResult = {
+    checkedAt: now.toISOString(),
+    digestIds: [],
+    batchedIds: [],
+    logs: [],
+  };
+
+  const byRecipient = new Map<string, OutboxMessage[]>();
+  held.forEach((message) => {
+    if (message.recipientId) {
+      byRecipient.set(message.recipientId, [
+        ...(byRecipient.get(message.recipientId) ?? []),
+        message,
+      ]);
+    }
+  });
+
+  for (const [recipientId, messages] of byRecipient) {
+    const user = users.find((item) => item.id === recipientId);
+    if (!user) {
+      continue;
+    }
+    const digest = buildDigestMessage(user, messages, now, approvalTitles);
+    await repository.outbox.save(digest);
+    for (const message of messages) {
+      await repository.outbox.save({
+        ...message,
+        status: "batched",
+        digestId: digest.id,
+      });
+      result.batchedIds.push(message.id);
+    }
+    result.digestIds.push(digest.id);
+    result.logs.push(
+      createLogEntry(
+        "info",
+        `Digest with ${messages.length} notification${messages.length === 1 ? "" : "s"} queued for ${user.name}`,
+        {
+          messageId: digest.id,
+          userId: user.id,
+          batchedIds: messages.map((message) => message.id),
+        },
+      ),
+    );
+  }
+
+  for (const entry of result.logs) {
+    await repository.logs.append(entry);
+  }
+  return result;
+}
+
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+let digestTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Runs the digest once a day, on the first check at or after `hourUtc`.
+ * Restarting the server may run it again that day, which only batches
+ * whatever has been held since.
+ */
+export function startDigestScheduler(hourUtc: number) {
+  if (digestTimer) {
+    return;
+  }
+  let lastRunOn: string | undefined;
+  let running = false;
+
+  digestTimer = setInterval(async () => {
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    if (running || lastRunOn === today || now.getUTCHours() < hourUtc) {
+      return;
+    }
+    running = true;
+    try {
+      await runNotificationDigest(await getRepository(), now);
+      lastRunOn = today;
+    } catch (error) {
+      const repository = await getRepository().catch(() => null);
+      await repository?.logs
+        .append(
+          createLogEntry(
+            "error",
+            `Notification digest failed: ${error instanceof Error ? error.message : String(error)}`,
+            {},
+          ),
+        )
+        .catch(() => undefined);
+    } finally {
+      running = false;
+    }
+  }, DIGEST_CHECK_INTERVAL_MS);
+  digestTimer.unref?.();
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import type { StageNotificationTemplate } from "@/types";
+import { lintNotificationTemplate } from "@/lib/notificationEngine";
+
+describe("lintNotificationTemplate", () => {
+  it("requires each configured part to be text", () => {
+    const template = {
+      subject: 42,
+      body: "Hello",
+      webhook: { url: 7, audience: [] },
+      inApp: { audience: ["requester"], title: null },
+    } as unknown as StageNotificationTemplate;
+    expect(lintNotificationTemplate(template)).toEqual([
+      "subject: must be text.",
+      "webhook text: missing.",
+      "in-app title: missing.",
+      "webhook: URL must be an http(s) address.",
+    ]);
+  });
+
+  it("accepts a complete template", () => {
+    expect(
+      lintNotificationTemplate({
+        subject: "{{approval.title}}",
+        body: "Please review.",
+        webhook: { url: "https://hooks.example.com/x", text: "New request" },
+      }),
+    ).toEqual([]);
+  });
+});
@@ -1,9 +1,26 @@
 import {
+  Approval,
   ApprovalFlow,
   ApprovalFlowStage,
   Domain,
+  NotificationAudience,
+  PayloadField,
+  StageNotificationTemplate,
   User,
 } from "@/types";
+import { resolveStageAssignees } from "@/lib/assignmentResolver";
+import { routeToDelegates } from "@/lib/delegation";
+import {
+  acceptsNotification,
+  prefersDigest,
+} from "@/lib/notificationPreferences";
+import {
+  lintTemplate,
+  parseTemplate,
+  renderTemplate,
+  type TemplateRenderOptions,
+  type TemplateVariableShape,
+} from "@/lib/templateLanguage";
 
 export interface StageNotificationPreview {
   stageId: string;
@@ -13,6 +30,39 @@ export interface StageNotificationPreview {
   cc: string[];
   subject: string;
   body: string;
+  /** Rendered HTML alternative, when the stage template defines one. */
+  html?: string;
+  /** Recipients who asked for the daily digest instead of `to`/`cc`. */
+  digest: User[];
+}
+
+export interface WebhookNotificationPayload {
+  text: string;
+  flowId: string;
+  flowName: string;
+  stageId: string;
+  stageName: string;
+  approvalId?: string;
+  approvalTitle?: string;
+  recipients: { id: string; name: string; email: string }[];
+}
+
+export interface WebhookNotificationPreview {
+  stageId: string;
+  url: string;
+  payload: WebhookNotificationPayload;
+}
+
+export interface InAppNotificationPreview {
+  stageId: string;
+  userIds: string[];
+  title: string;
+  body: string;
+}
+
+export interface StageChannelPreviews {
+  webhook?: WebhookNotificationPreview;
+  inApp?: InAppNotificationPreview;
 }
 
 export interface StageNotificationContext {
@@ -20,16 +70,182 @@ export interface StageNotificationContext {
   domain: Domain;
   subdomain: Domain["subdomains"][number];
   users: User[];
+  /**
+   * When set, approval variables (`approval`, `payload`, `comments` …) are
+   * filled in; otherwise their tags are left in place for previews.
+   */
+  approval?: Approval;
+  /** Decides which delegations are active; defaults to the current time. */
+  now?: Date;
+}
+
+export const NOTIFICATION_AUDIENCES: NotificationAudience[] = [
+  "assignees",
+  "supervisors",
+  "requester",
+];
+
+const PERSON_SHAPE: TemplateVariableShape = {
+  keys: { name: "value", email: "value" },
+};
+
+/**
+ * Variables available to stage notification templates. Payload fields are
+ * checked against the flow's schema when it declares one.
+ */
+export function notificationTemplateVariables(
+  payloadSchema?: PayloadField[],
+): Record<string, TemplateVariableShape> {
+  return {
+    actorName: "value",
+    supervisorName: "value",
+    stageName: "value",
+    flowName: "value",
+    domainName: "value",
+    subdomainName: "value",
+    approvalTitle: "value",
+    requesterName: "value",
+    assignees: { items: PERSON_SHAPE },
+    approval: {
+      keys: {
+        id: "value",
+        title: "value",
+        status: "value",
+        submittedAt: "value",
+        lastUpdatedAt: "value",
+        requester: PERSON_SHAPE,
+      },
+    },
+    payload: Array.isArray(payloadSchema)
+      ? {
+          keys: Object.fromEntries(
+            payloadSchema.map((field) => [field.name, "object" as const]),
+          ),
+        }
+      : "object",
+    comments: {
+      items: {
+        keys: {
+          author: "value",
+          action: "value",
+          text: "value",
+          timestamp: "value",
+        },
+      },
+    },
+  };
+}
+
+function lintAudience(
+  label: string,
+  audience: NotificationAudience[] | undefined,
+  required: boolean,
+): string[] {
+  if (!Array.isArray(audience) || audience.length === 0) {
+    return required ? [`${label}: choose at least one audience.`] : [];
+  }
+  return audience
+    .filter((group) => !NOTIFICATION_AUDIENCES.includes(group))
+    .map((group) => `${label}: unknown audience "${group}".`);
 }
 
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Lints every template on the stage: the email subject and bodies, and the
+ * webhook and in-app channels with their recipient rules.
+ */
+export function lintNotificationTemplate(
+  template: StageNotificationTemplate,
+  payloadSchema?: PayloadField[],
+): string[] {
+  const variables = notificationTemplateVariables(payloadSchema);
+  // [label, source, required]; flows arrive as JSON, so types aren't trusted.
+  const parts: [string, unknown, boolean][] = [
+    ["subject", template.subject, true],
+    ["text body", template.body, true],
+    ["HTML body", template.html, false],
+    ["webhook text", template.webhook?.text, Boolean(template.webhook)],
+    ["in-app title", template.inApp?.title, Boolean(template.inApp)],
+    ["in-app body", template.inApp?.body, false],
+  ];
+  const issues = parts.flatMap(([label, source, required]) => {
+    if (typeof source === "string") {
+      return lintTemplate(source, variables).map(
+        (issue) => `${label}: ${issue}`,
+      );
+    }
+    if (source === undefined || source === null) {
+      return required ? [`${label}: missing.`] : [];
+    }
+    return [`${label}: must be text.`];
+  });
+
+  if (template.webhook) {
+    const { url } = template.webhook;
+    if (typeof url !== "string" || !isHttpUrl(url)) {
+      issues.push("webhook: URL must be an http(s) address.");
+    }
+    issues.push(...lintAudience("webhook", template.webhook.audience, false));
+  }
+  if (template.inApp) {
+    issues.push(...lintAudience("in-app", template.inApp.audience, true));
+  }
+  return issues;
+}
+
+/** Renders a template; one that does not parse is sent as written. */
 function applyTemplate(
   template: string,
-  replacements: Record<string, string>,
+  scope: Record<string, unknown>,
+  options: TemplateRenderOptions,
 ): string {
-  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => {
-    const value = replacements[key];
-    return value ?? `{{${key}}}`;
-  });
+  const parsed = parseTemplate(template);
+  return parsed.ok ? renderTemplate(parsed.nodes, scope, options) : template;
+}
+
+function toPerson(user: User | undefined) {
+  return user ? { name: user.name, email: user.email } : undefined;
+}
+
+function approvalScope(approval: Approval | undefined, users: User[]) {
+  if (!approval) {
+    return {};
+  }
+  const findUser = (id: string) => users.find((user) => user.id === id);
+  const requester = findUser(approval.requesterId);
+  return {
+    approvalTitle: approval.title,
+    requesterName: requester?.name ?? approval.requesterId,
+    approval: {
+      id: approval.id,
+      title: approval.title,
+      status: approval.status,
+      submittedAt: approval.submittedAt,
+      lastUpdatedAt: approval.lastUpdatedAt,
+      requester: toPerson(requester),
+    },
+    payload: approval.payload ?? {},
+    comments: (approval.history ?? [])
+      .filter((entry) => entry.comment)
+      .map((entry) => ({
+        author: findUser(entry.actorId)?.name ?? entry.actorId,
+        action: entry.action,
+        text: entry.comment,
+        timestamp: entry.timestamp,
+      })),
+  };
+}
+
+function listNames(users: User[]) {
+  return users.map((user) => user.name).join(", ");
 }
 
 function defaultSubject(flowName: string, stageName: string) {
@@ -55,31 +271,111 @@ function defaultBody(
   ].join("\n");
 }
 
+interface StageAudience {
+  assignees: User[];
+  supervisors: User[];
+  requester?: User;
+}
+
+/** Resolves who the stage addresses, routing assignees to active delegates. */
+function resolveStageAudience(
+  stage: ApprovalFlowStage,
+  context: StageNotificationContext,
+): StageAudience {
+  const findUser = (id: string | null | undefined) =>
+    id ? context.users.find((user) => user.id === id) : undefined;
+  const assignees = routeToDelegates(
+    resolveStageAssignees(stage, {
+      users: context.users,
+      requesterId: context.approval?.requesterId,
+      payload: context.approval?.payload,
+    }),
+    context.users,
+    context.now ?? new Date(),
+  )
+    .map(findUser)
+    .filter((user): user is User => Boolean(user));
+  const supervisors = Array.from(
+    new Set(assignees.map((user) => user.supervisorId)),
+  )
+    .map(findUser)
+    .filter((user): user is User => Boolean(user));
+
+  return {
+    assignees,
+    supervisors,
+    requester: findUser(context.approval?.requesterId),
+  };
+}
+
+function selectAudience(
+  audience: StageAudience,
+  groups: NotificationAudience[] | undefined,
+): User[] {
+  const selected: User[] = [];
+  (groups ?? []).forEach((group) => {
+    const users =
+      group === "requester"
+        ? audience.requester
+          ? [audience.requester]
+          : []
+        : audience[group];
+    users.forEach((user) => {
+      if (!selected.some((item) => item.id === user.id)) {
+        selected.push(user);
+      }
+    });
+  });
+  return selected;
+}
+
+function stageScope(
+  stage: ApprovalFlowStage,
+  context: StageNotificationContext,
+  audience: StageAudience,
+) {
+  const [actor] = audience.assignees;
+  return {
+    actorName: listNames(audience.assignees) || "Actor",
+    supervisorName:
+      listNames(audience.supervisors) || actor?.name || "Supervisor",
+    stageName: stage.name,
+    flowName: context.flow.name,
+    domainName: context.domain.name,
+    subdomainName: context.subdomain.name,
+    assignees: audience.assignees.map(toPerson),
+    ...approvalScope(context.approval, context.users),
+  };
+}
+
+function hasRecipients(stage: ApprovalFlowStage) {
+  return Boolean(
+    stage.actorUserId ||
+      stage.assignment ||
+      stage.approvers ||
+      stage.notification,
+  );
+}
+
 export function buildStageNotification(
   stage: ApprovalFlowStage,
   context: StageNotificationContext,
 ): StageNotificationPreview | null {
-  if (!stage.actorUserId && !stage.notification) {
+  if (!hasRecipients(stage) || stage.notification?.email === false) {
     return null;
   }
 
-  const actor = context.users.find((user) => user.id === stage.actorUserId);
-  const supervisor = actor?.supervisorId
-    ? context.users.find((user) => user.id === actor.supervisorId)
-    : undefined;
+  const audience = resolveStageAudience(stage, context);
+  const { assignees, supervisors } = audience;
+  const [actor] = assignees;
+  const [supervisor] = supervisors;
 
   if (!actor && !supervisor) {
     return null;
   }
 
-  const replacements = {
-    actorName: actor?.name ?? "Actor",
-    supervisorName: supervisor?.name ?? actor?.name ?? "Supervisor",
-    stageName: stage.name,
-    flowName: context.flow.name,
-    domainName: context.domain.name,
-    subdomainName: context.subdomain.name,
-  };
+  const scope = stageScope(stage, context, audience);
+  const options = { keepMissing: !context.approval };
 
   const templateSubject =
     stage.notification?.subject ??
@@ -91,35 +387,62 @@ export function buildStageNotification(
       stage.name,
       context.domain.name,
       context.subdomain.name,
-      replacements.actorName,
-      replacements.supervisorName,
+      scope.actorName,
+      scope.supervisorName,
     );
 
-  const subject = applyTemplate(templateSubject, replacements);
-  const body = applyTemplate(templateBody, replacements);
+  const subject = applyTemplate(templateSubject, scope, options);
+  const body = applyTemplate(templateBody, scope, options);
+  const html = stage.notification?.html
+    ? applyTemplate(stage.notification.html, scope, {
+        ...options,
+        escapeHtml: true,
+      })
+    : undefined;
 
   const to: string[] = [];
   const cc: string[] = [];
+  const digest: User[] = [];
 
   const shouldNotifySupervisor =
     stage.notification?.sendToActorSupervisor ?? true;
 
-  if (shouldNotifySupervisor && supervisor?.email) {
-    to.push(supervisor.email);
+  // Users who muted the domain or turned email off are skipped; digest
+  // readers get the message later, batched with the rest of their day.
+  const addRecipients = (list: string[], users: User[]) => {
+    users.forEach((user) => {
+      if (
+        !user.email ||
+        !acceptsNotification(user, "email", context.domain.id)
+      ) {
+        return;
+      }
+      if (prefersDigest(user)) {
+        if (!digest.some((item) => item.id === user.id)) {
+          digest.push(user);
+        }
+        return;
+      }
+      if (!to.includes(user.email) && !list.includes(user.email)) {
+        list.push(user.email);
+      }
+    });
+  };
+
+  if (shouldNotifySupervisor) {
+    addRecipients(to, supervisors);
   }
 
-  if (to.length === 0 && actor?.email) {
-    to.push(actor.email);
+  // Parallel sign-offs all need to act, so each approver is addressed directly.
+  if (stage.approvers || (to.length === 0 && digest.length === 0)) {
+    addRecipients(to, assignees);
   }
 
-  if (stage.notification?.ccActor && actor?.email) {
-    const alreadyInTo = to.includes(actor.email);
-    if (!alreadyInTo) {
-      cc.push(actor.email);
-    }
+  if (stage.notification?.ccActor) {
+    addRecipients(cc, assignees);
   }
 
-  if (to.length === 0) {
+  if (to.length === 0 && digest.length === 0) {
     return null;
   }
 
@@ -131,9 +454,64 @@ export function buildStageNotification(
     cc,
     subject,
     body,
+    html,
+    digest,
   };
 }
 
+/**
+ * Renders the webhook and in-app channels configured on the stage template.
+ * A webhook is always posted; in-app entries skip users who turned the
+ * channel off or muted the domain, and are dropped when nobody is left.
+ */
+export function buildStageChannels(
+  stage: ApprovalFlowStage,
+  context: StageNotificationContext,
+): StageChannelPreviews {
+  const template = stage.notification;
+  if (!template?.webhook && !template?.inApp) {
+    return {};
+  }
+
+  const audience = resolveStageAudience(stage, context);
+  const scope = stageScope(stage, context, audience);
+  const options = { keepMissing: !context.approval };
+  const previews: StageChannelPreviews = {};
+
+  if (template.webhook) {
+    previews.webhook = {
+      stageId: stage.id,
+      url: template.webhook.url,
+      payload: {
+        text: applyTemplate(template.webhook.text, scope, options),
+        flowId: context.flow.id,
+        flowName: context.flow.name,
+        stageId: stage.id,
+        stageName: stage.name,
+        approvalId: context.approval?.id,
+        approvalTitle: context.approval?.title,
+        recipients: selectAudience(audience, template.webhook.audience).map(
+          (user) => ({ id: user.id, name: user.name, email: user.email }),
+        ),
+      },
+    };
+  }
+
+  const inAppUsers = selectAudience(audience, template.inApp?.audience).filter(
+    (user) => acceptsNotification(user, "inApp", context.domain.id),
+  );
+  if (template.inApp && inAppUsers.length > 0) {
+    previews.inApp = {
+      stageId: stage.id,
+      userIds: inAppUsers.map((user) => user.id),
+      title: applyTemplate(template.inApp.title, scope, options),
+      body: applyTemplate(template.inApp.body ?? "", scope, options),
+    };
+  }
+
+  return previews;
+}
+
 export function buildFlowNotifications(
   flow: ApprovalFlow,
   context: Pick<StageNotificationContext, "domain" | "subdomain" | "users">,
@@ -0,0 +1,597 @@
+import type {
+  Approval,
+  ApprovalHistoryEntry,
+  InAppNotification,
+  LogEntry,
+  OutboxMessage,
+} from "@/types";
+import type { DataRepository, StoredFlow } from "@/lib/repository";
+import { createLogEntry, generateId, getRepository } from "@/lib/dataStore";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+import {
+  buildStageChannels,
+  buildStageNotification,
+} from "@/lib/notificationEngine";
+import {
+  acceptsNotification,
+  prefersDigest,
+} from "@/lib/notificationPreferences";
+import { createMailTransport, type MailTransport } from "@/lib/mailTransport";
+import {
+  createWebhookTransport,
+  type WebhookTransport,
+} from "@/lib/webhookTransport";
+
+export interface OutboxDeliveryResult {
+  checkedAt: string;
+  attempted: number;
+  sentIds: string[];
+  retryingIds: string[];
+  failedIds: string[];
+  logs: LogEntry[];
+}
+
+export interface StageDispatchResult {
+  messages: OutboxMessage[];
+  inbox: InAppNotification[];
+}
+
+/** A reminder or escalation that an SLA step owes the users it names. */
+export interface SlaNotice {
+  action: "remind" | "escalate";
+  stageId: string;
+  stageName: string;
+  dueAt: string;
+  userIds: string[];
+}
+
+export interface OutboxTransports {
+  email: MailTransport;
+  webhook: WebhookTransport;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Exponential backoff: 30s, 1m, 2m, 4m … capped at one hour. */
+export function retryDelayMs(attempts: number) {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/** A claim older than this is assumed to belong to a worker that died. */
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+export function isOutboxMessageDue(message: OutboxMessage, now: Date) {
+  if (message.status === "sending") {
+    return (
+      !message.claimedAt ||
+      new Date(message.claimedAt).getTime() + SENDING_LEASE_MS <=
+        now.getTime()
+    );
+  }
+  return (
+    message.status === "pending" &&
+    new Date(message.nextAttemptAt ?? message.createdAt).getTime() <=
+      now.getTime()
+  );
+}
+
+/**
+ * Notifies every channel of the stage `approval` now sits in, unless it is
+ * still on the stage it was on before (`previous`). Email and webhook
+ * messages go through the outbox, with a held copy per digest reader;
+ * in-app notifications land in the inbox straight away.
+ * A failure is logged rather than thrown.
+ */
+export async function dispatchStageNotifications(
+  repository: DataRepository,
+  stored: StoredFlow,
+  approval: Approval,
+  previous?: Approval,
+): Promise<StageDispatchResult> {
+  const result: StageDispatchResult = { messages: [], inbox: [] };
+  try {
+    await queueStageNotifications(
+      repository,
+      stored,
+      approval,
+      previous,
+      result,
+    );
+  } catch (error) {
+    await logDispatchFailure(repository, approval, error);
+  }
+  return result;
+}
+
+/** Dispatch runs after the approval is saved, so a failure only logs. */
+async function logDispatchFailure(
+  repository: DataRepository,
+  approval: Approval,
+  error: unknown,
+) {
+  await repository.logs
+    .append(
+      createLogEntry(
+        "error",
+        `Notifications for approval ${approval.id} failed: ${error instanceof Error ? error.message : String(error)}`,
+        { approvalId: approval.id, flowId: approval.flowId },
+      ),
+    )
+    .catch(() => undefined);
+}
+
+async function queueStageNotifications(
+  repository: DataRepository,
+  stored: StoredFlow,
+  approval: Approval,
+  previous: Approval | undefined,
+  result: StageDispatchResult,
+) {
+  if (
+    !approval.currentStageId ||
+    approval.currentStageId === previous?.currentStageId
+  ) {
+    return;
+  }
+
+  const flow = resolveFlowRevision(stored.flow, approval.flowVersion);
+  if (!flow) {
+    await repository.logs.append(
+      createLogEntry(
+        "error",
+        `Notifications for approval ${approval.id} skipped: ${describeMissingRevision(stored.flow, approval.flowVersion)}`,
+        { approvalId: approval.id, flowId: stored.flow.id },
+      ),
+    );
+    return;
+  }
+  const stage = flow.definition.stages.find(
+    (item) => item.id === approval.currentStageId,
+  );
+  if (!stage) {
+    return;
+  }
+
+  const context = {
+    flow,
+    domain: stored.domain,
+    subdomain: stored.subdomain,
+    users: await repository.users.list(),
+    approval,
+  };
+  const createdAt = new Date().toISOString();
+
+  const email = buildStageNotification(stage, context);
+  if (email && email.to.length > 0) {
+    result.messages.push({
+      id: generateId("msg"),
+      approvalId: approval.id,
+      stageId: stage.id,
+      channel: "email",
+      to: email.to,
+      cc: email.cc,
+      subject: email.subject,
+      body: email.body,
+      html: email.html,
+      status: "pending",
+      attempts: 0,
+      createdAt,
+    });
+  }
+
+  email?.digest.forEach((user) => {
+    result.messages.push({
+      id: generateId("msg"),
+      approvalId: approval.id,
+      stageId: stage.id,
+      channel: "email",
+      recipientId: user.id,
+      to: [user.email],
+      cc: [],
+      subject: email.subject,
+      body: email.body,
+      html: email.html,
+      status: "held",
+      attempts: 0,
+      createdAt,
+    });
+  });
+
+  const { webhook, inApp } = buildStageChannels(stage, context);
+  if (webhook) {
+    result.messages.push({
+      id: generateId("msg"),
+      approvalId: approval.id,
+      stageId: stage.id,
+      channel: "webhook",
+      url: webhook.url,
+      to: [],
+      cc: [],
+      subject: webhook.payload.text.split("\n")[0],
+      body: JSON.stringify(webhook.payload, null, 2),
+      status: "pending",
+      attempts: 0,
+      createdAt,
+    });
+  }
+  inApp?.userIds.forEach((userId) => {
+    result.inbox.push({
+      id: generateId("note"),
+      userId,
+      approvalId: approval.id,
+      stageId: stage.id,
+      title: inApp.title,
+      body: inApp.body,
+      createdAt,
+    });
+  });
+
+  for (const message of result.messages) {
+    await repository.outbox.save(message);
+  }
+  for (const notification of result.inbox) {
+    await repository.inbox.save(notification);
+  }
+}
+
+/**
+ * Tells each user tagged in `entry`'s comment that they were mentioned, by
+ * email and in-app, as their preferences allow. Authors are not notified of
+ * their own mentions. A failure is logged rather than thrown.
+ */
+export async function dispatchMentionNotifications(
+  repository: DataRepository,
+  approval: Approval,
+  entry: ApprovalHistoryEntry,
+): Promise<StageDispatchResult> {
+  const result: StageDispatchResult = { messages: [], inbox: [] };
+  try {
+    await queueMentionNotifications(repository, approval, entry, result);
+  } catch (error) {
+    await logDispatchFailure(repository, approval, error);
+  }
+  return result;
+}
+
+async function queueMentionNotifications(
+  repository: DataRepository,
+  approval: Approval,
+  entry: ApprovalHistoryEntry,
+  result: StageDispatchResult,
+) {
+  const mentionIds = (entry.mentionIds ?? []).filter(
+    (id) => id !== entry.actorId,
+  );
+  if (mentionIds.length === 0) {
+    return;
+  }
+
+  const users = await repository.users.list();
+  const author =
+    users.find((user) => user.id === entry.actorId)?.name ?? entry.actorId;
+  const stageId = entry.fromStageId ?? approval.currentStageId ?? "";
+  const title = `${author} mentioned you on "${approval.title}"`;
+  const body = entry.comment ?? "";
+  const createdAt = new Date().toISOString();
+
+  mentionIds.forEach((userId) => {
+    const user = users.find((item) => item.id === userId);
+    if (!user) {
+      return;
+    }
+    if (acceptsNotification(user, "email", approval.domainId)) {
+      const isHeld = prefersDigest(user);
+      result.messages.push({
+        id: generateId("msg"),
+        approvalId: approval.id,
+        stageId,
+        channel: "email",
+        recipientId: isHeld ? user.id : undefined,
+        to: [user.email],
+        cc: [],
+        subject: title,
+        body: [
+          `Hello ${user.name},`,
+          "",
+          `${author} mentioned you in a comment on approval ${approval.id}:`,
+          "",
+          ...body.split("\n").map((line) => `> ${line}`),
+          "",
+          "Thanks,",
+          "Agnostic Approval Platform",
+        ].join("\n"),
+        status: isHeld ? "held" : "pending",
+        attempts: 0,
+        createdAt,
+      });
+    }
+    if (acceptsNotification(user, "inApp", approval.domainId)) {
+      result.inbox.push({
+        id: generateId("note"),
+        userId: user.id,
+        approvalId: approval.id,
+        stageId,
+        title,
+        body,
+        createdAt,
+      });
+    }
+  });
+
+  for (const message of result.messages) {
+    await repository.outbox.save(message);
+  }
+  for (const notification of result.inbox) {
+    await repository.inbox.save(notification);
+  }
+}
+
+/**
+ * Tells the users named in each SLA notice that the approval is waiting on
+ * them or was escalated to them, by email and in-app, as their preferences
+ * allow. A failure is logged rather than thrown.
+ */
+export async function dispatchSlaNotifications(
+  repository: DataRepository,
+  approval: Approval,
+  notices: SlaNotice[],
+): Promise<StageDispatchResult> {
+  const result: StageDispatchResult = { messages: [], inbox: [] };
+  try {
+    await queueSlaNotifications(repository, approval, notices, result);
+  } catch (error) {
+    await logDispatchFailure(repository, approval, error);
+  }
+  return result;
+}
+
+async function queueSlaNotifications(
+  repository: DataRepository,
+  approval: Approval,
+  notices: SlaNotice[],
+  result: StageDispatchResult,
+) {
+  if (notices.length === 0) {
+    return;
+  }
+
+  const users = await repository.users.list();
+  const createdAt = new Date().toISOString();
+
+  notices.forEach((notice) => {
+    const title =
+      notice.action === "remind"
+        ? `Reminder: "${approval.title}" is waiting for you`
+        : `Escalated: "${approval.title}" is overdue`;
+    const body =
+      notice.action === "remind"
+        ? `Approval ${approval.id} is waiting for your decision on "${notice.stageName}". It is due ${notice.dueAt}.`
+        : `Approval ${approval.id} missed its ${notice.dueAt} deadline on "${notice.stageName}" and was escalated to you.`;
+
+    notice.userIds.forEach((userId) => {
+      const user = users.find((item) => item.id === userId);
+      if (!user) {
+        return;
+      }
+      if (acceptsNotification(user, "email", approval.domainId)) {
+        const isHeld = prefersDigest(user);
+        result.messages.push({
+          id: generateId("msg"),
+          approvalId: approval.id,
+          stageId: notice.stageId,
+          channel: "email",
+          recipientId: isHeld ? user.id : undefined,
+          to: [user.email],
+          cc: [],
+          subject: title,
+          body: [
+            `Hello ${user.name},`,
+            "",
+            body,
+            "",
+            "Thanks,",
+            "Agnostic Approval Platform",
+          ].join("\n"),
+          status: isHeld ? "held" : "pending",
+          attempts: 0,
+          createdAt,
+        });
+      }
+      if (acceptsNotification(user, "inApp", approval.domainId)) {
+        result.inbox.push({
+          id: generateId("note"),
+          userId: user.id,
+          approvalId: approval.id,
+          stageId: notice.stageId,
+          title,
+          body,
+          createdAt,
+        });
+      }
+    });
+  });
+
+  for (const message of result.messages) {
+    await repository.outbox.save(message);
+  }
+  for (const notification of result.inbox) {
+    await repository.inbox.save(notification);
+  }
+}
+
+/** Puts a failed message back in the queue with a fresh set of attempts. */
+export function requeueOutboxMessage(message: OutboxMessage): OutboxMessage {
+  return {
+    ...message,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: undefined,
+  };
+}
+
+export function createOutboxTransports(): OutboxTransports {
+  return {
+    email: createMailTransport(),
+    webhook: createWebhookTransport(),
+  };
+}
+
+/** Where a message goes, as written in delivery logs. */
+function describeDestination(message: OutboxMessage) {
+  return message.channel === "webhook"
+    ? (message.url ?? "webhook")
+    : message.to.join(", ");
+}
+
+/**
+ * Hands every due message to its channel's transport. A failed attempt is retried with
+ * exponential backoff until `MAX_DELIVERY_ATTEMPTS`, after which the message
+ * is marked failed and left for a manual retry.
+ */
+export async function deliverOutbox(
+  repository: DataRepository,
+  transports: OutboxTransports,
+  now: Date = new Date(),
+): Promise<OutboxDeliveryResult> {
+  const due = [
+    ...(await repository.outbox.list({ status: "pending" })),
+    ...(await repository.outbox.list({ status: "sending" })),
+  ].filter((message) => isOutboxMessageDue(message, now));
+  const result: OutboxDeliveryResult = {
+    checkedAt: now.toISOString(),
+    attempted: 0,
+    sentIds: [],
+    retryingIds: [],
+    failedIds: [],
+    logs: [],
+  };
+
+  for (const candidate of due) {
+    // Claim before sending so a concurrent run skips this message.
+    const message = await repository.outbox.claim(
+      candidate.id,
+      (stored) => isOutboxMessageDue(stored, now),
+      now.toISOString(),
+    );
+    if (!message) {
+      continue;
+    }
+    result.attempted += 1;
+    const attempts = message.attempts + 1;
+    const transport =
+      message.channel === "webhook" ? transports.webhook : transports.email;
+    const context = {
+      messageId: message.id,
+      approvalId: message.approvalId,
+      stageId: message.stageId,
+      transport: transport.name,
+      attempts,
+    };
+
+    try {
+      await transport.send(message);
+      await repository.outbox.save({
+        ...message,
+        status: "sent",
+        attempts,
+        transport: transport.name,
+        sentAt: now.toISOString(),
+        nextAttemptAt: undefined,
+        claimedAt: undefined,
+        lastError: undefined,
+      });
+      result.sentIds.push(message.id);
+      result.logs.push(
+        createLogEntry(
+          "info",
+          `Notification for approval ${message.approvalId} sent to ${describeDestination(message)} via ${transport.name}`,
+          context,
+        ),
+      );
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+      await repository.outbox.save({
+        ...message,
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        transport: transport.name,
+        claimedAt: undefined,
+        lastError,
+        nextAttemptAt: exhausted
+          ? undefined
+          : new Date(now.getTime() + retryDelayMs(attempts)).toISOString(),
+      });
+      if (exhausted) {
+        result.failedIds.push(message.id);
+        result.logs.push(
+          createLogEntry(
+            "error",
+            `Notification for approval ${message.approvalId} failed after ${attempts} attempts: ${lastError}`,
+            context,
+          ),
+        );
+      } else {
+        result.retryingIds.push(message.id);
+        result.logs.push(
+          createLogEntry(
+            "warning",
+            `Notification for approval ${message.approvalId} could not be sent (attempt ${attempts} of ${MAX_DELIVERY_ATTEMPTS}): ${lastError}`,
+            context,
+          ),
+        );
+      }
+    }
+  }
+
+  for (const entry of result.logs) {
+    await repository.logs.append(entry);
+  }
+  return result;
+}
+
+let workerTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Starts the in-process delivery worker with the transport configured in the
+ * environment. Runs never overlap; a failed run is recorded as an error log
+ * entry and retried on the next tick.
+ */
+export function startNotificationWorker(intervalMs: number) {
+  if (workerTimer) {
+    return;
+  }
+  let running = false;
+
+  workerTimer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await deliverOutbox(await getRepository(), createOutboxTransports());
+    } catch (error) {
+      const repository = await getRepository().catch(() => null);
+      await repository?.logs
+        .append(
+          createLogEntry(
+            "error",
+            `Notification delivery failed: ${error instanceof Error ? error.message : String(error)}`,
+            {},
+          ),
+        )
+        .catch(() => undefined);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  workerTimer.unref?.();
+}
@@ -0,0 +1,127 @@
+import type {
+  Domain,
+  NotificationFrequency,
+  NotificationPreferences,
+  PersonalNotificationChannel,
+  User,
+} from "@/types";
+
+export type NotificationPreferencesValidationResult =
+  | { ok: true; preferences: NotificationPreferences }
+  | { ok: false; issues: string[] };
+
+export const NOTIFICATION_FREQUENCIES: NotificationFrequency[] = [
+  "immediate",
+  "digest",
+];
+
+export const PERSONAL_NOTIFICATION_CHANNELS: PersonalNotificationChannel[] = [
+  "email",
+  "inApp",
+];
+
+/** What a user without saved preferences gets: everything, straight away. */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  frequency: "immediate",
+  channels: ["email", "inApp"],
+  mutedDomainIds: [],
+};
+
+export function getNotificationPreferences(
+  user: User,
+): NotificationPreferences {
+  return user.notificationPreferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+/** Whether `user` wants notifications for `domainId` on `channel` at all. */
+export function acceptsNotification(
+  user: User,
+  channel: PersonalNotificationChannel,
+  domainId: string,
+) {
+  const preferences = getNotificationPreferences(user);
+  return (
+    preferences.channels.includes(channel) &&
+    !preferences.mutedDomainIds.includes(domainId)
+  );
+}
+
+export function prefersDigest(user: User) {
+  return getNotificationPreferences(user).frequency === "digest";
+}
+
+export function validateNotificationPreferences(
+  input: unknown,
+  domains: Domain[],
+): NotificationPreferencesValidationResult {
+  const candidate = (input ?? {}) as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (
+    !NOTIFICATION_FREQUENCIES.includes(
+      candidate.frequency as NotificationFrequency,
+    )
+  ) {
+    issues.push("Frequency must be immediate or digest.");
+  }
+
+  const channels = Array.isArray(candidate.channels) ? candidate.channels : null;
+  if (!channels) {
+    issues.push("Channels must be a list.");
+  } else {
+    channels
+      .filter(
+        (channel) =>
+          !PERSONAL_NOTIFICATION_CHANNELS.includes(
+            channel as PersonalNotificationChannel,
+          ),
+      )
+      .forEach((channel) => issues.push(`Unknown channel "${String(channel)}".`));
+  }
+
+  const mutedDomainIds = Array.isArray(candidate.mutedDomainIds)
+    ? candidate.mutedDomainIds
+    : null;
+  if (!mutedDomainIds) {
+    issues.push("Muted domains must be a list.");
+  } else {
+    mutedDomainIds
+      .filter((id) => !domains.some((domain) => domain.id === id))
+      .forEach((id) => issues.push(`Domain "${String(id)}" not found.`));
+  }
+
+  if (issues.length > 0 || !channels || !mutedDomainIds) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    preferences: {
+      frequency: candidate.frequency as NotificationFrequency,
+      channels: PERSONAL_NOTIFICATION_CHANNELS.filter((channel) =>
+        channels.includes(channel),
+      ),
+      mutedDomainIds: Array.from(new Set(mutedDomainIds as string[])),
+    },
+  };
+}
+
+export function describeNotificationPreferences(
+  preferences: NotificationPreferences,
+) {
+  const channels = preferences.channels
+    .map((channel) => (channel === "inApp" ? "in-app" : "email"))
+    .join(" + ");
+  const parts = [
+    channels || "no channels",
+    preferences.channels.includes("email")
+      ? preferences.frequency === "digest"
+        ? "daily digest"
+        : "immediate"
+      : null,
+    preferences.mutedDomainIds.length > 0
+      ? `${preferences.mutedDomainIds.length} muted`
+      : null,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
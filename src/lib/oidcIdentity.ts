@@ -0,0 +1,226 @@
+import { createPublicKey, verify, type JsonWebKey } from "crypto";
+import type { RedirectIdentityProvider } from "@/lib/identityProviders";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  label: string;
+  scopes: string[];
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  /** Only `true` when the provider asserts it checked the address. */
+  emailVerified: boolean;
+  name?: string;
+}
+
+const DISCOVERY_TTL_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const discoveryCache = new Map<
+  string,
+  { fetchedAt: number; document: OidcDiscovery }
+>();
+
+/**
+ * Reads `APPROVAL_OIDC_ISSUER`, `APPROVAL_OIDC_CLIENT_ID` and
+ * `APPROVAL_OIDC_CLIENT_SECRET`; null unless all three are set.
+ */
+export function resolveOidcConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): OidcConfig | null {
+  const issuer = env.APPROVAL_OIDC_ISSUER?.replace(/\/+$/, "");
+  if (!issuer || !env.APPROVAL_OIDC_CLIENT_ID || !env.APPROVAL_OIDC_CLIENT_SECRET) {
+    return null;
+  }
+  return {
+    issuer,
+    clientId: env.APPROVAL_OIDC_CLIENT_ID,
+    clientSecret: env.APPROVAL_OIDC_CLIENT_SECRET,
+    label: env.APPROVAL_OIDC_LABEL ?? "Single sign-on",
+    scopes: (env.APPROVAL_OIDC_SCOPES ?? "openid email profile").split(/\s+/),
+  };
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(10_000),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function discover(config: OidcConfig): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(config.issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document;
+  }
+  const document = await fetchJson<OidcDiscovery>(
+    `${config.issuer}/.well-known/openid-configuration`,
+  );
+  if (document.issuer !== config.issuer) {
+    throw new Error(
+      `Discovery document names issuer "${document.issuer}", expected "${config.issuer}".`,
+    );
+  }
+  discoveryCache.set(config.issuer, { fetchedAt: Date.now(), document });
+  return document;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf-8")) as T;
+}
+
+/**
+ * Checks an RS256 ID token against the issuer's JWKS and the claims OIDC
+ * requires: issuer, audience, expiry and the nonce sent with the request.
+ */
+export async function verifyIdToken(
+  config: OidcConfig,
+  jwksUri: string,
+  idToken: string,
+  nonce: string,
+  now: Date = new Date(),
+): Promise<OidcIdentity> {
+  const [headerSegment, payloadSegment, signatureSegment] = idToken.split(".");
+  if (!headerSegment || !payloadSegment || !signatureSegment) {
+    throw new Error("ID token is not a JWT.");
+  }
+  const header = decodeSegment<{ alg?: string; kid?: string }>(headerSegment);
+  if (header.alg !== "RS256") {
+    throw new Error(`Unsupported ID token algorithm "${header.alg}".`);
+  }
+
+  const { keys } = await fetchJson<{ keys: (JsonWebKey & { kid?: string })[] }>(
+    jwksUri,
+  );
+  const jwk = keys.find((key) => !header.kid || key.kid === header.kid);
+  if (!jwk) {
+    throw new Error(`No signing key "${header.kid}" in the issuer's JWKS.`);
+  }
+  const isValid = verify(
+    "RSA-SHA256",
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    createPublicKey({ key: jwk, format: "jwk" }),
+    Buffer.from(signatureSegment, "base64url"),
+  );
+  if (!isValid) {
+    throw new Error("ID token signature does not verify.");
+  }
+
+  const claims = decodeSegment<Record<string, unknown>>(payloadSegment);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  if (claims.iss !== config.issuer) {
+    throw new Error(`ID token issuer "${claims.iss}" is not trusted.`);
+  }
+  if (!audience.includes(config.clientId)) {
+    throw new Error("ID token was issued for another client.");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new Error("ID token has expired.");
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce does not match the sign-in request.");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new Error("ID token has no subject.");
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === "string" ? claims.email : undefined,
+    emailVerified: claims.email_verified === true,
+    name: typeof claims.name === "string" ? claims.name : undefined,
+  };
+}
+
+/**
+ * Authorization code flow against any OpenID Connect issuer. Identities are
+ * matched to directory users by their `email` claim.
+ */
+export function createOidcIdentityProvider(
+  config: OidcConfig,
+): RedirectIdentityProvider {
+  return {
+    id: "oidc",
+    kind: "redirect",
+    label: config.label,
+    authorizationUrl: async ({ redirectUri, state, nonce }) => {
+      const { authorization_endpoint } = await discover(config);
+      const url = new URL(authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: config.scopes.join(" "),
+        state,
+        nonce,
+      }).toString();
+      return url.toString();
+    },
+    completeSignIn: async (repository, { code, redirectUri, nonce }) => {
+      let identity: OidcIdentity;
+      try {
+        const { token_endpoint, jwks_uri } = await discover(config);
+        const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams({
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: redirectUri,
+            client_id: config.clientId,
+            client_secret: config.clientSecret,
+          }),
+        });
+        if (!tokens.id_token) {
+          throw new Error("Token response has no id_token.");
+        }
+        identity = await verifyIdToken(config, jwks_uri, tokens.id_token, nonce);
+      } catch (error) {
+        return {
+          ok: false,
+          issues: [error instanceof Error ? error.message : String(error)],
+        };
+      }
+
+      // Accounts are matched on email, so an address the provider hasn't
+      // verified could be anyone's.
+      const email = identity.email?.toLowerCase();
+      if (email && !identity.emailVerified) {
+        return {
+          ok: false,
+          issues: [`The identity provider has not verified ${email}.`],
+        };
+      }
+      const user = email
+        ? (await repository.users.list()).find(
+            (item) => item.email.toLowerCase() === email,
+          )
+        : undefined;
+      return user
+        ? { ok: true, user }
+        : {
+            ok: false,
+            issues: [
+              email
+                ? `No user with email ${email} is registered.`
+                : "The identity provider did not share an email address.",
+            ],
+          };
+    },
+  };
+}
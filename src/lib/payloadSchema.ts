@@ -0,0 +1,147 @@
+import { PayloadField, PayloadFieldType } from "@/types";
+
+export type PayloadValidationResult =
+  | { ok: true; payload: Record<string, unknown> }
+  | { ok: false; issues: string[] };
+
+export const PAYLOAD_FIELD_TYPES: PayloadFieldType[] = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+];
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+export function isPayloadFieldType(value: unknown): value is PayloadFieldType {
+  return PAYLOAD_FIELD_TYPES.includes(value as PayloadFieldType);
+}
+
+export function describeField(field: PayloadField) {
+  return field.label?.trim() || field.name;
+}
+
+function matchesType(type: PayloadFieldType, value: unknown) {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "date":
+      return (
+        typeof value === "string" &&
+        DATE_PATTERN.test(value) &&
+        !Number.isNaN(Date.parse(value))
+      );
+  }
+}
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Checks that a flow's payload schema is well formed: unique field names that
+ * conditions can reference, known types, and enum values matching the type.
+ */
+export function validatePayloadSchema(schema: unknown): string[] {
+  if (schema === undefined) {
+    return [];
+  }
+  if (!Array.isArray(schema)) {
+    return ["Payload schema must be a list of fields."];
+  }
+
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  schema.forEach((candidate, index) => {
+    const field = (candidate ?? {}) as Record<string, unknown>;
+    const name = typeof field.name === "string" ? field.name : "";
+    const label = name ? `"${name}"` : `#${index + 1}`;
+
+    if (!FIELD_NAME_PATTERN.test(name)) {
+      issues.push(
+        `Payload field ${label} needs a name made of letters, digits, "_" or "$".`,
+      );
+    } else if (seen.has(name)) {
+      issues.push(`Payload field ${label} is declared more than once.`);
+    }
+    seen.add(name);
+
+    if (!isPayloadFieldType(field.type)) {
+      issues.push(
+        `Payload field ${label} must have a type of ${PAYLOAD_FIELD_TYPES.join(", ")}.`,
+      );
+      return;
+    }
+
+    if (field.enum === undefined) {
+      return;
+    }
+    if (!Array.isArray(field.enum) || field.enum.length === 0) {
+      issues.push(`Payload field ${label} must list at least one allowed value.`);
+      return;
+    }
+    if (field.type === "boolean") {
+      issues.push(`Payload field ${label} is a boolean and cannot have an enum.`);
+      return;
+    }
+    const type = field.type;
+    if (!field.enum.every((value) => matchesType(type, value))) {
+      issues.push(
+        `Allowed values for payload field ${label} must all be of type ${type}.`,
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validates a submission against the flow's payload schema and returns the
+ * payload with empty optional fields dropped. Flows without a schema accept
+ * any object so older definitions keep working.
+ */
+export function validatePayload(
+  schema: PayloadField[] | undefined,
+  payload: Record<string, unknown>,
+): PayloadValidationResult {
+  if (!schema) {
+    return { ok: true, payload };
+  }
+
+  const issues: string[] = [];
+  const fieldsByName = new Map(schema.map((field) => [field.name, field]));
+  const cleaned: Record<string, unknown> = {};
+
+  Object.keys(payload)
+    .filter((name) => !fieldsByName.has(name))
+    .forEach((name) => issues.push(`Unknown payload field "${name}".`));
+
+  schema.forEach((field) => {
+    const value = payload[field.name];
+    if (isEmpty(value)) {
+      if (field.required) {
+        issues.push(`${describeField(field)} is required.`);
+      }
+      return;
+    }
+    if (!matchesType(field.type, value)) {
+      issues.push(`${describeField(field)} must be a ${field.type}.`);
+      return;
+    }
+    if (field.enum && !field.enum.includes(value as string | number)) {
+      issues.push(
+        `${describeField(field)} must be one of ${field.enum.join(", ")}.`,
+      );
+      return;
+    }
+    cleaned[field.name] = value;
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, payload: cleaned };
+}
@@ -0,0 +1,101 @@
+import type { Approval, Domain, Subdomain, User } from "@/types";
+
+const DEFAULT_FLOW_ADMIN_ROLES = ["Admin"];
+
+/**
+ * Roles whose holders administer flows, from `APPROVAL_FLOW_ADMIN_ROLES`
+ * (comma separated, default `Admin`). Compared case-insensitively.
+ */
+export function getFlowAdminRoles(env: NodeJS.ProcessEnv = process.env) {
+  const roles = env.APPROVAL_FLOW_ADMIN_ROLES?.split(",")
+    .map((role) => role.trim())
+    .filter(Boolean);
+  return roles?.length ? roles : DEFAULT_FLOW_ADMIN_ROLES;
+}
+
+export function isFlowAdmin(
+  user: User,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  const role = user.role.toLowerCase();
+  return getFlowAdminRoles(env).some((item) => item.toLowerCase() === role);
+}
+
+/** Creating, editing, publishing and deleting rules. */
+export function canManageRules(user: User) {
+  return isFlowAdmin(user);
+}
+
+/** Running delivery, digests and SLA sweeps, retrying and test-sending mail. */
+export function canOperateNotifications(user: User) {
+  return isFlowAdmin(user);
+}
+
+export function isDomainOwner(user: User, domain: Domain) {
+  return (domain.ownerIds ?? []).includes(user.id);
+}
+
+/** Owners edit their own domain; flow admins may edit any. */
+export function canEditDomain(user: User, domain: Domain) {
+  return isDomainOwner(user, domain) || isFlowAdmin(user);
+}
+
+/** Creating, archiving and deleting whole domains. */
+export function canManageDomains(user: User) {
+  return isFlowAdmin(user);
+}
+
+/** Subdomain owners edit their subdomain; so does anyone who can edit its domain. */
+export function canEditSubdomain(
+  user: User,
+  domain: Domain,
+  subdomain: Subdomain,
+) {
+  return (
+    (subdomain.ownerIds ?? []).includes(user.id) || canEditDomain(user, domain)
+  );
+}
+
+/** Delegations and notification preferences: your own, or anyone's as an admin. */
+export function canManageUser(actor: User, subject: User) {
+  return actor.id === subject.id || isFlowAdmin(actor);
+}
+
+/** The requester, current approvers and anyone who acted or was tagged on it. */
+export function isApprovalParticipant(user: User, approval: Approval) {
+  return (
+    approval.requesterId === user.id ||
+    approval.approverIds.includes(user.id) ||
+    (approval.history ?? []).some(
+      (entry) =>
+        entry.actorId === user.id ||
+        entry.onBehalfOfId === user.id ||
+        (entry.mentionIds ?? []).includes(user.id),
+    )
+  );
+}
+
+/** Uploading files to an approval: its participants, or a flow admin. */
+export function canAttachToApproval(user: User, approval: Approval) {
+  return isApprovalParticipant(user, approval) || isFlowAdmin(user);
+}
+
+/** Listing and downloading an approval's files: whoever may attach them. */
+export function canViewApprovalAttachments(user: User, approval: Approval) {
+  return canAttachToApproval(user, approval);
+}
+
+/** Short explanations returned with 403 responses. */
+export const PERMISSION_ERRORS = {
+  manageRules: "Only flow admins can change rules",
+  operateNotifications: "Only flow admins can run notification and SLA jobs",
+  editDomain: "Only the domain's owners or a flow admin can change it",
+  manageDomains: "Only flow admins can create, archive or delete domains",
+  editSubdomain:
+    "Only the subdomain's owners, the domain's owners or a flow admin can change it",
+  manageUser: "You can only change your own settings",
+  attachToApproval:
+    "Only the approval's participants or a flow admin can attach files to it",
+  viewAttachments:
+    "Only the approval's participants or a flow admin can see its files",
+} as const;
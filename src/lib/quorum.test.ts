@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { ApprovalVote, StageApprovers } from "@/types";
+import {
+  describeQuorum,
+  evaluateQuorum,
+  requiredApprovals,
+  validateStageApprovers,
+} from "@/lib/quorum";
+
+function vote(
+  actorId: string,
+  decision: ApprovalVote["decision"],
+  onBehalfOfId?: string,
+): ApprovalVote {
+  return {
+    stageId: "review",
+    actorId,
+    onBehalfOfId,
+    decision,
+    timestamp: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+const TWO_OF_THREE: StageApprovers = {
+  userIds: ["u-1", "u-2", "u-3"],
+  policy: "n-of-m",
+  required: 2,
+};
+
+describe("requiredApprovals", () => {
+  it("follows the policy", () => {
+    expect(requiredApprovals({ ...TWO_OF_THREE, policy: "all-of" })).toBe(3);
+    expect(requiredApprovals({ ...TWO_OF_THREE, policy: "any-of" })).toBe(1);
+    expect(requiredApprovals(TWO_OF_THREE)).toBe(2);
+    expect(describeQuorum(TWO_OF_THREE)).toBe("2 of 3");
+  });
+});
+
+describe("validateStageApprovers", () => {
+  it("accepts stages without parallel sign-off", () => {
+    expect(validateStageApprovers("Review", undefined)).toEqual([]);
+  });
+
+  it("flags empty, duplicate and out-of-range approver lists", () => {
+    expect(
+      validateStageApprovers("Review", { userIds: [], policy: "all-of" }),
+    ).toEqual(['Stage "Review" needs at least one sign-off approver.']);
+    expect(
+      validateStageApprovers("Review", {
+        userIds: ["u-1", "u-1"],
+        policy: "any-of",
+      }),
+    ).toEqual(['Stage "Review" lists the same approver twice.']);
+    expect(
+      validateStageApprovers("Review", { ...TWO_OF_THREE, required: 4 }),
+    ).toEqual(['Stage "Review" must require between 1 and 3 sign-offs.']);
+    expect(
+      validateStageApprovers("Review", { userIds: ["u-1"], policy: "most" }),
+    ).toEqual([
+      'Stage "Review" quorum must be one of all-of, any-of, n-of-m.',
+    ]);
+  });
+});
+
+describe("evaluateQuorum", () => {
+  it("waits until enough approvers sign off", () => {
+    const progress = evaluateQuorum(TWO_OF_THREE, [vote("u-1", "approve")]);
+    expect(progress).toMatchObject({
+      approvals: 1,
+      required: 2,
+      outcome: "pending",
+      pendingUserIds: ["u-2", "u-3"],
+    });
+    expect(
+      evaluateQuorum(TWO_OF_THREE, [
+        vote("u-1", "approve"),
+        vote("u-3", "approve"),
+      ]).outcome,
+    ).toBe("approved");
+  });
+
+  it("fails once the remaining approvers can no longer reach quorum", () => {
+    expect(
+      evaluateQuorum(TWO_OF_THREE, [vote("u-1", "reject")]).outcome,
+    ).toBe("pending");
+    expect(
+      evaluateQuorum(TWO_OF_THREE, [
+        vote("u-1", "reject"),
+        vote("u-2", "reject"),
+      ]).outcome,
+    ).toBe("rejected");
+    expect(
+      evaluateQuorum({ ...TWO_OF_THREE, policy: "all-of" }, [
+        vote("u-2", "reject"),
+      ]).outcome,
+    ).toBe("rejected");
+  });
+
+  it("counts a delegate's vote for the approver they cover", () => {
+    const progress = evaluateQuorum(TWO_OF_THREE, [
+      vote("u-9", "approve", "u-2"),
+    ]);
+    expect(progress.approvals).toBe(1);
+    expect(progress.pendingUserIds).toEqual(["u-1", "u-3"]);
+  });
+
+  it("ignores votes from people outside the approver list", () => {
+    const progress = evaluateQuorum(TWO_OF_THREE, [
+      vote("u-9", "approve"),
+      vote("u-1", "approve"),
+    ]);
+    expect(progress).toMatchObject({ approvals: 1, outcome: "pending" });
+  });
+});
@@ -0,0 +1,130 @@
+import { ApprovalVote, QuorumPolicy, StageApprovers } from "@/types";
+
+export type QuorumOutcome = "pending" | "approved" | "rejected";
+
+export interface QuorumProgress {
+  approvals: number;
+  rejections: number;
+  required: number;
+  total: number;
+  pendingUserIds: string[];
+  outcome: QuorumOutcome;
+}
+
+export const QUORUM_POLICIES: { value: QuorumPolicy; label: string }[] = [
+  { value: "all-of", label: "All of" },
+  { value: "any-of", label: "Any of" },
+  { value: "n-of-m", label: "N of M" },
+];
+
+export function isQuorumPolicy(value: unknown): value is QuorumPolicy {
+  return QUORUM_POLICIES.some((policy) => policy.value === value);
+}
+
+export function requiredApprovals(approvers: StageApprovers) {
+  switch (approvers.policy) {
+    case "all-of":
+      return approvers.userIds.length;
+    case "any-of":
+      return 1;
+    case "n-of-m":
+      return approvers.required ?? approvers.userIds.length;
+  }
+}
+
+export function describeQuorum(approvers: StageApprovers) {
+  const total = approvers.userIds.length;
+  switch (approvers.policy) {
+    case "all-of":
+      return `All ${total} sign-offs`;
+    case "any-of":
+      return `Any 1 of ${total}`;
+    case "n-of-m":
+      return `${requiredApprovals(approvers)} of ${total}`;
+  }
+}
+
+/**
+ * Checks a stage's sign-off list: at least one distinct approver and, for
+ * "n-of-m", a required count between 1 and the number of approvers.
+ */
+export function validateStageApprovers(
+  stageName: string,
+  approvers: unknown,
+): string[] {
+  if (approvers === undefined) {
+    return [];
+  }
+  const candidate = (approvers ?? {}) as Record<string, unknown>;
+  const issues: string[] = [];
+  const userIds = Array.isArray(candidate.userIds) ? candidate.userIds : [];
+
+  if (
+    userIds.length === 0 ||
+    !userIds.every((id) => typeof id === "string" && id)
+  ) {
+    issues.push(`Stage "${stageName}" needs at least one sign-off approver.`);
+  } else if (new Set(userIds).size !== userIds.length) {
+    issues.push(`Stage "${stageName}" lists the same approver twice.`);
+  }
+  if (!isQuorumPolicy(candidate.policy)) {
+    issues.push(
+      `Stage "${stageName}" quorum must be one of ${QUORUM_POLICIES.map((policy) => policy.value).join(", ")}.`,
+    );
+  } else if (candidate.policy === "n-of-m") {
+    const required = candidate.required;
+    if (
+      typeof required !== "number" ||
+      !Number.isInteger(required) ||
+      required < 1 ||
+      required > userIds.length
+    ) {
+      issues.push(
+        `Stage "${stageName}" must require between 1 and ${userIds.length} sign-offs.`,
+      );
+    }
+  }
+
+  return issues;
+}
+
+/** The approver a vote counts for, even when a delegate cast it. */
+export function voterOf(vote: ApprovalVote) {
+  return vote.onBehalfOfId ?? vote.actorId;
+}
+
+/**
+ * Tallies votes for a parallel stage. Quorum is met once enough approvers
+ * approve, and fails as soon as the remaining approvers can no longer reach it.
+ */
+export function evaluateQuorum(
+  approvers: StageApprovers,
+  votes: ApprovalVote[],
+): QuorumProgress {
+  const eligible = votes.filter((vote) =>
+    approvers.userIds.includes(voterOf(vote)),
+  );
+  const approvals = eligible.filter((vote) => vote.decision === "approve")
+    .length;
+  const rejections = eligible.filter((vote) => vote.decision === "reject")
+    .length;
+  const required = requiredApprovals(approvers);
+  const total = approvers.userIds.length;
+  const voted = new Set(eligible.map(voterOf));
+
+  let outcome: QuorumOutcome = "pending";
+  if (approvals >= required) {
+    outcome = "approved";
+  } else if (total - rejections < required) {
+    outcome = "rejected";
+  }
+
+  return {
+    approvals,
+    rejections,
+    required,
+    total,
+    pendingUserIds: approvers.userIds.filter((id) => !voted.has(id)),
+    outcome,
+  };
+}
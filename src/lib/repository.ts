@@ -0,0 +1,248 @@
+import {
+  Approval,
+  ApprovalFlow,
+  Domain,
+  InAppNotification,
+  LocalCredential,
+  LogEntry,
+  MockData,
+  OutboxMessage,
+  OutboxMessageStatus,
+  User,
+} from "@/types";
+
+export interface StoredFlow {
+  flow: ApprovalFlow;
+  domain: Domain;
+  subdomain: Domain["subdomains"][number];
+}
+
+export interface ApprovalQuery {
+  flowId?: string;
+}
+
+export interface OutboxQuery {
+  approvalId?: string;
+  status?: OutboxMessageStatus;
+}
+
+export interface InboxQuery {
+  userId?: string;
+  unread?: boolean;
+}
+
+export interface FlowSaveOptions {
+  /** Rejects the save when the stored flow has moved past this revision. */
+  expectedRevision?: number;
+}
+
+export class RevisionConflictError extends Error {
+  constructor(
+    readonly entityId: string,
+    readonly currentRevision: number,
+  ) {
+    super(
+      `"${entityId}" was modified concurrently (now at revision ${currentRevision}).`,
+    );
+    this.name = "RevisionConflictError";
+  }
+}
+
+export class FlowInUseError extends Error {
+  constructor(
+    readonly flowId: string,
+    readonly approvalIds: string[],
+  ) {
+    super(
+      `${approvalIds.length} approval(s) still reference flow "${flowId}".`,
+    );
+    this.name = "FlowInUseError";
+  }
+}
+
+export interface UserRepository {
+  list(): Promise<User[]>;
+  get(id: string): Promise<User | undefined>;
+  /** Keeps the stored `sessionVersion`; only `revokeSessions` moves it. */
+  save(user: User): Promise<void>;
+  /** Bumps the session version, signing out every session. Returns the new one. */
+  revokeSessions(id: string): Promise<number | undefined>;
+}
+
+/** A domain's own fields, without its subdomains. */
+export type DomainRecord = Omit<Domain, "subdomains">;
+/** A subdomain's own fields, without its flows. */
+export type SubdomainRecord = Omit<Domain["subdomains"][number], "flows">;
+
+export interface DomainRepository {
+  list(): Promise<Domain[]>;
+  get(id: string): Promise<Domain | undefined>;
+  /** Inserts or replaces a domain's own fields; its subdomains are kept. */
+  save(domain: DomainRecord): Promise<void>;
+  /** Deletes a domain that has no subdomains left. */
+  remove(domainId: string): Promise<void>;
+  /**
+   * Inserts or replaces a subdomain's own fields inside `domainId`; its flows
+   * are kept. Throws when the domain does not exist.
+   */
+  saveSubdomain(domainId: string, subdomain: SubdomainRecord): Promise<void>;
+  /** Deletes a subdomain together with any flows still stored in it. */
+  removeSubdomain(domainId: string, subdomainId: string): Promise<void>;
+}
+
+export interface FlowRepository {
+  find(flowId: string): Promise<StoredFlow | null>;
+  /**
+   * Inserts or replaces a flow inside the given subdomain, moving it out of
+   * its previous subdomain when needed. Returns the stored flow with its
+   * revision bumped, or throws `RevisionConflictError` on a stale revision.
+   */
+  save(
+    domainId: string,
+    subdomainId: string,
+    flow: ApprovalFlow,
+    options?: FlowSaveOptions,
+  ): Promise<ApprovalFlow>;
+  /**
+   * Deletes a flow no approval references, checked in the same write as the
+   * delete. Throws `FlowInUseError` when one does, or `RevisionConflictError`
+   * on a stale revision.
+   */
+  remove(flowId: string, options?: FlowSaveOptions): Promise<void>;
+}
+
+/**
+ * What an atomic update decided: the approval to store, if any, and a value
+ * handed back to the caller.
+ */
+export interface ApprovalMutation<T> {
+  approval?: Approval;
+  result: T;
+}
+
+export interface ApprovalRepository {
+  list(query?: ApprovalQuery): Promise<Approval[]>;
+  get(id: string): Promise<Approval | undefined>;
+  save(approval: Approval): Promise<void>;
+  /**
+   * Reads the approval, passes it to `mutate` and stores what comes back,
+   * with no other write landing in between. `mutate` must be synchronous.
+   * Resolves to `undefined` when the approval does not exist.
+   */
+  update<T>(
+    id: string,
+    mutate: (approval: Approval) => ApprovalMutation<T>,
+  ): Promise<ApprovalMutation<T> | undefined>;
+}
+
+export interface LogRepository {
+  list(): Promise<LogEntry[]>;
+  append(entry: LogEntry): Promise<void>;
+}
+
+export interface OutboxRepository {
+  list(query?: OutboxQuery): Promise<OutboxMessage[]>;
+  get(id: string): Promise<OutboxMessage | undefined>;
+  save(message: OutboxMessage): Promise<void>;
+  /**
+   * Marks the message `sending` if `isClaimable` still holds for the stored
+   * copy, with no other write in between. Resolves to the claimed message, or
+   * `undefined` when another worker got there first.
+   */
+  claim(
+    id: string,
+    isClaimable: (message: OutboxMessage) => boolean,
+    claimedAt: string,
+  ): Promise<OutboxMessage | undefined>;
+}
+
+export interface InboxRepository {
+  list(query?: InboxQuery): Promise<InAppNotification[]>;
+  get(id: string): Promise<InAppNotification | undefined>;
+  save(notification: InAppNotification): Promise<void>;
+}
+
+export interface CredentialRepository {
+  /** Looks up a credential by username, case-insensitively. */
+  find(username: string): Promise<LocalCredential | undefined>;
+  findByUser(userId: string): Promise<LocalCredential | undefined>;
+  save(credential: LocalCredential): Promise<void>;
+}
+
+export interface DataRepository {
+  users: UserRepository;
+  domains: DomainRepository;
+  flows: FlowRepository;
+  approvals: ApprovalRepository;
+  logs: LogRepository;
+  outbox: OutboxRepository;
+  inbox: InboxRepository;
+  credentials: CredentialRepository;
+  /** Full document view for dashboards that aggregate across entities. */
+  snapshot(): Promise<MockData>;
+}
+
+export type StorageDriver = "json" | "sqlite";
+
+export function resolveStorageDriver(value: string | undefined): StorageDriver {
+  return value === "sqlite" ? "sqlite" : "json";
+}
+
+export function revisionOf(flow: ApprovalFlow | undefined) {
+  return flow?.revision ?? 0;
+}
+
+export function assertFlowRevision(
+  stored: ApprovalFlow | undefined,
+  flowId: string,
+  options: FlowSaveOptions | undefined,
+) {
+  const current = revisionOf(stored);
+  if (
+    options?.expectedRevision !== undefined &&
+    options.expectedRevision !== current
+  ) {
+    throw new RevisionConflictError(flowId, current);
+  }
+  return current;
+}
+
+/**
+ * Checks the caller's expected revision against the stored flow and returns
+ * the flow stamped with the next revision.
+ */
+export function nextFlowRevision(
+  stored: ApprovalFlow | undefined,
+  flow: ApprovalFlow,
+  options: FlowSaveOptions | undefined,
+): ApprovalFlow {
+  const current = assertFlowRevision(stored, flow.id, options);
+  return { ...flow, revision: current + 1 };
+}
+
+export function matchesApprovalQuery(
+  approval: Approval,
+  query: ApprovalQuery | undefined,
+) {
+  return !query?.flowId || approval.flowId === query.flowId;
+}
+
+export function matchesOutboxQuery(
+  message: OutboxMessage,
+  query: OutboxQuery | undefined,
+) {
+  return (
+    (!query?.approvalId || message.approvalId === query.approvalId) &&
+    (!query?.status || message.status === query.status)
+  );
+}
+
+export function matchesInboxQuery(
+  notification: InAppNotification,
+  query: InboxQuery | undefined,
+) {
+  return (
+    (!query?.userId || notification.userId === query.userId) &&
+    (!query?.unread || !notification.readAt)
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { ApprovalFlowDefinition } from "@/types";
+import { listConditionIssues } from "@/lib/ruleEngine";
+
+function definition(conditions: unknown): ApprovalFlowDefinition {
+  return {
+    payloadSchema: [{ name: "amount", type: "number" }],
+    stages: [
+      {
+        id: "review",
+        name: "Review",
+        description: "",
+        actor: "",
+        status: "in_process",
+        transitions: [
+          {
+            to: "approved",
+            targetStageId: "done",
+            label: "Approve",
+            conditions: conditions as string[],
+          },
+        ],
+      },
+      {
+        id: "done",
+        name: "Done",
+        description: "",
+        actor: "",
+        status: "approved",
+        transitions: [],
+      },
+    ],
+  };
+}
+
+describe("listConditionIssues", () => {
+  it("reports syntax errors and fields outside the payload schema", () => {
+    expect(
+      listConditionIssues(definition(["amount >", "region == 'EU'"])),
+    ).toEqual([
+      'Condition `amount >` on "Review" → "Approve": Unexpected end of expression.',
+      'Condition `region == \'EU\'` on "Review" → "Approve": unknown payload field "region".',
+    ]);
+  });
+
+  it("rejects conditions that are not a list of text", () => {
+    expect(listConditionIssues(definition("amount > 5"))).toEqual([
+      'Conditions on "Review" → "Approve" must be a list of expressions.',
+    ]);
+    expect(listConditionIssues(definition(["amount > 5", 5, null]))).toEqual([
+      'Condition 2 on "Review" → "Approve" must be an expression written as text.',
+      'Condition 3 on "Review" → "Approve" must be an expression written as text.',
+    ]);
+  });
+});
@@ -4,12 +4,27 @@ import {
   ApprovalStatus,
   FlowTransition,
 } from "@/types";
+import {
+  evaluateCondition,
+  listConditionFields,
+  parseCondition,
+} from "@/lib/conditionExpression";
+import { validateStageApprovers } from "@/lib/quorum";
+import { validateStageAssignment } from "@/lib/assignmentResolver";
+import { validateStageSla } from "@/lib/stageSla";
+import { lintNotificationTemplate } from "@/lib/notificationEngine";
 
 export interface FlowPathEvaluation {
   isValid: boolean;
   issues: string[];
 }
 
+export interface TransitionConditionEvaluation {
+  holds: boolean;
+  unmet: string[];
+  issues: string[];
+}
+
 function isApprovalStatus(value: unknown): value is ApprovalStatus {
   return (
     value === "in_process" ||
@@ -156,3 +171,151 @@ export function evaluateFlowPath(
     issues,
   };
 }
+
+function describeTransition(
+  stage: ApprovalFlowStage,
+  transition: FlowTransition,
+) {
+  return transition.label
+    ? `"${stage.name}" → "${transition.label}"`
+    : `"${stage.name}" → ${transition.targetStageName ?? transition.to}`;
+}
+
+/**
+ * Parses every transition condition in the definition and reports the ones
+ * that are not valid expressions. When the flow declares a payload schema,
+ * conditions may only reference its fields.
+ */
+export function listConditionIssues(
+  definition: ApprovalFlowDefinition,
+): string[] {
+  const knownFields = Array.isArray(definition.payloadSchema)
+    ? new Set(definition.payloadSchema.map((field) => field.name))
+    : null;
+
+  return definition.stages.flatMap((stage) =>
+    stage.transitions.flatMap((transition) => {
+      const conditions: unknown = transition.conditions ?? [];
+      if (!Array.isArray(conditions)) {
+        return [
+          `Conditions on ${describeTransition(stage, transition)} must be a list of expressions.`,
+        ];
+      }
+      return conditions.flatMap((condition: unknown, index) => {
+        if (typeof condition !== "string") {
+          return [
+            `Condition ${index + 1} on ${describeTransition(stage, transition)} must be an expression written as text.`,
+          ];
+        }
+        const parsed = parseCondition(condition);
+        const issues = parsed.ok
+          ? listConditionFields(parsed.expression)
+              .filter((field) => knownFields && !knownFields.has(field))
+              .map((field) => `unknown payload field "${field}".`)
+          : parsed.issues;
+        return issues.map(
+          (issue) =>
+            `Condition \`${condition}\` on ${describeTransition(stage, transition)}: ${issue}`,
+        );
+      });
+    }),
+  );
+}
+
+/**
+ * Conditions only pick which reject route to take, so every stage that can be
+ * rejected needs one reject route without conditions to fall back on.
+ */
+export function listRejectRouteIssues(
+  definition: ApprovalFlowDefinition,
+): string[] {
+  const statusById = new Map(
+    definition.stages.map((stage) => [stage.id, stage.status]),
+  );
+  return definition.stages.flatMap((stage) => {
+    const rejectRoutes = stage.transitions.filter(
+      (transition) =>
+        (transition.targetStageId
+          ? statusById.get(transition.targetStageId)
+          : transition.to) === "reject",
+    );
+    return rejectRoutes.length > 0 &&
+      rejectRoutes.every((transition) => transition.conditions?.length)
+      ? [
+          `Stage "${stage.name}" needs a reject route without conditions to fall back on when no conditional route matches.`,
+        ]
+      : [];
+  });
+}
+
+/** Reports parallel stages whose sign-off list or quorum cannot be met. */
+export function listQuorumIssues(definition: ApprovalFlowDefinition): string[] {
+  return definition.stages.flatMap((stage) =>
+    validateStageApprovers(stage.name, stage.approvers),
+  );
+}
+
+/** Reports assignment rules that are incomplete or read undeclared fields. */
+export function listAssignmentIssues(
+  definition: ApprovalFlowDefinition,
+): string[] {
+  return definition.stages.flatMap((stage) =>
+    validateStageAssignment(
+      stage.name,
+      stage.assignment,
+      definition.payloadSchema,
+    ),
+  );
+}
+
+/** Reports SLA timers and escalation steps that cannot run as configured. */
+export function listSlaIssues(definition: ApprovalFlowDefinition): string[] {
+  return definition.stages.flatMap((stage) =>
+    validateStageSla(stage, definition),
+  );
+}
+
+/** Reports notification templates that do not parse or use unknown variables. */
+export function listTemplateIssues(
+  definition: ApprovalFlowDefinition,
+): string[] {
+  return definition.stages.flatMap((stage) =>
+    stage.notification
+      ? lintNotificationTemplate(
+          stage.notification,
+          definition.payloadSchema,
+        ).map((issue) => `Notification on "${stage.name}", ${issue}`)
+      : [],
+  );
+}
+
+/**
+ * Evaluates a transition's conditions against the approval payload. Every
+ * condition must hold; a transition without conditions always holds.
+ */
+export function evaluateTransitionConditions(
+  transition: FlowTransition,
+  payload: Record<string, unknown>,
+): TransitionConditionEvaluation {
+  const unmet: string[] = [];
+  const issues: string[] = [];
+
+  (transition.conditions ?? []).forEach((condition) => {
+    const parsed = parseCondition(condition);
+    if (!parsed.ok) {
+      issues.push(
+        ...parsed.issues.map((issue) => `\`${condition}\`: ${issue}`),
+      );
+      return;
+    }
+    if (!evaluateCondition(parsed.expression, payload)) {
+      unmet.push(condition);
+    }
+  });
+
+  return {
+    holds: unmet.length === 0 && issues.length === 0,
+    unmet,
+    issues,
+  };
+}
@@ -0,0 +1,130 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IdentityProviderId, Session, User } from "@/types";
+
+export const SESSION_COOKIE = "approval_session";
+export const OIDC_STATE_COOKIE = "approval_oidc";
+const DEFAULT_SESSION_HOURS = 12;
+const DEVELOPMENT_SECRET = "approval-hub-development-secret";
+
+/**
+ * `APPROVAL_SESSION_SECRET` signs session cookies. Outside production a fixed
+ * development secret is used when it is unset, so sessions survive restarts.
+ */
+export function getSessionSecret(env: NodeJS.ProcessEnv = process.env) {
+  const secret = env.APPROVAL_SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (env.NODE_ENV === "production") {
+    throw new Error("APPROVAL_SESSION_SECRET is required in production.");
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+export function getSessionHours(env: NodeJS.ProcessEnv = process.env) {
+  const hours = Number(env.APPROVAL_SESSION_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_HOURS;
+}
+
+function sign(encoded: string, secret: string) {
+  return createHmac("sha256", secret).update(encoded).digest("base64url");
+}
+
+/** Serialises `value` as `<base64url JSON>.<HMAC-SHA256>`. */
+export function signValue(value: unknown, secret: string) {
+  const encoded = Buffer.from(JSON.stringify(value), "utf-8").toString(
+    "base64url",
+  );
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/** Returns the signed value, or null when the token is malformed or forged. */
+export function verifySignedValue<T>(
+  token: string | undefined,
+  secret: string,
+): T | null {
+  const [encoded, signature, ...rest] = (token ?? "").split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function createSession(
+  user: Pick<User, "id" | "sessionVersion">,
+  provider: IdentityProviderId,
+  now: Date = new Date(),
+): Session {
+  return {
+    userId: user.id,
+    provider,
+    version: user.sessionVersion ?? 0,
+    issuedAt: now.toISOString(),
+    expiresAt: new Date(
+      now.getTime() + getSessionHours() * 60 * 60 * 1000,
+    ).toISOString(),
+  };
+}
+
+/** Verifies a session cookie and checks it has not expired. */
+export function readSessionToken(
+  token: string | undefined,
+  now: Date = new Date(),
+): Session | null {
+  const session = verifySignedValue<Session>(token, getSessionSecret());
+  if (
+    !session ||
+    typeof session.userId !== "string" ||
+    typeof session.expiresAt !== "string" ||
+    new Date(session.expiresAt).getTime() <= now.getTime()
+  ) {
+    return null;
+  }
+  return session;
+}
+
+export function sessionCookieOptions(expiresAt: string) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt),
+  };
+}
+
+/** Held in a signed cookie between leaving for a redirect provider and coming back. */
+export interface RedirectState {
+  provider: IdentityProviderId;
+  state: string;
+  nonce: string;
+  next: string;
+  expiresAt: string;
+}
+
+/**
+ * Where a redirect provider sends the browser back to. `APPROVAL_PUBLIC_URL`
+ * overrides the request origin when the app runs behind a proxy.
+ */
+export function callbackUrl(
+  requestUrl: URL,
+  provider: IdentityProviderId,
+  env: NodeJS.ProcessEnv = process.env,
+) {
+  const origin = env.APPROVAL_PUBLIC_URL?.replace(/\/+$/, "") ?? requestUrl.origin;
+  return `${origin}/api/auth/${provider}/callback`;
+}
+
+/** Only same-site paths are followed after sign-in. */
+export function safeNextPath(next: unknown, fallback = "/dashboard/my-work") {
+  return typeof next === "string" && /^\/(?![/\\])/.test(next) ? next : fallback;
+}
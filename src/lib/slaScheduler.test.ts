@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ApprovalFlow, MockData, User } from "@/types";
+import { createJsonRepository } from "@/lib/jsonRepository";
+import { runSlaSweep } from "@/lib/slaScheduler";
+
+const DUE_AT = "2026-03-02T09:00:00.000Z";
+
+const FLOW: ApprovalFlow = {
+  id: "purchase",
+  name: "Purchase",
+  version: "1.0.0",
+  description: "",
+  updatedAt: DUE_AT,
+  definition: {
+    stages: [
+      {
+        id: "review",
+        name: "Review",
+        description: "",
+        actor: "",
+        actorUserId: "u-2",
+        status: "in_process",
+        sla: {
+          dueInHours: 24,
+          escalation: [
+            { afterHours: 0, action: "remind" },
+            { afterHours: 2, action: "escalate" },
+          ],
+        },
+        transitions: [{ to: "approved", targetStageId: "done" }],
+      },
+      {
+        id: "done",
+        name: "Done",
+        description: "",
+        actor: "",
+        status: "approved",
+        transitions: [],
+      },
+    ],
+  },
+};
+
+function user(id: string, fields: Partial<User> = {}): User {
+  return {
+    id,
+    name: id,
+    email: `${id}@example.com`,
+    role: "Approver",
+    ...fields,
+  };
+}
+
+function document(): MockData {
+  return {
+    users: [
+      user("u-1"),
+      user("u-2", { supervisorId: "u-3" }),
+      user("u-3", {
+        notificationPreferences: {
+          frequency: "digest",
+          channels: ["email"],
+          mutedDomainIds: [],
+        },
+      }),
+    ],
+    domains: [
+      {
+        id: "ops",
+        name: "Operations",
+        description: "",
+        subdomains: [
+          {
+            id: "ops-purchasing",
+            name: "Purchasing",
+            description: "",
+            flows: [FLOW],
+          },
+        ],
+      },
+    ],
+    approvals: [
+      {
+        id: "a-1",
+        title: "Laptop",
+        domainId: "ops",
+        subdomainId: "ops-purchasing",
+        requesterId: "u-1",
+        approverIds: ["u-2"],
+        status: "in_process",
+        submittedAt: "2026-03-01T09:00:00.000Z",
+        lastUpdatedAt: "2026-03-01T09:00:00.000Z",
+        flowId: FLOW.id,
+        flowVersion: FLOW.version,
+        currentStageId: "review",
+        sla: { stageId: "review", dueAt: DUE_AT, stepsTaken: 0 },
+      },
+    ],
+    logs: [],
+    outbox: [],
+    inbox: [],
+    credentials: [],
+  };
+}
+
+let directory: string;
+let filePath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "sla-"));
+  filePath = path.join(directory, "data.json");
+  await fs.writeFile(filePath, JSON.stringify(document()), "utf-8");
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("runSlaSweep", () => {
+  it("queues reminders and escalations as each recipient prefers", async () => {
+    const repository = createJsonRepository(filePath);
+    const result = await runSlaSweep(
+      repository,
+      new Date("2026-03-02T12:00:00.000Z"),
+    );
+    expect(result.updatedApprovalIds).toEqual(["a-1"]);
+
+    const outbox = await repository.outbox.list();
+    expect(outbox).toHaveLength(2);
+    expect(outbox).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          approvalId: "a-1",
+          to: ["u-2@example.com"],
+          subject: 'Reminder: "Laptop" is waiting for you',
+          status: "pending",
+        }),
+        expect.objectContaining({
+          approvalId: "a-1",
+          to: ["u-3@example.com"],
+          recipientId: "u-3",
+          subject: 'Escalated: "Laptop" is overdue',
+          status: "held",
+        }),
+      ]),
+    );
+
+    const inbox = await repository.inbox.list();
+    expect(inbox.map((note) => [note.userId, note.title])).toEqual([
+      ["u-2", 'Reminder: "Laptop" is waiting for you'],
+    ]);
+  });
+
+  it("does not repeat steps already taken", async () => {
+    const repository = createJsonRepository(filePath);
+    const now = new Date("2026-03-02T12:00:00.000Z");
+    await runSlaSweep(repository, now);
+    const second = await runSlaSweep(repository, now);
+    expect(second.updatedApprovalIds).toEqual([]);
+    expect(await repository.outbox.list()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,359 @@
+import {
+  Approval,
+  ApprovalFlow,
+  ApprovalFlowStage,
+  EscalationAction,
+  LogEntry,
+  User,
+} from "@/types";
+import { createLogEntry, generateId, getRepository } from "@/lib/dataStore";
+import type { DataRepository } from "@/lib/repository";
+import {
+  dispatchSlaNotifications,
+  dispatchStageNotifications,
+  type SlaNotice,
+} from "@/lib/notificationOutbox";
+import {
+  autoTransitionApproval,
+  getCurrentStage,
+  isApprovalClosed,
+  SYSTEM_ACTOR_ID,
+} from "@/lib/approvalRuntime";
+import {
+  resolveStageAssignees,
+  walkSupervisors,
+} from "@/lib/assignmentResolver";
+import { routeToDelegates } from "@/lib/delegation";
+import {
+  describeMissingRevision,
+  resolveFlowRevision,
+} from "@/lib/flowVersioning";
+import { addHours, orderEscalationSteps } from "@/lib/stageSla";
+
+export interface SlaEvaluation {
+  approval: Approval;
+  logs: LogEntry[];
+  /** Reminders and escalation notices to queue once the approval is saved. */
+  notices: SlaNotice[];
+}
+
+type SweepOutcome =
+  | { kind: "evaluated"; previous: Approval; evaluation: SlaEvaluation }
+  | { kind: "missing"; missing: string };
+
+export interface SlaSweepResult {
+  checkedAt: string;
+  evaluated: number;
+  updatedApprovalIds: string[];
+  /** Approvals whose clock could not run, with the reason. */
+  skipped: { approvalId: string; reason: string }[];
+  logs: LogEntry[];
+}
+
+function appendEscalationHistory(
+  approval: Approval,
+  stage: ApprovalFlowStage,
+  action: EscalationAction,
+  comment: string,
+  timestamp: string,
+): Approval {
+  return {
+    ...approval,
+    history: [
+      ...(approval.history ?? []),
+      {
+        id: generateId("h"),
+        action,
+        actorId: SYSTEM_ACTOR_ID,
+        fromStageId: stage.id,
+        comment,
+        timestamp,
+      },
+    ],
+  };
+}
+
+/**
+ * Runs every escalation step of the approval's current stage that has fallen
+ * due by `now`. Returns null when nothing was due.
+ */
+export function evaluateApprovalSla(
+  approval: Approval,
+  flow: ApprovalFlow,
+  users: User[],
+  now: Date,
+): SlaEvaluation | null {
+  const sla = approval.sla;
+  if (!sla || approval.flowId !== flow.id || isApprovalClosed(approval, flow)) {
+    return null;
+  }
+  const stage = getCurrentStage(approval, flow);
+  if (!stage || stage.id !== sla.stageId) {
+    return null;
+  }
+
+  const timestamp = now.toISOString();
+  const steps = orderEscalationSteps(stage);
+  const describeUsers = (ids: string[]) =>
+    ids
+      .map((id) => users.find((user) => user.id === id)?.name ?? id)
+      .join(", ") || "nobody";
+  const logs: LogEntry[] = [];
+  const notices: SlaNotice[] = [];
+  let current = approval;
+  let stepsTaken = sla.stepsTaken;
+
+  while (stepsTaken < steps.length) {
+    const step = steps[stepsTaken];
+    if (new Date(addHours(sla.dueAt, step.afterHours)) > now) {
+      break;
+    }
+    stepsTaken += 1;
+    const context = {
+      approvalId: approval.id,
+      stageId: stage.id,
+      action: step.action,
+      step: stepsTaken,
+      dueAt: sla.dueAt,
+    };
+
+    if (step.action === "remind") {
+      const recipientIds = routeToDelegates(current.approverIds, users, now);
+      const recipients = describeUsers(recipientIds);
+      notices.push({
+        action: "remind",
+        stageId: stage.id,
+        stageName: stage.name,
+        dueAt: sla.dueAt,
+        userIds: recipientIds,
+      });
+      logs.push(
+        createLogEntry(
+          "info",
+          `SLA reminder for approval ${approval.id} on "${stage.name}" queued for ${recipients}`,
+          { ...context, userIds: recipientIds },
+        ),
+      );
+      current = appendEscalationHistory(
+        current,
+        stage,
+        "remind",
+        `Reminded ${recipients}`,
+        timestamp,
+      );
+      continue;
+    }
+
+    if (step.action === "escalate") {
+      const level = steps
+        .slice(0, stepsTaken)
+        .filter((item) => item.action === "escalate").length;
+      const assignees = resolveStageAssignees(stage, {
+        users,
+        requesterId: approval.requesterId,
+        payload: approval.payload,
+      });
+      const escalatedIds = Array.from(
+        new Set(
+          assignees
+            .map((id) => walkSupervisors(users, id, level)?.id)
+            .filter((id): id is string => Boolean(id)),
+        ),
+      );
+      if (escalatedIds.length === 0) {
+        logs.push(
+          createLogEntry(
+            "error",
+            `Approval ${approval.id} could not be escalated on "${stage.name}": no supervisor ${level} level${level === 1 ? "" : "s"} up`,
+            { ...context, level },
+          ),
+        );
+        continue;
+      }
+      const notifiedIds = routeToDelegates(escalatedIds, users, now);
+      notices.push({
+        action: "escalate",
+        stageId: stage.id,
+        stageName: stage.name,
+        dueAt: sla.dueAt,
+        userIds: notifiedIds,
+      });
+      logs.push(
+        createLogEntry(
+          "warning",
+          `Approval ${approval.id} escalated to ${describeUsers(notifiedIds)} on "${stage.name}" (level ${level})`,
+          { ...context, level, userIds: notifiedIds },
+        ),
+      );
+      current = appendEscalationHistory(
+        {
+          ...current,
+          // Parallel stages keep waiting on their voters; supervisors are only told.
+          approverIds: stage.approvers
+            ? current.approverIds
+            : Array.from(new Set([...current.approverIds, ...escalatedIds])),
+        },
+        stage,
+        "escalate",
+        `Escalated to ${describeUsers(escalatedIds)}`,
+        timestamp,
+      );
+      continue;
+    }
+
+    const result = autoTransitionApproval(current, flow, {
+      targetStageId: step.targetStageId ?? "",
+      users,
+      timestamp,
+    });
+    if (!result.ok) {
+      logs.push(
+        createLogEntry(
+          "error",
+          `Approval ${approval.id} could not auto-transition from "${stage.name}": ${result.issues.join(" ")}`,
+          context,
+        ),
+      );
+      continue;
+    }
+    logs.push(
+      createLogEntry(
+        "warning",
+        `Approval ${approval.id} auto-transitioned from "${stage.name}" to "${result.stage.name}" after its SLA ran out`,
+        { ...context, fromStageId: stage.id, toStageId: result.stage.id },
+      ),
+    );
+    return { approval: result.approval, logs, notices };
+  }
+
+  if (stepsTaken === sla.stepsTaken) {
+    return null;
+  }
+  return {
+    approval: {
+      ...current,
+      sla: { ...sla, stepsTaken },
+      lastUpdatedAt: timestamp,
+    },
+    logs,
+    notices,
+  };
+}
+
+/** Evaluates every approval with a running SLA clock and persists the results. */
+export async function runSlaSweep(
+  repository: DataRepository,
+  now: Date = new Date(),
+): Promise<SlaSweepResult> {
+  const [approvals, users] = await Promise.all([
+    repository.approvals.list(),
+    repository.users.list(),
+  ]);
+  const timed = approvals.filter((approval) => approval.sla);
+  const updatedApprovalIds: string[] = [];
+  const skipped: SlaSweepResult["skipped"] = [];
+  const logs: LogEntry[] = [];
+
+  for (const approval of timed) {
+    const stored = approval.flowId
+      ? await repository.flows.find(approval.flowId)
+      : null;
+    if (!stored) {
+      continue;
+    }
+    // The listing above may be stale by now: evaluate against the stored
+    // approval inside the update so a concurrent action is never undone.
+    const mutation = await repository.approvals.update<SweepOutcome | null>(
+      approval.id,
+      (current) => {
+        const flow = resolveFlowRevision(stored.flow, current.flowVersion);
+        if (!flow) {
+          return {
+            result: {
+              kind: "missing",
+              missing: describeMissingRevision(stored.flow, current.flowVersion),
+            },
+          };
+        }
+        const evaluation = current.sla
+          ? evaluateApprovalSla(current, flow, users, now)
+          : null;
+        return {
+          approval: evaluation?.approval,
+          result: evaluation
+            ? { kind: "evaluated", previous: current, evaluation }
+            : null,
+        };
+      },
+    );
+    if (!mutation?.result) {
+      continue;
+    }
+    if (mutation.result.kind === "missing") {
+      skipped.push({ approvalId: approval.id, reason: mutation.result.missing });
+      continue;
+    }
+    const { previous, evaluation } = mutation.result;
+    await dispatchStageNotifications(
+      repository,
+      stored,
+      evaluation.approval,
+      previous,
+    );
+    await dispatchSlaNotifications(
+      repository,
+      evaluation.approval,
+      evaluation.notices,
+    );
+    for (const entry of evaluation.logs) {
+      await repository.logs.append(entry);
+    }
+    updatedApprovalIds.push(approval.id);
+    logs.push(...evaluation.logs);
+  }
+
+  return {
+    checkedAt: now.toISOString(),
+    evaluated: timed.length,
+    updatedApprovalIds,
+    skipped,
+    logs,
+  };
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Starts the in-process SLA scheduler. Sweeps never overlap; a failed sweep is
+ * recorded as an error log entry and retried on the next tick.
+ */
+export function startSlaScheduler(intervalMs: number) {
+  if (schedulerTimer) {
+    return;
+  }
+  let running = false;
+
+  schedulerTimer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await runSlaSweep(await getRepository());
+    } catch (error) {
+      const repository = await getRepository().catch(() => null);
+      await repository?.logs
+        .append(
+          createLogEntry(
+            "error",
+            `SLA sweep failed: ${error instanceof Error ? error.message : String(error)}`,
+            {},
+          ),
+        )
+        .catch(() => undefined);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  schedulerTimer.unref?.();
+}
@@ -0,0 +1,124 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ApprovalFlow, MockData } from "@/types";
+import { createSqliteRepository } from "@/lib/sqliteRepository";
+import { FlowInUseError, RevisionConflictError } from "@/lib/repository";
+
+const FLOW: ApprovalFlow = {
+  id: "purchase",
+  name: "Purchase",
+  version: "1.0.0",
+  description: "",
+  updatedAt: "2026-03-01T09:00:00.000Z",
+  definition: { stages: [] },
+};
+
+const SEED: MockData = {
+  users: [],
+  domains: [
+    {
+      id: "ops",
+      name: "Operations",
+      description: "",
+      subdomains: [
+        {
+          id: "ops-purchasing",
+          name: "Purchasing",
+          description: "",
+          flows: [FLOW],
+        },
+      ],
+    },
+  ],
+  approvals: [],
+  logs: [],
+  outbox: [],
+  inbox: [],
+  credentials: [],
+};
+
+let directory: string;
+let seedPath: string;
+
+beforeEach(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-repository-"));
+  seedPath = path.join(directory, "seed.json");
+  await fs.writeFile(seedPath, JSON.stringify(SEED), "utf-8");
+});
+
+afterEach(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe("createSqliteRepository", () => {
+  it("bumps the flow revision on each save", async () => {
+    const repository = createSqliteRepository(
+      path.join(directory, "data.db"),
+      seedPath,
+    );
+    await repository.flows.save("ops", "ops-purchasing", FLOW);
+    const saved = await repository.flows.save("ops", "ops-purchasing", FLOW, {
+      expectedRevision: 1,
+    });
+    expect(saved.revision).toBe(2);
+    expect((await repository.flows.find(FLOW.id))?.flow.revision).toBe(2);
+  });
+
+  it("refuses saves and removals made against a stale revision", async () => {
+    const repository = createSqliteRepository(
+      path.join(directory, "data.db"),
+      seedPath,
+    );
+    await repository.flows.save("ops", "ops-purchasing", FLOW);
+
+    await expect(
+      repository.flows.save("ops", "ops-purchasing", FLOW, {
+        expectedRevision: 0,
+      }),
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+    await expect(
+      repository.flows.remove(FLOW.id, { expectedRevision: 0 }),
+    ).rejects.toMatchObject({ entityId: FLOW.id, currentRevision: 1 });
+    expect(await repository.flows.find(FLOW.id)).toBeDefined();
+  });
+
+  it("refuses to remove a flow that approvals reference", async () => {
+    const repository = createSqliteRepository(
+      path.join(directory, "data.db"),
+      seedPath,
+    );
+    await repository.approvals.save({
+      id: "a-1",
+      title: "Laptop",
+      domainId: "ops",
+      subdomainId: "ops-purchasing",
+      requesterId: "u-1",
+      approverIds: [],
+      status: "approved",
+      submittedAt: "2026-03-01T09:00:00.000Z",
+      lastUpdatedAt: "2026-03-01T09:00:00.000Z",
+      flowId: FLOW.id,
+    });
+
+    const removal = repository.flows.remove(FLOW.id);
+    await expect(removal).rejects.toBeInstanceOf(FlowInUseError);
+    await expect(removal).rejects.toMatchObject({ approvalIds: ["a-1"] });
+    expect(await repository.flows.find(FLOW.id)).not.toBeNull();
+  });
+
+  it("sees revisions written through another connection", async () => {
+    const filePath = path.join(directory, "data.db");
+    const first = createSqliteRepository(filePath, seedPath);
+    const second = createSqliteRepository(filePath, seedPath);
+    await first.flows.save("ops", "ops-purchasing", FLOW, {
+      expectedRevision: 0,
+    });
+    await expect(
+      second.flows.save("ops", "ops-purchasing", FLOW, {
+        expectedRevision: 0,
+      }),
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+  });
+});
@@ -0,0 +1,564 @@
+import { readFileSync, existsSync } from "fs";
+import Database from "better-sqlite3";
+import {
+  Approval,
+  ApprovalFlow,
+  Domain,
+  InAppNotification,
+  LocalCredential,
+  LogEntry,
+  MockData,
+  OutboxMessage,
+  User,
+} from "@/types";
+import {
+  ApprovalMutation,
+  DataRepository,
+  DomainRecord,
+  FlowInUseError,
+  FlowSaveOptions,
+  StoredFlow,
+  SubdomainRecord,
+  assertFlowRevision,
+  matchesInboxQuery,
+  matchesOutboxQuery,
+  nextFlowRevision,
+} from "@/lib/repository";
+
+interface DocumentRow {
+  data: string;
+}
+
+interface FlowRow extends DocumentRow {
+  domain_id: string;
+  subdomain_id: string;
+}
+
+interface SubdomainRow extends DocumentRow {
+  domain_id: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS domains (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS subdomains (
+    id TEXT PRIMARY KEY,
+    domain_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS flows (
+    id TEXT PRIMARY KEY,
+    domain_id TEXT NOT NULL,
+    subdomain_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS approvals (
+    id TEXT PRIMARY KEY,
+    flow_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS logs (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS outbox (
+    id TEXT PRIMARY KEY,
+    approval_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS inbox (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS credentials (
+    username TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS approvals_flow_id ON approvals (flow_id);
+  CREATE INDEX IF NOT EXISTS outbox_status ON outbox (status);
+  CREATE INDEX IF NOT EXISTS inbox_user_id ON inbox (user_id);
+  CREATE INDEX IF NOT EXISTS credentials_user_id ON credentials (user_id);
+`;
+
+function parseRow<T>(row: DocumentRow | undefined): T | undefined {
+  return row ? (JSON.parse(row.data) as T) : undefined;
+}
+
+function parseRows<T>(rows: DocumentRow[]): T[] {
+  return rows.map((row) => JSON.parse(row.data) as T);
+}
+
+function splitDomain({ subdomains, ...domain }: Domain) {
+  return {
+    domain: domain as DomainRecord,
+    subdomains: subdomains.map(({ flows, ...subdomain }) => ({
+      subdomain: subdomain as SubdomainRecord,
+      flows,
+    })),
+  };
+}
+
+/**
+ * SQLite-backed repository. Each entity is stored as a JSON document per row
+ * so reads and writes touch only the rows involved. An empty database is
+ * seeded from `seedPath` on first open.
+ */
+export function createSqliteRepository(
+  filePath: string,
+  seedPath: string,
+): DataRepository {
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const upsertUser = db.prepare(
+    "INSERT INTO users (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data",
+  );
+  const upsertDomain = db.prepare(
+    "INSERT INTO domains (id, data) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data",
+  );
+  const upsertSubdomain = db.prepare(
+    "INSERT INTO subdomains (id, domain_id, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET domain_id = excluded.domain_id, data = excluded.data",
+  );
+  const upsertFlow = db.prepare(
+    "INSERT INTO flows (id, domain_id, subdomain_id, data) VALUES (?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET domain_id = excluded.domain_id, subdomain_id = excluded.subdomain_id, data = excluded.data",
+  );
+  const upsertApproval = db.prepare(
+    "INSERT INTO approvals (id, flow_id, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET flow_id = excluded.flow_id, data = excluded.data",
+  );
+  const insertLog = db.prepare(
+    "INSERT INTO logs (id, timestamp, data) VALUES (?, ?, ?)",
+  );
+  const upsertOutboxMessage = db.prepare(
+    "INSERT INTO outbox (id, approval_id, status, data) VALUES (?, ?, ?, ?) ON CONFLICT(id) DO UPDATE SET status = excluded.status, data = excluded.data",
+  );
+
+  const saveUser = (user: User) => upsertUser.run(user.id, JSON.stringify(user));
+  const saveDomain = (input: Domain) => {
+    const { domain, subdomains } = splitDomain(input);
+    upsertDomain.run(domain.id, JSON.stringify(domain));
+    subdomains.forEach(({ subdomain, flows }) => {
+      upsertSubdomain.run(subdomain.id, domain.id, JSON.stringify(subdomain));
+      flows.forEach((flow) =>
+        upsertFlow.run(flow.id, domain.id, subdomain.id, JSON.stringify(flow)),
+      );
+    });
+  };
+  const saveFlow = db.transaction(
+    (
+      domainId: string,
+      subdomainId: string,
+      flow: ApprovalFlow,
+      options?: FlowSaveOptions,
+    ) => {
+      const subdomain = db
+        .prepare("SELECT id FROM subdomains WHERE id = ? AND domain_id = ?")
+        .get(subdomainId, domainId);
+      if (!subdomain) {
+        throw new Error(`Subdomain "${subdomainId}" not found.`);
+      }
+      const stored = parseRow<ApprovalFlow>(
+        db.prepare("SELECT data FROM flows WHERE id = ?").get(flow.id) as
+          | DocumentRow
+          | undefined,
+      );
+      const saved = nextFlowRevision(stored, flow, options);
+      upsertFlow.run(saved.id, domainId, subdomainId, JSON.stringify(saved));
+      return saved;
+    },
+  );
+  const removeFlow = db.transaction(
+    (flowId: string, options?: FlowSaveOptions) => {
+      const stored = parseRow<ApprovalFlow>(
+        db.prepare("SELECT data FROM flows WHERE id = ?").get(flowId) as
+          | DocumentRow
+          | undefined,
+      );
+      assertFlowRevision(stored, flowId, options);
+      const approvalIds = (
+        db.prepare("SELECT id FROM approvals WHERE flow_id = ?").all(flowId) as {
+          id: string;
+        }[]
+      ).map((row) => row.id);
+      if (approvalIds.length > 0) {
+        throw new FlowInUseError(flowId, approvalIds);
+      }
+      db.prepare("DELETE FROM flows WHERE id = ?").run(flowId);
+    },
+  );
+  const removeSubdomain = db.transaction(
+    (domainId: string, subdomainId: string) => {
+      db.prepare(
+        "DELETE FROM flows WHERE domain_id = ? AND subdomain_id = ?",
+      ).run(domainId, subdomainId);
+      db.prepare("DELETE FROM subdomains WHERE id = ? AND domain_id = ?").run(
+        subdomainId,
+        domainId,
+      );
+    },
+  );
+  const saveApproval = (approval: Approval) =>
+    upsertApproval.run(
+      approval.id,
+      approval.flowId ?? null,
+      JSON.stringify(approval),
+    );
+  // IMMEDIATE takes the write lock up front, so two processes can't both
+  // read the same approval before either writes it back.
+  const updateApproval = db.transaction(
+    (id: string, mutate: (approval: Approval) => ApprovalMutation<unknown>) => {
+      const current = parseRow<Approval>(
+        db.prepare("SELECT data FROM approvals WHERE id = ?").get(id) as
+          | DocumentRow
+          | undefined,
+      );
+      if (!current) {
+        return undefined;
+      }
+      const mutation = mutate(current);
+      if (mutation.approval) {
+        saveApproval(mutation.approval);
+      }
+      return mutation;
+    },
+  );
+  const findUser = (id: string) =>
+    parseRow<User>(
+      db.prepare("SELECT data FROM users WHERE id = ?").get(id) as
+        | DocumentRow
+        | undefined,
+    );
+  // Session versions only move through revokeSessions, so a save built from
+  // an earlier read can't bring revoked sessions back.
+  const updateUser = db.transaction((user: User) => {
+    const stored = findUser(user.id);
+    saveUser(stored ? { ...user, sessionVersion: stored.sessionVersion } : user);
+  });
+  const revokeUserSessions = db.transaction((id: string) => {
+    const stored = findUser(id);
+    if (!stored) {
+      return undefined;
+    }
+    const sessionVersion = (stored.sessionVersion ?? 0) + 1;
+    saveUser({ ...stored, sessionVersion });
+    return sessionVersion;
+  });
+  const saveLog = (entry: LogEntry) =>
+    insertLog.run(entry.id, entry.timestamp, JSON.stringify(entry));
+  const upsertInAppNotification = db.prepare(
+    "INSERT INTO inbox (id, user_id, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data",
+  );
+  const saveInAppNotification = (notification: InAppNotification) =>
+    upsertInAppNotification.run(
+      notification.id,
+      notification.userId,
+      JSON.stringify(notification),
+    );
+  const upsertCredential = db.prepare(
+    "INSERT INTO credentials (username, user_id, data) VALUES (?, ?, ?) ON CONFLICT(username) DO UPDATE SET user_id = excluded.user_id, data = excluded.data",
+  );
+  const saveCredential = (credential: LocalCredential) =>
+    upsertCredential.run(
+      credential.username,
+      credential.userId,
+      JSON.stringify(credential),
+    );
+  const saveOutboxMessage = (message: OutboxMessage) =>
+    upsertOutboxMessage.run(
+      message.id,
+      message.approvalId,
+      message.status,
+      JSON.stringify(message),
+    );
+
+  const claimOutboxMessage = db.transaction(
+    (
+      id: string,
+      isClaimable: (message: OutboxMessage) => boolean,
+      claimedAt: string,
+    ) => {
+      const current = parseRow<OutboxMessage>(
+        db.prepare("SELECT data FROM outbox WHERE id = ?").get(id) as
+          | DocumentRow
+          | undefined,
+      );
+      if (!current || !isClaimable(current)) {
+        return undefined;
+      }
+      const claimed: OutboxMessage = {
+        ...current,
+        status: "sending",
+        claimedAt,
+      };
+      saveOutboxMessage(claimed);
+      return claimed;
+    },
+  );
+
+  const seed = db.transaction((data: MockData) => {
+    data.users.forEach(saveUser);
+    data.domains.forEach(saveDomain);
+    data.approvals.forEach(saveApproval);
+    data.logs.forEach(saveLog);
+    (data.outbox ?? []).forEach(saveOutboxMessage);
+    (data.inbox ?? []).forEach(saveInAppNotification);
+    (data.credentials ?? []).forEach(saveCredential);
+  });
+
+  const { count } = db
+    .prepare("SELECT COUNT(*) AS count FROM users")
+    .get() as { count: number };
+  if (count === 0 && existsSync(seedPath)) {
+    seed(JSON.parse(readFileSync(seedPath, "utf-8")) as MockData);
+  }
+
+  // Databases created before sign-in existed take their credentials from the seed.
+  const { credentialCount } = db
+    .prepare("SELECT COUNT(*) AS credentialCount FROM credentials")
+    .get() as { credentialCount: number };
+  if (credentialCount === 0 && existsSync(seedPath)) {
+    const { credentials = [] } = JSON.parse(
+      readFileSync(seedPath, "utf-8"),
+    ) as Partial<MockData>;
+    db.transaction(() => credentials.forEach(saveCredential))();
+  }
+
+  const assembleDomains = (domainRows: DocumentRow[]): Domain[] => {
+    const subdomainRows = db
+      .prepare("SELECT domain_id, data FROM subdomains ORDER BY rowid")
+      .all() as SubdomainRow[];
+    const flowRows = db
+      .prepare("SELECT subdomain_id, domain_id, data FROM flows ORDER BY rowid")
+      .all() as FlowRow[];
+
+    return parseRows<DomainRecord>(domainRows).map((domain) => ({
+      ...domain,
+      subdomains: subdomainRows
+        .filter((row) => row.domain_id === domain.id)
+        .map((row) => {
+          const subdomain = JSON.parse(row.data) as SubdomainRecord;
+          return {
+            ...subdomain,
+            flows: parseRows<ApprovalFlow>(
+              flowRows.filter(
+                (flowRow) =>
+                  flowRow.domain_id === domain.id &&
+                  flowRow.subdomain_id === subdomain.id,
+              ),
+            ),
+          };
+        }),
+    }));
+  };
+
+  const listDomains = () =>
+    assembleDomains(
+      db.prepare("SELECT data FROM domains ORDER BY rowid").all() as DocumentRow[],
+    );
+
+  return {
+    snapshot: async () => ({
+      users: parseRows<User>(
+        db.prepare("SELECT data FROM users ORDER BY rowid").all() as DocumentRow[],
+      ),
+      domains: listDomains(),
+      approvals: parseRows<Approval>(
+        db
+          .prepare("SELECT data FROM approvals ORDER BY rowid")
+          .all() as DocumentRow[],
+      ),
+      logs: parseRows<LogEntry>(
+        db.prepare("SELECT data FROM logs ORDER BY rowid").all() as DocumentRow[],
+      ),
+      outbox: parseRows<OutboxMessage>(
+        db.prepare("SELECT data FROM outbox ORDER BY rowid").all() as DocumentRow[],
+      ),
+      inbox: parseRows<InAppNotification>(
+        db.prepare("SELECT data FROM inbox ORDER BY rowid").all() as DocumentRow[],
+      ),
+      credentials: parseRows<LocalCredential>(
+        db
+          .prepare("SELECT data FROM credentials ORDER BY rowid")
+          .all() as DocumentRow[],
+      ),
+    }),
+    users: {
+      list: async () =>
+        parseRows<User>(
+          db
+            .prepare("SELECT data FROM users ORDER BY rowid")
+            .all() as DocumentRow[],
+        ),
+      get: async (id) => findUser(id),
+      save: async (user) => {
+        updateUser.immediate(user);
+      },
+      revokeSessions: async (id) => revokeUserSessions.immediate(id),
+    },
+    domains: {
+      list: async () => listDomains(),
+      get: async (id) => {
+        const row = db.prepare("SELECT data FROM domains WHERE id = ?").get(id) as
+          | DocumentRow
+          | undefined;
+        return row ? assembleDomains([row])[0] : undefined;
+      },
+      save: async (domain) => {
+        upsertDomain.run(domain.id, JSON.stringify(domain));
+      },
+      remove: async (domainId) => {
+        db.prepare("DELETE FROM domains WHERE id = ?").run(domainId);
+      },
+      saveSubdomain: async (domainId, subdomain) => {
+        const domain = db
+          .prepare("SELECT id FROM domains WHERE id = ?")
+          .get(domainId);
+        if (!domain) {
+          throw new Error(`Domain "${domainId}" not found.`);
+        }
+        upsertSubdomain.run(subdomain.id, domainId, JSON.stringify(subdomain));
+      },
+      removeSubdomain: async (domainId, subdomainId) => {
+        removeSubdomain(domainId, subdomainId);
+      },
+    },
+    flows: {
+      find: async (flowId) => {
+        const row = db
+          .prepare(
+            "SELECT domain_id, subdomain_id, data FROM flows WHERE id = ?",
+          )
+          .get(flowId) as FlowRow | undefined;
+        if (!row) {
+          return null;
+        }
+        const domainRow = db
+          .prepare("SELECT data FROM domains WHERE id = ?")
+          .get(row.domain_id) as DocumentRow | undefined;
+        const [domain] = domainRow ? assembleDomains([domainRow]) : [];
+        const subdomain = domain?.subdomains.find(
+          (item) => item.id === row.subdomain_id,
+        );
+        if (!domain || !subdomain) {
+          return null;
+        }
+        const stored: StoredFlow = {
+          domain,
+          subdomain,
+          flow: JSON.parse(row.data) as ApprovalFlow,
+        };
+        return stored;
+      },
+      save: async (domainId, subdomainId, flow, options) =>
+        saveFlow(domainId, subdomainId, flow, options),
+      remove: async (flowId, options) => {
+        removeFlow.immediate(flowId, options);
+      },
+    },
+    approvals: {
+      list: async (query) => {
+        const rows = query?.flowId
+          ? db
+              .prepare(
+                "SELECT data FROM approvals WHERE flow_id = ? ORDER BY rowid",
+              )
+              .all(query.flowId)
+          : db.prepare("SELECT data FROM approvals ORDER BY rowid").all();
+        return parseRows<Approval>(rows as DocumentRow[]);
+      },
+      get: async (id) =>
+        parseRow<Approval>(
+          db.prepare("SELECT data FROM approvals WHERE id = ?").get(id) as
+            | DocumentRow
+            | undefined,
+        ),
+      save: async (approval) => {
+        saveApproval(approval);
+      },
+      update: async <T>(
+        id: string,
+        mutate: (approval: Approval) => ApprovalMutation<T>,
+      ) => updateApproval.immediate(id, mutate) as ApprovalMutation<T> | undefined,
+    },
+    logs: {
+      list: async () =>
+        parseRows<LogEntry>(
+          db.prepare("SELECT data FROM logs ORDER BY rowid").all() as DocumentRow[],
+        ),
+      append: async (entry) => {
+        saveLog(entry);
+      },
+    },
+    outbox: {
+      list: async (query) => {
+        const rows = query?.status
+          ? db
+              .prepare("SELECT data FROM outbox WHERE status = ? ORDER BY rowid")
+              .all(query.status)
+          : db.prepare("SELECT data FROM outbox ORDER BY rowid").all();
+        return parseRows<OutboxMessage>(rows as DocumentRow[]).filter(
+          (message) => matchesOutboxQuery(message, query),
+        );
+      },
+      get: async (id) =>
+        parseRow<OutboxMessage>(
+          db.prepare("SELECT data FROM outbox WHERE id = ?").get(id) as
+            | DocumentRow
+            | undefined,
+        ),
+      save: async (message) => {
+        saveOutboxMessage(message);
+      },
+      claim: async (id, isClaimable, claimedAt) =>
+        claimOutboxMessage.immediate(id, isClaimable, claimedAt),
+    },
+    inbox: {
+      list: async (query) => {
+        const rows = query?.userId
+          ? db
+              .prepare("SELECT data FROM inbox WHERE user_id = ? ORDER BY rowid")
+              .all(query.userId)
+          : db.prepare("SELECT data FROM inbox ORDER BY rowid").all();
+        return parseRows<InAppNotification>(rows as DocumentRow[]).filter(
+          (notification) => matchesInboxQuery(notification, query),
+        );
+      },
+      get: async (id) =>
+        parseRow<InAppNotification>(
+          db.prepare("SELECT data FROM inbox WHERE id = ?").get(id) as
+            | DocumentRow
+            | undefined,
+        ),
+      save: async (notification) => {
+        saveInAppNotification(notification);
+      },
+    },
+    credentials: {
+      find: async (username) =>
+        parseRow<LocalCredential>(
+          db
+            .prepare("SELECT data FROM credentials WHERE username = ?")
+            .get(username.toLowerCase()) as DocumentRow | undefined,
+        ),
+      findByUser: async (userId) =>
+        parseRow<LocalCredential>(
+          db
+            .prepare("SELECT data FROM credentials WHERE user_id = ?")
+            .get(userId) as DocumentRow | undefined,
+        ),
+      save: async (credential) => {
+        saveCredential(credential);
+      },
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import {
+  ApprovalFlowDefinition,
+  ApprovalFlowStage,
+  ApprovalSlaState,
+  EscalationAction,
+  EscalationStep,
+  StageSla,
+} from "@/types";
+
+export const ESCALATION_ACTIONS: { value: EscalationAction; label: string }[] =
+  [
+    { value: "remind", label: "Remind assignees" },
+    { value: "escalate", label: "Escalate to supervisor" },
+    { value: "auto-transition", label: "Auto-transition" },
+  ];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isEscalationAction(value: unknown): value is EscalationAction {
+  return ESCALATION_ACTIONS.some((action) => action.value === value);
+}
+
+export function addHours(timestamp: string, hours: number) {
+  return new Date(new Date(timestamp).getTime() + hours * HOUR_MS).toISOString();
+}
+
+/** Escalation steps in the order the scheduler runs them. */
+export function orderEscalationSteps(
+  stage: ApprovalFlowStage,
+): EscalationStep[] {
+  return [...(stage.sla?.escalation ?? [])].sort(
+    (a, b) => a.afterHours - b.afterHours,
+  );
+}
+
+/** Starts the SLA clock when an approval enters a stage. */
+export function startStageSla(
+  stage: ApprovalFlowStage | undefined,
+  timestamp: string,
+): ApprovalSlaState | undefined {
+  if (!stage?.sla || stage.transitions.length === 0) {
+    return undefined;
+  }
+  return {
+    stageId: stage.id,
+    dueAt: addHours(timestamp, stage.sla.dueInHours),
+    stepsTaken: 0,
+  };
+}
+
+export function isSlaOverdue(sla: ApprovalSlaState | undefined, now: Date) {
+  return Boolean(sla && new Date(sla.dueAt).getTime() <= now.getTime());
+}
+
+export function describeSla(sla: StageSla) {
+  const steps = sla.escalation?.length ?? 0;
+  return steps > 0
+    ? `SLA ${sla.dueInHours}h · ${steps} step${steps === 1 ? "" : "s"}`
+    : `SLA ${sla.dueInHours}h`;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Checks SLA settings: a positive due time, known step actions, and at most
+ * one auto-transition that runs last and follows one of the stage's own
+ * transitions.
+ */
+export function validateStageSla(
+  stage: ApprovalFlowStage,
+  definition: ApprovalFlowDefinition,
+): string[] {
+  if (stage.sla === undefined) {
+    return [];
+  }
+  const label = `Stage "${stage.name}" SLA`;
+  const sla = (stage.sla ?? {}) as unknown as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (stage.transitions.length === 0) {
+    issues.push(`${label} cannot be set on a final stage.`);
+  }
+  if (!isNonNegativeNumber(sla.dueInHours) || sla.dueInHours === 0) {
+    issues.push(`${label} must be due after a positive number of hours.`);
+  }
+  if (sla.escalation !== undefined && !Array.isArray(sla.escalation)) {
+    issues.push(`${label} escalation must be a list of steps.`);
+    return issues;
+  }
+
+  const steps = (sla.escalation ?? []) as Record<string, unknown>[];
+  steps.forEach((step, index) => {
+    const stepLabel = `${label} step #${index + 1}`;
+    if (!isNonNegativeNumber(step?.afterHours)) {
+      issues.push(`${stepLabel} needs a non-negative number of hours.`);
+    }
+    if (!isEscalationAction(step?.action)) {
+      issues.push(
+        `${stepLabel} action must be one of ${ESCALATION_ACTIONS.map((action) => action.value).join(", ")}.`,
+      );
+    }
+    if (step?.action === "auto-transition") {
+      const reachable =
+        typeof step.targetStageId === "string" &&
+        stage.transitions.some(
+        (transition) =>
+          transition.targetStageId === step.targetStageId ||
+          (!transition.targetStageId &&
+            definition.stages.some(
+              (candidate) =>
+                candidate.id === step.targetStageId &&
+                candidate.status === transition.to,
+            )),
+      );
+      if (!reachable) {
+        issues.push(
+          `${stepLabel} must auto-transition to a stage "${stage.name}" already links to.`,
+        );
+      }
+    }
+  });
+
+  const autoTransitions = steps.filter(
+    (step) => step?.action === "auto-transition",
+  );
+  if (autoTransitions.length > 1) {
+    issues.push(`${label} can auto-transition only once.`);
+  } else if (
+    autoTransitions.length === 1 &&
+    steps.some(
+      (step) =>
+        isNonNegativeNumber(step?.afterHours) &&
+        isNonNegativeNumber(autoTransitions[0].afterHours) &&
+        step.afterHours > autoTransitions[0].afterHours,
+    )
+  ) {
+    issues.push(`${label} auto-transition must be the last step.`);
+  }
+
+  return issues;
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  lintTemplate,
+  parseTemplate,
+  renderTemplate,
+  type TemplateRenderOptions,
+} from "@/lib/templateLanguage";
+
+function render(
+  source: string,
+  scope: Record<string, unknown>,
+  options?: TemplateRenderOptions,
+) {
+  const parsed = parseTemplate(source);
+  if (!parsed.ok) {
+    throw new Error(parsed.issues.join(" "));
+  }
+  return renderTemplate(parsed.nodes, scope, options);
+}
+
+describe("parseTemplate", () => {
+  it("names the line of a syntax error", () => {
+    expect(parseTemplate("Hello\n{{approval.title")).toEqual({
+      ok: false,
+      issues: ['Unclosed "{{" on line 2.'],
+    });
+    expect(parseTemplate("{{#if ready}}\nyes")).toEqual({
+      ok: false,
+      issues: ["{{#if}} opened on line 1 is never closed."],
+    });
+    expect(parseTemplate("{{title | shout}}")).toMatchObject({
+      ok: false,
+      issues: [expect.stringContaining('Unknown filter "shout" on line 1.')],
+    });
+  });
+
+  it("rejects blocks closed out of order", () => {
+    expect(parseTemplate("{{#each items as item}}{{/if}}")).toEqual({
+      ok: false,
+      issues: ["{{/if}} on line 1 does not close an open {{#if}} block."],
+    });
+  });
+});
+
+describe("renderTemplate", () => {
+  it("reads nested variables and renders missing ones as empty", () => {
+    expect(
+      render("{{approval.title}} by {{requester.name}}", {
+        approval: { title: "Laptop" },
+      }),
+    ).toBe("Laptop by ");
+  });
+
+  it("keeps missing top-level variables in previews", () => {
+    expect(
+      render("{{approval.title}} for {{stage.name}}", { stage: { name: "Review" } }, {
+        keepMissing: true,
+      }),
+    ).toBe("{{approval.title}} for Review");
+  });
+
+  it("escapes HTML unless the raw filter is used", () => {
+    const scope = { note: "<b>Tom & Jerry</b>" };
+    expect(render("{{note}}", scope, { escapeHtml: true })).toBe(
+      "&lt;b&gt;Tom &amp; Jerry&lt;/b&gt;",
+    );
+    expect(render("{{note | raw}}", scope, { escapeHtml: true })).toBe(
+      "<b>Tom & Jerry</b>",
+    );
+  });
+
+  it("chains filters left to right", () => {
+    expect(render("{{name | default: 'nobody' | upper}}", {})).toBe("NOBODY");
+    expect(render("{{tags | join: ' / '}}", { tags: ["a", "b"] })).toBe(
+      "a / b",
+    );
+    expect(render("{{tags | length}}", { tags: ["a", "b", "c"] })).toBe("3");
+  });
+
+  it("formats numbers, currency and dates", () => {
+    expect(render("{{amount | number}}", { amount: 1234.567 })).toBe(
+      "1,234.57",
+    );
+    expect(render("{{amount | number: 0}}", { amount: 1234.567 })).toBe(
+      "1,235",
+    );
+    expect(render("{{amount | currency: 'EUR'}}", { amount: 12.5 })).toBe(
+      "€12.50",
+    );
+    expect(
+      render("{{due | date: 'iso'}}", { due: "2026-03-04T10:00:00Z" }),
+    ).toBe("2026-03-04");
+  });
+
+  it("falls back to the plain value when a filter argument can't format", () => {
+    expect(render("{{amount | number: 50}}", { amount: 3.5 })).toBe("3.5");
+    expect(render("{{amount | number: -1}}", { amount: 3.5 })).toBe("3.5");
+    expect(render("{{amount | currency: 'nope'}}", { amount: 3.5 })).toBe(
+      "3.5",
+    );
+  });
+
+  it("branches on conditions, treating empty lists as false", () => {
+    const source = "{{#if comments}}has{{else}}none{{/if}}";
+    expect(render(source, { comments: [] })).toBe("none");
+    expect(render(source, { comments: ["hi"] })).toBe("has");
+    expect(
+      render("{{#if amount > 100}}big{{else}}small{{/if}}", { amount: 150 }),
+    ).toBe("big");
+  });
+
+  it("loops with the loop variable", () => {
+    expect(
+      render(
+        "{{#each people as person}}{{loop.index}}.{{person.name}}{{#if !loop.last}}, {{/if}}{{/each}}",
+        { people: [{ name: "Ann" }, { name: "Bo" }] },
+      ),
+    ).toBe("1.Ann, 2.Bo");
+  });
+});
+
+describe("lintTemplate", () => {
+  const variables = {
+    approval: { keys: { title: "value" as const } },
+    history: { items: "object" as const },
+  };
+
+  it("reports unknown variables with their line", () => {
+    expect(
+      lintTemplate("{{approval.title}}\n{{approval.owner}}", variables),
+    ).toEqual(['Unknown variable "approval.owner" on line 2.']);
+  });
+
+  it("only lets lists be looped over", () => {
+    expect(
+      lintTemplate(
+        "{{#each history as entry}}{{entry.actor}}{{/each}}{{#each approval as x}}{{/each}}",
+        variables,
+      ),
+    ).toEqual([
+      '"approval" on line 1 is not a list and cannot be used with {{#each}}.',
+    ]);
+  });
+
+  it("requires whole-number digits for the number filter", () => {
+    expect(
+      lintTemplate(
+        "{{approval.title | number: 2}}\n{{approval.title | number: 2.5}}\n{{approval.title | number: 21}}",
+        variables,
+      ),
+    ).toEqual([
+      'Filter "number" on line 2 takes a whole number of digits from 0 to 20.',
+      'Filter "number" on line 3 takes a whole number of digits from 0 to 20.',
+    ]);
+  });
+});
@@ -0,0 +1,631 @@
+import {
+  evaluateCondition,
+  parseCondition,
+  type ConditionNode,
+} from "@/lib/conditionExpression";
+
+export type TemplateFilterName =
+  | "upper"
+  | "lower"
+  | "date"
+  | "number"
+  | "currency"
+  | "default"
+  | "join"
+  | "length"
+  | "raw";
+
+export interface TemplateFilterCall {
+  name: TemplateFilterName;
+  argument?: string | number;
+}
+
+export type TemplateNode =
+  | { kind: "text"; value: string }
+  | {
+      kind: "output";
+      path: string[];
+      filters: TemplateFilterCall[];
+      source: string;
+      line: number;
+    }
+  | {
+      kind: "if";
+      condition: ConditionNode;
+      line: number;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+    }
+  | {
+      kind: "each";
+      path: string[];
+      alias: string;
+      line: number;
+      body: TemplateNode[];
+    };
+
+export type TemplateParseResult =
+  | { ok: true; nodes: TemplateNode[] }
+  | { ok: false; issues: string[] };
+
+export interface TemplateRenderOptions {
+  /** Escapes output for HTML bodies; the `raw` filter opts out. */
+  escapeHtml?: boolean;
+  /**
+   * Re-emits output tags whose top-level variable is absent, so previews
+   * without an approval still show where approval data will go.
+   */
+  keepMissing?: boolean;
+}
+
+/**
+ * Describes what a variable holds so the lint can check field access:
+ * a plain value, an object with any fields, an object with known fields, or
+ * a list to loop over with `{{#each}}`.
+ */
+export type TemplateVariableShape =
+  | "value"
+  | "object"
+  | { keys: Record<string, TemplateVariableShape> }
+  | { items: TemplateVariableShape };
+
+export const TEMPLATE_FILTERS: TemplateFilterName[] = [
+  "upper",
+  "lower",
+  "date",
+  "number",
+  "currency",
+  "default",
+  "join",
+  "length",
+  "raw",
+];
+
+const DATE_STYLES = ["short", "medium", "long", "full"] as const;
+
+const LOOP_SHAPE: TemplateVariableShape = {
+  keys: { index: "value", first: "value", last: "value" },
+};
+
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/;
+
+class TemplateSyntaxError extends Error {}
+
+function isTemplateFilter(value: string): value is TemplateFilterName {
+  return (TEMPLATE_FILTERS as string[]).includes(value);
+}
+
+function lineAt(source: string, index: number) {
+  return source.slice(0, index).split("\n").length;
+}
+
+/** Parses `path | filter: "arg" | filter` from an output tag. */
+function parseOutputTag(
+  tag: string,
+  line: number,
+): Extract<TemplateNode, { kind: "output" }> {
+  const pathMatch = PATH_PATTERN.exec(tag);
+  if (!pathMatch) {
+    throw new TemplateSyntaxError(
+      `Expected a variable in "{{${tag}}}" on line ${line}.`,
+    );
+  }
+
+  const filters: TemplateFilterCall[] = [];
+  let rest = tag.slice(pathMatch[0].length).trim();
+  while (rest) {
+    const filterMatch = /^\|\s*([A-Za-z]+)\s*/.exec(rest);
+    if (!filterMatch) {
+      throw new TemplateSyntaxError(
+        `Unexpected "${rest}" in "{{${tag}}}" on line ${line}.`,
+      );
+    }
+    const name = filterMatch[1];
+    if (!isTemplateFilter(name)) {
+      throw new TemplateSyntaxError(
+        `Unknown filter "${name}" on line ${line}. Use one of ${TEMPLATE_FILTERS.join(", ")}.`,
+      );
+    }
+    rest = rest.slice(filterMatch[0].length);
+
+    let argument: string | number | undefined;
+    if (rest.startsWith(":")) {
+      const argumentMatch = /^:\s*(?:"([^"]*)"|'([^']*)'|(-?\d+(?:\.\d+)?))\s*/.exec(
+        rest,
+      );
+      if (!argumentMatch) {
+        throw new TemplateSyntaxError(
+          `Filter "${name}" on line ${line} needs a quoted string or number argument.`,
+        );
+      }
+      argument =
+        argumentMatch[3] !== undefined
+          ? Number(argumentMatch[3])
+          : (argumentMatch[1] ?? argumentMatch[2]);
+      rest = rest.slice(argumentMatch[0].length);
+    }
+    filters.push({ name, argument });
+  }
+
+  return {
+    kind: "output",
+    path: pathMatch[0].split("."),
+    filters,
+    source: tag,
+    line,
+  };
+}
+
+type Frame =
+  | { kind: "root"; nodes: TemplateNode[] }
+  | {
+      kind: "if";
+      node: Extract<TemplateNode, { kind: "if" }>;
+      inElse: boolean;
+    }
+  | { kind: "each"; node: Extract<TemplateNode, { kind: "each" }> };
+
+function frameNodes(frame: Frame) {
+  if (frame.kind === "root") {
+    return frame.nodes;
+  }
+  if (frame.kind === "if") {
+    return frame.inElse ? frame.node.otherwise : frame.node.then;
+  }
+  return frame.node.body;
+}
+
+function parseTemplateSource(source: string): TemplateNode[] {
+  const root: Frame = { kind: "root", nodes: [] };
+  const stack: Frame[] = [root];
+  const current = () => stack[stack.length - 1];
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf("{{", index);
+    if (open === -1) {
+      frameNodes(current()).push({ kind: "text", value: source.slice(index) });
+      break;
+    }
+    if (open > index) {
+      frameNodes(current()).push({
+        kind: "text",
+        value: source.slice(index, open),
+      });
+    }
+
+    const line = lineAt(source, open);
+    const close = source.indexOf("}}", open + 2);
+    if (close === -1) {
+      throw new TemplateSyntaxError(`Unclosed "{{" on line ${line}.`);
+    }
+    const tag = source.slice(open + 2, close).trim();
+    index = close + 2;
+
+    if (tag.startsWith("#if ")) {
+      const parsed = parseCondition(tag.slice(4));
+      if (!parsed.ok) {
+        throw new TemplateSyntaxError(
+          `Condition in {{#if}} on line ${line}: ${parsed.issues.join(" ")}`,
+        );
+      }
+      const node: Extract<TemplateNode, { kind: "if" }> = {
+        kind: "if",
+        condition: parsed.expression,
+        line,
+        then: [],
+        otherwise: [],
+      };
+      frameNodes(current()).push(node);
+      stack.push({ kind: "if", node, inElse: false });
+      continue;
+    }
+
+    if (tag.startsWith("#each ")) {
+      const match =
+        /^#each\s+([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s+as\s+([A-Za-z_$][\w$]*)$/.exec(
+          tag,
+        );
+      if (!match) {
+        throw new TemplateSyntaxError(
+          `Expected "{{#each list as item}}" on line ${line}.`,
+        );
+      }
+      const node: Extract<TemplateNode, { kind: "each" }> = {
+        kind: "each",
+        path: match[1].split("."),
+        alias: match[2],
+        line,
+        body: [],
+      };
+      frameNodes(current()).push(node);
+      stack.push({ kind: "each", node });
+      continue;
+    }
+
+    if (tag === "else") {
+      const frame = current();
+      if (frame.kind !== "if" || frame.inElse) {
+        throw new TemplateSyntaxError(
+          `{{else}} on line ${line} is not inside an {{#if}} block.`,
+        );
+      }
+      frame.inElse = true;
+      continue;
+    }
+
+    if (tag === "/if" || tag === "/each") {
+      const frame = current();
+      const expected = tag.slice(1);
+      if (frame.kind !== expected) {
+        throw new TemplateSyntaxError(
+          `{{${tag}}} on line ${line} does not close an open {{#${expected}}} block.`,
+        );
+      }
+      stack.pop();
+      continue;
+    }
+
+    if (tag.startsWith("#") || tag.startsWith("/")) {
+      throw new TemplateSyntaxError(
+        `Unknown block "{{${tag}}}" on line ${line}. Use {{#if}} or {{#each}}.`,
+      );
+    }
+
+    frameNodes(current()).push(parseOutputTag(tag, line));
+  }
+
+  const unclosed = current();
+  if (unclosed.kind !== "root") {
+    throw new TemplateSyntaxError(
+      `{{#${unclosed.kind}}} opened on line ${unclosed.node.line} is never closed.`,
+    );
+  }
+  return root.nodes;
+}
+
+export function parseTemplate(source: string): TemplateParseResult {
+  try {
+    return { ok: true, nodes: parseTemplateSource(source) };
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return { ok: false, issues: [error.message] };
+    }
+    throw error;
+  }
+}
+
+/** Own properties of plain objects only, mirroring condition field lookup. */
+function readPath(scope: Record<string, unknown>, path: string[]) {
+  let current: unknown = scope;
+  for (const segment of path) {
+    if (
+      !current ||
+      typeof current !== "object" ||
+      Array.isArray(current) ||
+      !Object.prototype.hasOwnProperty.call(current, segment)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(", ");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(value: unknown, style: string | number | undefined) {
+  const date =
+    typeof value === "string" || typeof value === "number"
+      ? new Date(value)
+      : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    return value;
+  }
+  if (style === "iso") {
+    return date.toISOString().slice(0, 10);
+  }
+  if (style === "datetime") {
+    return new Intl.DateTimeFormat("en", {
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZone: "UTC",
+    }).format(date);
+  }
+  const dateStyle = DATE_STYLES.find((item) => item === style) ?? "medium";
+  return new Intl.DateTimeFormat("en", { dateStyle, timeZone: "UTC" }).format(
+    date,
+  );
+}
+
+function toNumber(value: unknown) {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function applyFilter(value: unknown, filter: TemplateFilterCall): unknown {
+  const { argument } = filter;
+  switch (filter.name) {
+    case "upper":
+      return formatValue(value).toUpperCase();
+    case "lower":
+      return formatValue(value).toLowerCase();
+    case "date":
+      return formatDate(value, argument);
+    case "number": {
+      const number = toNumber(value);
+      if (number === undefined) {
+        return value;
+      }
+      const digits = typeof argument === "number" ? argument : undefined;
+      try {
+        return new Intl.NumberFormat("en", {
+          minimumFractionDigits: digits,
+          maximumFractionDigits: digits ?? 2,
+        }).format(number);
+      } catch {
+        return formatValue(value);
+      }
+    }
+    case "currency": {
+      const number = toNumber(value);
+      if (number === undefined) {
+        return value;
+      }
+      try {
+        return new Intl.NumberFormat("en", {
+          style: "currency",
+          currency: typeof argument === "string" ? argument : "USD",
+        }).format(number);
+      } catch {
+        return formatValue(value);
+      }
+    }
+    case "default":
+      return value === undefined || value === null || value === ""
+        ? argument
+        : value;
+    case "join":
+      return Array.isArray(value)
+        ? value
+            .map(formatValue)
+            .join(typeof argument === "string" ? argument : ", ")
+        : value;
+    case "length":
+      return Array.isArray(value) || typeof value === "string"
+        ? value.length
+        : 0;
+    case "raw":
+      return value;
+  }
+}
+
+/** Empty lists count as false, so `{{#if comments}}` reads naturally. */
+function isTruthy(value: unknown) {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function evaluateTemplateCondition(
+  condition: ConditionNode,
+  scope: Record<string, unknown>,
+): boolean {
+  if (condition.kind === "field") {
+    return isTruthy(readPath(scope, condition.path));
+  }
+  if (condition.kind === "not" && condition.operand.kind === "field") {
+    return !isTruthy(readPath(scope, condition.operand.path));
+  }
+  return evaluateCondition(condition, scope);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scope: Record<string, unknown>,
+  options: TemplateRenderOptions,
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case "text":
+          return node.value;
+        case "if":
+          return renderNodes(
+            evaluateTemplateCondition(node.condition, scope)
+              ? node.then
+              : node.otherwise,
+            scope,
+            options,
+          );
+        case "each": {
+          const items = readPath(scope, node.path);
+          if (!Array.isArray(items)) {
+            return "";
+          }
+          return items
+            .map((item, index) =>
+              renderNodes(
+                node.body,
+                {
+                  ...scope,
+                  [node.alias]: item,
+                  loop: {
+                    index: index + 1,
+                    first: index === 0,
+                    last: index === items.length - 1,
+                  },
+                },
+                options,
+              ),
+            )
+            .join("");
+        }
+        case "output": {
+          if (
+            options.keepMissing &&
+            !Object.prototype.hasOwnProperty.call(scope, node.path[0])
+          ) {
+            return `{{${node.source}}}`;
+          }
+          const value = node.filters.reduce(
+            applyFilter,
+            readPath(scope, node.path),
+          );
+          const text = formatValue(value);
+          const isRaw = node.filters.some((filter) => filter.name === "raw");
+          return options.escapeHtml && !isRaw ? escapeHtml(text) : text;
+        }
+      }
+    })
+    .join("");
+}
+
+/**
+ * Renders parsed template nodes against `scope`. Missing variables render as
+ * empty text unless `keepMissing` is set.
+ */
+export function renderTemplate(
+  nodes: TemplateNode[],
+  scope: Record<string, unknown>,
+  options: TemplateRenderOptions = {},
+): string {
+  return renderNodes(nodes, scope, options);
+}
+
+function listConditionPaths(node: ConditionNode): string[][] {
+  switch (node.kind) {
+    case "literal":
+      return [];
+    case "field":
+      return [node.path];
+    case "list":
+      return node.items.flatMap(listConditionPaths);
+    case "not":
+      return listConditionPaths(node.operand);
+    case "logical":
+    case "compare":
+      return [
+        ...listConditionPaths(node.left),
+        ...listConditionPaths(node.right),
+      ];
+  }
+}
+
+/** Follows `path` through the declared shapes; returns null when unknown. */
+function resolveShape(
+  variables: Record<string, TemplateVariableShape>,
+  path: string[],
+): TemplateVariableShape | null {
+  if (!Object.prototype.hasOwnProperty.call(variables, path[0])) {
+    return null;
+  }
+  let shape = variables[path[0]];
+  for (const segment of path.slice(1)) {
+    if (shape === "object") {
+      return "object";
+    }
+    if (
+      shape === "value" ||
+      "items" in shape ||
+      !Object.prototype.hasOwnProperty.call(shape.keys, segment)
+    ) {
+      return null;
+    }
+    shape = shape.keys[segment];
+  }
+  return shape;
+}
+
+const MAX_FRACTION_DIGITS = 20;
+
+/** Filter arguments that parse but could never render. */
+function lintFilters(node: Extract<TemplateNode, { kind: "output" }>) {
+  return node.filters.flatMap(({ name, argument }) =>
+    name === "number" &&
+    argument !== undefined &&
+    (typeof argument !== "number" ||
+      !Number.isInteger(argument) ||
+      argument < 0 ||
+      argument > MAX_FRACTION_DIGITS)
+      ? [
+          `Filter "number" on line ${node.line} takes a whole number of digits from 0 to ${MAX_FRACTION_DIGITS}.`,
+        ]
+      : [],
+  );
+}
+
+function lintNodes(
+  nodes: TemplateNode[],
+  variables: Record<string, TemplateVariableShape>,
+): string[] {
+  const unknown = (path: string[], line: number) =>
+    resolveShape(variables, path)
+      ? []
+      : [`Unknown variable "${path.join(".")}" on line ${line}.`];
+
+  return nodes.flatMap((node) => {
+    switch (node.kind) {
+      case "text":
+        return [];
+      case "output":
+        return [...unknown(node.path, node.line), ...lintFilters(node)];
+      case "if":
+        return [
+          ...listConditionPaths(node.condition).flatMap((path) =>
+            unknown(path, node.line),
+          ),
+          ...lintNodes(node.then, variables),
+          ...lintNodes(node.otherwise, variables),
+        ];
+      case "each": {
+        const shape = resolveShape(variables, node.path);
+        if (!shape) {
+          return unknown(node.path, node.line);
+        }
+        if (shape === "value" || (typeof shape === "object" && "keys" in shape)) {
+          return [
+            `"${node.path.join(".")}" on line ${node.line} is not a list and cannot be used with {{#each}}.`,
+          ];
+        }
+        return lintNodes(node.body, {
+          ...variables,
+          [node.alias]: shape === "object" ? "object" : shape.items,
+          loop: LOOP_SHAPE,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Reports syntax errors and variables that `variables` does not declare.
+ * Each message names the line it comes from.
+ */
+export function lintTemplate(
+  source: string,
+  variables: Record<string, TemplateVariableShape>,
+): string[] {
+  const parsed = parseTemplate(source);
+  if (!parsed.ok) {
+    return parsed.issues;
+  }
+  return Array.from(new Set(lintNodes(parsed.nodes, variables)));
+}
@@ -0,0 +1,39 @@
+import type { OutboxMessage } from "@/types";
+
+export interface WebhookTransport {
+  name: "webhook";
+  send(message: OutboxMessage): Promise<void>;
+}
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts the message body (already JSON) to its `url`. Anything other than a
+ * 2xx response counts as a failed attempt so the outbox retries it.
+ */
+export function createWebhookTransport(
+  timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS,
+): WebhookTransport {
+  return {
+    name: "webhook",
+    send: async (message) => {
+      if (!message.url) {
+        throw new Error("Webhook message has no URL.");
+      }
+      const response = await fetch(message.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Approval-Message-Id": message.id,
+        },
+        body: message.body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Webhook responded ${response.status} ${response.statusText}`.trim(),
+        );
+      }
+    },
+  };
+}
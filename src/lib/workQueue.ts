@@ -0,0 +1,107 @@
+import type { MockData } from "@/types";
+import {
+  findFlowContext,
+  getCurrentStage,
+  isApprovalClosed,
+  listAvailableTransitions,
+} from "@/lib/approvalRuntime";
+import { resolveFlowRevision } from "@/lib/flowVersioning";
+import { resolveDelegate } from "@/lib/delegation";
+import { voterOf } from "@/lib/quorum";
+import { isSlaOverdue } from "@/lib/stageSla";
+
+export interface WorkItem {
+  approvalId: string;
+  title: string;
+  domainName: string;
+  subdomainName: string;
+  stageName: string;
+  requesterName: string;
+  submittedAt: string;
+  lastUpdatedAt: string;
+  dueAt?: string;
+  isOverdue: boolean;
+  /** Set when the user acts as delegate for this assignee, not for themselves. */
+  onBehalfOf?: { id: string; name: string };
+  canApprove: boolean;
+  canReject: boolean;
+}
+
+/**
+ * Lists the open approvals whose current stage waits on `userId`, directly
+ * or as someone's delegate, most urgent first: overdue, then by due date,
+ * then approvals without an SLA, least recently updated first. Filtered here
+ * so other people's requests never reach the browser.
+ */
+export function buildWorkItems(
+  data: MockData,
+  userId: string,
+  now: Date,
+): WorkItem[] {
+  const userName = (id: string) =>
+    data.users.find((user) => user.id === id)?.name ?? id;
+
+  const items = data.approvals.flatMap((approval): WorkItem[] => {
+    const context = findFlowContext(data.domains, approval.flowId);
+    if (!context) {
+      return [];
+    }
+    // Approvals pinned to a missing revision can't be acted on; the detail
+    // page says why.
+    const flow = resolveFlowRevision(context.flow, approval.flowVersion);
+    const stage = flow ? getCurrentStage(approval, flow) : undefined;
+    if (!flow || !stage || isApprovalClosed(approval, flow)) {
+      return [];
+    }
+
+    // Parallel stages keep waiting only on approvers who have not voted yet.
+    const voted = new Set(
+      (approval.votes ?? [])
+        .filter((vote) => vote.stageId === stage.id)
+        .map(voterOf),
+    );
+    const assigneeIds = approval.approverIds.filter((id) => !voted.has(id));
+    const coveredId = assigneeIds.includes(userId)
+      ? undefined
+      : assigneeIds.find(
+          (assigneeId) => resolveDelegate(assigneeId, data.users, now) === userId,
+        );
+    if (!assigneeIds.includes(userId) && !coveredId) {
+      return [];
+    }
+
+    return [
+      {
+        approvalId: approval.id,
+        title: approval.title,
+        domainName: context.domain.name,
+        subdomainName: context.subdomain.name,
+        stageName: stage.name,
+        requesterName: userName(approval.requesterId),
+        submittedAt: approval.submittedAt,
+        lastUpdatedAt: approval.lastUpdatedAt,
+        dueAt: approval.sla?.dueAt,
+        isOverdue: isSlaOverdue(approval.sla, now),
+        onBehalfOf: coveredId
+          ? { id: coveredId, name: userName(coveredId) }
+          : undefined,
+        canApprove:
+          listAvailableTransitions(approval, flow, "approve").length > 0,
+        canReject: listAvailableTransitions(approval, flow, "reject").length > 0,
+      },
+    ];
+  });
+
+  return items.sort((left, right) => {
+    if (left.isOverdue !== right.isOverdue) {
+      return left.isOverdue ? -1 : 1;
+    }
+    if (left.dueAt && right.dueAt) {
+      return left.dueAt.localeCompare(right.dueAt);
+    }
+    if (left.dueAt || right.dueAt) {
+      return left.dueAt ? -1 : 1;
+    }
+    return left.lastUpdatedAt.localeCompare(right.lastUpdatedAt);
+  });
+}
@@ -0,0 +1,44 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, readSessionToken } from "@/lib/session";
+
+/** Reachable without a session: sign-in itself and machine-to-machine endpoints. */
+const PUBLIC_PATHS = [
+  "/login",
+  "/api/auth/",
+  "/api/oidc-mock/",
+  "/api/notifications/webhook-stub",
+];
+
+function isPublic(pathname: string) {
+  return PUBLIC_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(path),
+  );
+}
+
+/**
+ * Lets requests through only with a valid session cookie. Pages redirect to
+ * the login screen and API calls get a 401; route handlers then look up the
+ * user themselves to attribute writes.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublic(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+  }
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
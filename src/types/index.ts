@@ -8,13 +8,85 @@ export interface User {
   email: string;
   role: UserRole;
   supervisorId?: string | null;
+  groups?: string[];
+  /** Out-of-office cover: pending work routes to the delegate in this range. */
+  delegation?: UserDelegation;
+  notificationPreferences?: NotificationPreferences;
+  /** Bumped on sign-out and password changes to revoke every session. */
+  sessionVersion?: number;
+}
+
+/** A username/password pair for the local identity provider. */
+export interface LocalCredential {
+  userId: string;
+  /** Unique sign-in name, stored lowercase. */
+  username: string;
+  /** `scrypt$<salt>$<key>`, both hex encoded. */
+  passwordHash: string;
+  updatedAt: string;
+}
+
+export type IdentityProviderId = "local" | "oidc";
+
+/** What the signed session cookie carries. */
+export interface Session {
+  userId: string;
+  provider: IdentityProviderId;
+  issuedAt: string;
+  expiresAt: string;
+  /** The user's `sessionVersion` at sign-in; the session dies once it moves. */
+  version?: number;
+}
+
+export type NotificationFrequency = "immediate" | "digest";
+
+/** Channels addressed to a person; webhooks go to a team endpoint instead. */
+export type PersonalNotificationChannel = "email" | "inApp";
+
+export interface NotificationPreferences {
+  /** "digest" holds emails for the daily digest instead of sending each one. */
+  frequency: NotificationFrequency;
+  channels: PersonalNotificationChannel[];
+  mutedDomainIds: string[];
+}
+
+export interface UserDelegation {
+  delegateId: string;
+  /** Inclusive calendar dates, YYYY-MM-DD (UTC). */
+  startsOn: string;
+  endsOn: string;
+  note?: string;
+}
+
+/** Who a channel addresses, resolved when the approval enters the stage. */
+export type NotificationAudience = "assignees" | "supervisors" | "requester";
+
+export interface WebhookChannelTemplate {
+  url: string;
+  /** Rendered into the JSON body's `text` field, Slack-style. */
+  text: string;
+  /** People listed in the body's `recipients`, e.g. for mentions. */
+  audience?: NotificationAudience[];
+}
+
+export interface InAppChannelTemplate {
+  audience: NotificationAudience[];
+  title: string;
+  body?: string;
 }
 
 export interface StageNotificationTemplate {
   subject: string;
+  /** Plain-text body. */
   body: string;
+  /** Optional HTML alternative; output is HTML-escaped unless piped to `raw`. */
+  html?: string;
   sendToActorSupervisor?: boolean;
   ccActor?: boolean;
+  /** Set to false to notify through the other channels only. */
+  email?: boolean;
+  webhook?: WebhookChannelTemplate;
+  inApp?: InAppChannelTemplate;
 }
 
 export interface FlowTransition {
@@ -26,6 +98,38 @@ export interface FlowTransition {
   conditions?: string[];
 }
 
+export type QuorumPolicy = "all-of" | "any-of" | "n-of-m";
+
+export interface StageApprovers {
+  userIds: string[];
+  policy: QuorumPolicy;
+  /** Sign-offs needed when the policy is "n-of-m". */
+  required?: number;
+}
+
+/** Resolves a stage's assignees when the approval enters it. */
+export type StageAssignment =
+  | { kind: "role"; role: UserRole }
+  | { kind: "group"; group: string }
+  | { kind: "requester-supervisor"; levels?: number }
+  | { kind: "payload-field"; field: string };
+
+export type EscalationAction = "remind" | "escalate" | "auto-transition";
+
+export interface EscalationStep {
+  /** Hours after the SLA falls due. */
+  afterHours: number;
+  action: EscalationAction;
+  /** For "auto-transition": the stage one of this stage's transitions leads to. */
+  targetStageId?: string;
+}
+
+export interface StageSla {
+  dueInHours: number;
+  /** Run in order of `afterHours`; each "escalate" goes one supervisor further up. */
+  escalation?: EscalationStep[];
+}
+
 export interface ApprovalFlowStage {
   id: string;
   status: ApprovalStatus;
@@ -33,12 +137,44 @@ export interface ApprovalFlowStage {
   description: string;
   actor: string;
   actorUserId?: string;
+  /** Dynamic assignees; `actorUserId` is the fallback when nobody matches. */
+  assignment?: StageAssignment;
+  /** Parallel sign-off: the stage waits for quorum before transitioning. */
+  approvers?: StageApprovers;
+  sla?: StageSla;
   notification?: StageNotificationTemplate;
   transitions: FlowTransition[];
 }
 
+export type PayloadFieldType = "string" | "number" | "boolean" | "date";
+
+export interface PayloadField {
+  name: string;
+  label?: string;
+  type: PayloadFieldType;
+  required?: boolean;
+  enum?: (string | number)[];
+  description?: string;
+}
+
 export interface ApprovalFlowDefinition {
   stages: ApprovalFlowStage[];
+  /** Request fields submitters fill in; conditions and templates read them. */
+  payloadSchema?: PayloadField[];
+}
+
+export type VersionBump = "major" | "minor" | "patch";
+
+export interface ApprovalFlowRevision {
+  version: string;
+  definition: ApprovalFlowDefinition;
+  publishedAt: string;
+}
+
+export interface ApprovalFlowDraft {
+  definition: ApprovalFlowDefinition;
+  baseVersion: string;
+  updatedAt: string;
 }
 
 export interface ApprovalFlow {
@@ -49,12 +185,22 @@ export interface ApprovalFlow {
   definition: ApprovalFlowDefinition;
   metadata?: Record<string, unknown>;
   updatedAt: string;
+  publishedAt?: string;
+  archivedAt?: string;
+  draft?: ApprovalFlowDraft;
+  revisions?: ApprovalFlowRevision[];
+  /** Write counter used for optimistic concurrency; bumped on every save. */
+  revision?: number;
 }
 
 export interface Subdomain {
   id: string;
   name: string;
   description: string;
+  /** Users who may edit the subdomain besides the domain's owners. */
+  ownerIds?: string[];
+  /** Archived subdomains take no new flows or submissions. */
+  archivedAt?: string;
   flows: ApprovalFlow[];
 }
 
@@ -62,9 +208,60 @@ export interface Domain {
   id: string;
   name: string;
   description: string;
+  /** Users who may edit the domain besides flow admins. */
+  ownerIds?: string[];
+  /** Archived domains take no new subdomains, flows or submissions. */
+  archivedAt?: string;
   subdomains: Subdomain[];
 }
 
+export type ApprovalAction = "approve" | "reject" | "withdraw" | "comment";
+
+export interface ApprovalVote {
+  stageId: string;
+  actorId: string;
+  /** Set when a delegate voted for this approver. */
+  onBehalfOfId?: string;
+  decision: "approve" | "reject";
+  timestamp: string;
+}
+
+export interface ApprovalHistoryEntry {
+  id: string;
+  action: ApprovalAction | EscalationAction | "submit";
+  actorId: string;
+  /** The assignee a delegate acted for. */
+  onBehalfOfId?: string;
+  fromStageId?: string;
+  toStageId?: string;
+  transitionLabel?: string;
+  comment?: string;
+  /** The comment this entry answers. Threads are one level deep. */
+  replyToId?: string;
+  /** Users tagged with `@handle` in the comment. */
+  mentionIds?: string[];
+  attachmentIds?: string[];
+  timestamp: string;
+}
+
+export interface ApprovalAttachment {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  /** Where the content lives in the blob store. */
+  blobKey: string;
+  uploadedById: string;
+  uploadedAt: string;
+}
+
+export interface ApprovalSlaState {
+  stageId: string;
+  dueAt: string;
+  /** Escalation steps already carried out on this stage. */
+  stepsTaken: number;
+}
+
 export interface Approval {
   id: string;
   title: string;
@@ -75,6 +272,17 @@ export interface Approval {
   status: ApprovalStatus;
   submittedAt: string;
   lastUpdatedAt: string;
+  flowId?: string;
+  flowVersion?: string;
+  currentStageId?: string;
+  history?: ApprovalHistoryEntry[];
+  /** Sign-offs collected so far on the current parallel stage. */
+  votes?: ApprovalVote[];
+  /** SLA clock for the current stage, when it has one. */
+  sla?: ApprovalSlaState;
+  /** Request fields that transition conditions are evaluated against. */
+  payload?: Record<string, unknown>;
+  attachments?: ApprovalAttachment[];
 }
 
 export interface LogEntry {
@@ -85,9 +293,70 @@ export interface LogEntry {
   context: Record<string, unknown>;
 }
 
+/**
+ * `held` messages wait for the recipient's daily digest and become `batched`
+ * once folded into one. `sending` marks a message a worker has claimed.
+ */
+export type OutboxMessageStatus =
+  | "pending"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "held"
+  | "batched";
+
+export type OutboxChannel = "email" | "webhook";
+
+export interface OutboxMessage {
+  id: string;
+  approvalId: string;
+  stageId: string;
+  /** Defaults to "email" for messages queued before webhooks existed. */
+  channel?: OutboxChannel;
+  /** Webhook endpoint; the JSON payload is in `body`. */
+  url?: string;
+  /** Set on held messages: the user whose digest they belong to. */
+  recipientId?: string;
+  /** Set on batched messages: the digest message that included them. */
+  digestId?: string;
+  /** Set on digest messages: the held messages folded into them. */
+  digestOf?: string[];
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  html?: string;
+  status: OutboxMessageStatus;
+  /** Delivery attempts made so far, successful or not. */
+  attempts: number;
+  createdAt: string;
+  /** Earliest time the worker may try again after a failed attempt. */
+  nextAttemptAt?: string;
+  /** When a worker claimed the message for the attempt in progress. */
+  claimedAt?: string;
+  sentAt?: string;
+  /** Name of the transport that last handled the message. */
+  transport?: string;
+  lastError?: string;
+}
+
+export interface InAppNotification {
+  id: string;
+  userId: string;
+  approvalId: string;
+  stageId: string;
+  title: string;
+  body: string;
+  createdAt: string;
+  readAt?: string;
+}
+
 export interface MockData {
   users: User[];
   domains: Domain[];
   approvals: Approval[];
   logs: LogEntry[];
+  outbox: OutboxMessage[];
+  inbox: InAppNotification[];
+  credentials: LocalCredential[];
 }